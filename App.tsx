@@ -13,30 +13,26 @@ import {
 import {
   FlowDefinition,
   MeasureNode,
+  OpenSessionInfo,
   QuestionNode,
   SafetyNode,
   SessionState,
   SessionSummary,
+  StopReasonCode,
   TerminalNode,
 } from './src/types';
 
-import no_power_issue from './src/flows/flow_1_no_power_inside_rv_v2.json';
-import water_system_issue from './src/flows/flow_2_water_system_issue_v2.json';
-import propane_system_issue from './src/flows/flow_3_propane_system_issue_v2.json';
-import slides_leveling_issue from './src/flows/flow_4_slides_leveling_issue_v2.json';
-
 import {
   FlowEngine,
   FlowEngineError,
   FlowValidationError,
   ChecksumVerificationError,
-} from './src/utils/FlowEngine';
-import { FlowChecksumStore } from './src/utils/Flowchecksumstore';
+} from './src/utils/flowEngine';
 
-import { RigIdentityService } from './src/services/RigIdentityService';
 import { StorageService } from './src/services/StorageService';
 import { MaintenanceService } from './src/services/Maintenanceservice';
 import { EquipmentService } from './src/services/Equipmentservice';
+import { FlowRegistry } from './src/services/FlowRegistry';
 
 import { HomeScreen } from './src/Screens/HomeScreen';
 import { EquipmentInventoryScreen } from './src/Screens/EquipmentInventoryScreen';
@@ -62,30 +58,6 @@ type ViewMode =
   | 'maintenance'
   | 'artifacts';
 
-const AVAILABLE_FLOWS = [
-  {
-    flow: no_power_issue as FlowDefinition,
-    name: 'No Power Inside RV',
-    description:
-      'Diagnose 12V and AC power issues in your RV electrical system.',
-  },
-  {
-    flow: water_system_issue as FlowDefinition,
-    name: 'Water System Issue',
-    description: 'Diagnose city water and fresh tank water system problems.',
-  },
-  {
-    flow: propane_system_issue as FlowDefinition,
-    name: 'Propane System Issue',
-    description: 'Diagnose propane supply, valves, and appliance issues.',
-  },
-  {
-    flow: slides_leveling_issue as FlowDefinition,
-    name: 'Slides and Leveling Systems',
-    description: 'Diagnose slide-out movement and leveling system issues.',
-  },
-];
-
 const isIOS = Platform.OS === 'ios';
 
 export default function App() {
@@ -96,6 +68,7 @@ export default function App() {
   );
   const [viewMode, setViewMode] = useState<ViewMode>('flow-select');
   const [history, setHistory] = useState<SessionSummary[]>([]);
+  const [openSessions, setOpenSessions] = useState<OpenSessionInfo[]>([]);
 
   useEffect(() => {
     // Check if user has completed RV profile setup
@@ -106,50 +79,37 @@ export default function App() {
     } else {
       setViewMode('home');
       loadHistory();
+      loadOpenSessions();
       restoreSession();
     }
   }, []);
 
   // ─── Session restore ────────────────────────────────────────────────────────
 
-  const restoreSession = async () => {
-    const existing = StorageService.loadSessionState();
-    if (!existing) return;
-
-    // Only restore in-progress sessions
-    if (existing.completed || existing.stopped) return;
-
+  // Without an id, picks up the most recently touched open session
+  const restoreSession = async (sessionId?: string) => {
     try {
-      const matchingFlow = AVAILABLE_FLOWS.find(
-        (f) => f.flow.flowId === existing.flow_id,
-      );
-      if (!matchingFlow) return;
+      // Resumes on the flow version the session started on, or migrates it
+      const resumed = await FlowEngine.resumeStoredSession(sessionId);
+      if (!resumed) return;
 
-      // Get checksum for verification
-      const expectedChecksum = FlowChecksumStore.getChecksum(
-        matchingFlow.flow.flowId,
-      );
-
-      let engine: FlowEngine;
-      if (expectedChecksum) {
-        engine = await FlowEngine.createWithChecksum(
-          matchingFlow.flow,
-          expectedChecksum,
-        );
-      } else {
-        console.warn(
-          'No checksum for flow during restore:',
-          matchingFlow.flow.flowId,
-        );
-        engine = FlowEngine.createUnsafe(matchingFlow.flow);
+      if (!resumed.engine) {
+        loadHistory();
+        loadOpenSessions();
+        Alert.alert('Diagnostic Ended', resumed.session.stop_reason, [
+          { text: 'OK' },
+        ]);
+        return;
       }
 
-      setFlowEngine(engine);
-      setSessionState(existing);
+      setFlowEngine(resumed.engine);
+      setSessionState(resumed.session);
       setViewMode('diagnostic');
     } catch (err) {
       console.error('Failed to restore session:', err);
-      StorageService.clearSessionState();
+      const failedId = sessionId ?? StorageService.getOpenSessions()[0]?.session_id;
+      if (failedId) StorageService.clearSessionState(failedId);
+      loadOpenSessions();
     }
   };
 
@@ -159,9 +119,14 @@ export default function App() {
     setHistory(FlowEngine.getHistory());
   };
 
+  const loadOpenSessions = () => {
+    setOpenSessions(FlowEngine.listOpenSessions());
+  };
+
   const handleProfileComplete = () => {
     StorageService.setProfileCompleted(true);
     loadHistory();
+    loadOpenSessions();
     restoreSession();
     setViewMode('home');
   };
@@ -171,7 +136,10 @@ export default function App() {
   const handleSelectFlow = async (flow: FlowDefinition) => {
     try {
       // Get expected checksum for this flow
-      const expectedChecksum = FlowChecksumStore.getChecksum(flow.flowId);
+      const expectedChecksum = FlowRegistry.getChecksum(
+        flow.flowId,
+        flow.flowVersion,
+      );
 
       let engine: FlowEngine;
 
@@ -257,8 +225,47 @@ export default function App() {
     }
   };
 
+  // ─── Undo ───────────────────────────────────────────────────────────────────
+
+  const handleGoBack = () => {
+    if (!sessionState || !flowEngine) return;
+
+    try {
+      setSessionState(flowEngine.goBack(sessionState));
+    } catch (err) {
+      if (err instanceof FlowEngineError) {
+        Alert.alert('Cannot Go Back', err.message);
+      } else {
+        Alert.alert('Error', 'Failed to go back');
+      }
+    }
+  };
+
   // ─── STOP ───────────────────────────────────────────────────────────────────
 
+  const stopWith = (stopCode: StopReasonCode) => {
+    if (!sessionState || !flowEngine) return;
+
+    try {
+      const stoppedState = flowEngine.stopSession(sessionState, stopCode);
+      setSessionState(stoppedState);
+      const history = StorageService.getSessionHistory();
+      const latestSummary = history[history.length - 1];
+
+      if (latestSummary) {
+        setSessionSummary(latestSummary);
+      } else {
+        console.error(
+          '[handleStop] Failed to load summary from storage',
+        );
+      }
+
+      loadHistory();
+    } catch (err) {
+      Alert.alert('Error', 'Failed to stop session');
+    }
+  };
+
   const handleStop = () => {
     if (!sessionState || !flowEngine) return;
 
@@ -270,34 +277,19 @@ export default function App() {
         {
           text: 'Stop',
           style: 'destructive',
-          onPress: () => {
-            try {
-              const stoppedState = flowEngine.stopSession(sessionState);
-              setSessionState(stoppedState);
-              const history = StorageService.getSessionHistory();
-              const latestSummary = history[history.length - 1];
-
-              if (latestSummary) {
-                setSessionSummary(latestSummary);
-              } else {
-                console.error(
-                  '[handleStop] Failed to load summary from storage',
-                );
-              }
-
-              loadHistory();
-            } catch (err) {
-              Alert.alert('Error', 'Failed to stop session');
-            }
-          },
+          onPress: () => stopWith('user_abort'),
         },
       ],
     );
   };
 
+  // A hazard on a safety screen stops at once, without a confirmation
+  const handleSafetyHazard = () => stopWith('safety_hazard');
+
   // ─── Navigation ─────────────────────────────────────────────────────────────
 
   const showHome = () => {
+    loadOpenSessions();
     setViewMode('home');
   };
 
@@ -372,6 +364,7 @@ export default function App() {
             setSessionSummary(null);
             setViewMode('flow-select');
             loadHistory();
+            loadOpenSessions();
           },
         },
       ],
@@ -390,50 +383,43 @@ export default function App() {
     if (sessionInProgress) {
       Alert.alert(
         'Session In Progress',
-        'Going back will abort the diagnostic. Continue?',
+        'Pause this diagnostic to continue it later, or abort it?',
         [
           { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Pause',
+            onPress: () => {
+              // The session stays in its storage slot and is listed on home
+              setFlowEngine(null);
+              setSessionState(null);
+              setSessionSummary(null);
+              loadOpenSessions();
+              setViewMode('home');
+            },
+          },
           {
             text: 'Abort & Go Back',
             style: 'destructive',
             onPress: () => {
               if (flowEngine && sessionState) {
                 try {
-                  const rigIdentity = RigIdentityService.getOrCreate();
-
-                  const summary: SessionSummary = {
-                    flow_id: sessionState.flow_id,
-                    flow_version: sessionState.flow_version,
-                    session_id: sessionState.session_id,
-                    started_at: sessionState.started_at,
-                    completed_at: new Date().toISOString(),
-                    events: sessionState.events,
-                    terminal_node_id: sessionState.current_node_id || 'aborted',
-                    result: 'Diagnostic aborted by user',
-                    artifact: undefined, // No artifact for aborted sessions
-                    stopped: false, // This is an abort, not a stop
-
-                    // MS6 Contract Fields
-                    creator_name: rigIdentity.custom_name || 'Owner',
-                    creator_type: 'OWNER',
-                    date_time: new Date().toISOString(),
-                    rig_identity: rigIdentity.id,
-                  };
-
-                  // Save to history
-                  StorageService.saveSessionSummary(summary);
+                  // Stopping records the STOP event and saves the summary to history
+                  flowEngine.stopSession(sessionState, 'user_abort');
                 } catch (err) {
                   console.error('Failed to save aborted session:', err);
                 }
               }
 
               // Clear state
-              StorageService.clearSessionState();
+              if (sessionState) {
+                StorageService.clearSessionState(sessionState.session_id);
+              }
               setFlowEngine(null);
               setSessionState(null);
               setSessionSummary(null);
               setViewMode('home');
               loadHistory();
+              loadOpenSessions();
             },
           },
         ],
@@ -442,6 +428,7 @@ export default function App() {
       setFlowEngine(null);
       setSessionState(null);
       setSessionSummary(null);
+      loadOpenSessions();
       setViewMode('home');
     }
   };
@@ -460,6 +447,8 @@ export default function App() {
             onViewProfile={() => setViewMode('rv-profile')}
             onViewMaintenance={showMaintenance}
             onViewArtifacts={showArtifacts}
+            onResumeSession={restoreSession}
+            openSessions={openSessions}
             historyCount={history.length}
             artifactCount={getArtifactCount()}
             equipmentCount={EquipmentService.getEquipmentCount()}
@@ -535,7 +524,7 @@ export default function App() {
         <SafeAreaView style={styles.container}>
           <StatusBar barStyle="dark-content" />
           <FlowSelector
-            flows={AVAILABLE_FLOWS}
+            flows={FlowRegistry.list()}
             onSelectFlow={handleSelectFlow}
             onViewHistory={showHistory}
             historyCount={history.length}
@@ -581,6 +570,11 @@ export default function App() {
             </View>
           </View>
           <View style={styles.headerActions}>
+            {sessionInProgress && sessionState.events.length > 0 && (
+              <TouchableOpacity onPress={handleGoBack}>
+                <Text style={styles.undoButtonText}>Undo</Text>
+              </TouchableOpacity>
+            )}
             {sessionInProgress && (
               <TouchableOpacity onPress={handleStop} style={styles.stopButton}>
                 <Text style={styles.stopButtonText}>Stop</Text>
@@ -604,6 +598,7 @@ export default function App() {
             <SafetyNodeComponent
               node={currentNode as unknown as SafetyNode}
               onAcknowledge={() => handleResponse(true)}
+              onHazard={handleSafetyHazard}
             />
           )}
 
@@ -626,6 +621,9 @@ export default function App() {
               summary={sessionSummary}
               onStartNew={() => startNewSession()}
               onViewHistory={showHistory}
+              onStartFollowUp={flowId =>
+                handleSelectFlow(FlowRegistry.get(flowId).flow)
+              }
             />
           )}
         </View>
@@ -698,6 +696,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#f44336',
   },
+  undoButtonText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
   stopButtonText: {
     fontSize: 13,
     color: '#f44336',
@@ -1,6 +1,14 @@
 import { registerRootComponent } from 'expo';
 
 import App from './App';
+import { ServiceContainer } from './src/services/ServiceContainer';
+import { MMKVKeyValueStore } from './src/storage/MMKVKeyValueStore';
+import { ExpoCryptoProvider } from './src/utils/ExpoCryptoProvider';
+
+ServiceContainer.configure({
+  store: new MMKVKeyValueStore('rv-diagnostic-engine'),
+  crypto: ExpoCryptoProvider,
+});
 
 // registerRootComponent calls AppRegistry.registerComponent('main', () => App);
 // It also ensures that whether you load the app in Expo Go or in a native build,
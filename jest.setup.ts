@@ -73,4 +73,13 @@ jest.mock('react-native-mmkv', () => {
   };
 });
 
-export {};
\ No newline at end of file
+// ─── Platform wiring (mirrors index.ts) ──────────────────────────────────────
+
+import { ServiceContainer } from './src/services/ServiceContainer';
+import { InMemoryKeyValueStore } from './src/storage/InMemoryKeyValueStore';
+import { ExpoCryptoProvider } from './src/utils/ExpoCryptoProvider';
+
+ServiceContainer.configure({
+  store: new InMemoryKeyValueStore(),
+  crypto: ExpoCryptoProvider,
+});
\ No newline at end of file
@@ -8,6 +8,7 @@ import {
 } from 'react-native';
 import { SessionSummary } from '../types';
 import { StorageService } from '../services/StorageService';
+import { FlowRegistry } from '../services/FlowRegistry';
 import { ArtifactDetailView } from '../components/Artifactdetailview';
 
 interface Props {
@@ -68,17 +69,6 @@ export const ArtifactHistoryScreen: React.FC<Props> = ({ onBack }) => {
     return '#2196F3';
   };
 
-  // Get flow display name
-  const getFlowName = (flowId: string): string => {
-    const flowNames: Record<string, string> = {
-      'flow_1_no_power_inside_rv_v2': 'No Power Inside RV',
-      'flow_2_water_system_issue_v2': 'Water System Issue',
-      'flow_3_propane_system_issue_v2': 'Propane System Issue',
-      'flow_4_slides_leveling_issue_v2': 'Slides & Leveling',
-    };
-    return flowNames[flowId] || flowId;
-  };
-
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -106,7 +96,7 @@ export const ArtifactHistoryScreen: React.FC<Props> = ({ onBack }) => {
           renderItem={({ item }) => {
             const status = getStatus(item);
             const statusColor = getStatusColor(item);
-            const flowName = getFlowName(item.flow_id);
+            const flowName = FlowRegistry.getDisplayName(item.flow_id);
 
             return (
               <TouchableOpacity
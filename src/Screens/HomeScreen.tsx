@@ -6,6 +6,8 @@ import {
   StyleSheet,
   SafeAreaView,
 } from 'react-native';
+import { OpenSessionInfo } from '../types';
+import { FlowRegistry } from '../services/FlowRegistry';
 
 interface Props {
   onRunDiagnostic: () => void;
@@ -14,6 +16,8 @@ interface Props {
   onViewProfile: () => void;
   onViewMaintenance: () => void;
   onViewArtifacts: () => void;
+  onResumeSession: (sessionId: string) => void;
+  openSessions: OpenSessionInfo[];
   historyCount: number;
   equipmentCount: number;
   maintenanceCount: number;
@@ -27,6 +31,8 @@ export const HomeScreen: React.FC<Props> = ({
   onViewProfile,
   onViewMaintenance,
   onViewArtifacts,
+  onResumeSession,
+  openSessions,
   historyCount,
   equipmentCount,
   maintenanceCount,
@@ -41,6 +47,31 @@ export const HomeScreen: React.FC<Props> = ({
           <Text style={styles.subtitle}>Diagnostic Tool</Text>
         </View>
 
+        {openSessions.length > 0 && (
+          <View style={styles.pausedSection}>
+            <Text style={styles.sectionTitle}>Paused Diagnostics</Text>
+            {openSessions.map((session) => (
+              <TouchableOpacity
+                key={session.session_id}
+                style={styles.menuItem}
+                onPress={() => onResumeSession(session.session_id)}
+              >
+                <View style={styles.menuTextContainer}>
+                  <Text style={styles.menuTitle}>
+                    {FlowRegistry.getDisplayName(session.flow_id)}
+                  </Text>
+                  <Text style={styles.menuDescription}>
+                    {session.step_count} {session.step_count === 1 ? 'step' : 'steps'} done
+                    {' · '}
+                    {formatLastTouched(session.updated_at)}
+                  </Text>
+                </View>
+                <Text style={styles.chevron}>›</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         <View style={styles.menu}>
           <TouchableOpacity
             style={[styles.menuItem, styles.primaryButton]}
@@ -104,6 +135,15 @@ export const HomeScreen: React.FC<Props> = ({
   );
 };
 
+const formatLastTouched = (isoDate: string): string => {
+  const minutes = Math.floor((Date.now() - Date.parse(isoDate)) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(isoDate).toLocaleDateString();
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -130,6 +170,16 @@ const styles = StyleSheet.create({
   menu: {
     gap: 12,
   },
+  pausedSection: {
+    gap: 12,
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+  },
   menuItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,91 @@
+import { FlowRegistry } from '../services/FlowRegistry';
+import { ArtifactGenerator, artifactGenerator } from '../utils/ArtifactGenerator';
+import { CrossSystemRuleValidator } from '../validators/CrossSystemRuleValidator';
+import { ExplanationTemplateValidator } from '../validators/ExplanationTemplateValidator';
+import { FlowDiagnostic, FlowValidator, RawFlow } from '../validators/FlowValidator';
+import { TierClassificationValidator } from '../validators/TierClassificationValidator';
+
+/**
+ * Lints a flow together with the generator data that reads it. Diagnostics
+ * from that data keep their own JSON pointer under a `#source` prefix, e.g.
+ * `#classification/nodes/pump_check/0/condition`, since they point into
+ * another file than the flow.
+ */
+export class FlowLinter {
+  static lint(raw: RawFlow, generator: ArtifactGenerator = artifactGenerator): FlowDiagnostic[] {
+    const out = FlowValidator.lint(raw);
+    if (!raw.nodes || typeof raw.nodes !== 'object' || Array.isArray(raw.nodes)) {
+      return out;
+    }
+
+    out.push(...this.lintClassification(raw, generator));
+    out.push(...this.lintCrossSystemRules(raw, generator));
+    out.push(...this.lintExplanationTemplates(raw, generator));
+    return out;
+  }
+
+  /**
+   * Classifications match one flow version exactly, so a version without a
+   * document never reports a finding. That is an error for a registered
+   * version and a warning for one that is not shipped yet. Without a
+   * flowId and flowVersion there is nothing to look up; the structural lint
+   * already reports them missing.
+   */
+  private static lintClassification(raw: RawFlow, generator: ArtifactGenerator): FlowDiagnostic[] {
+    if (typeof raw.flowId !== 'string' || typeof raw.flowVersion !== 'string') {
+      return [];
+    }
+    const doc = generator.getTierClassification(raw.flowId, raw.flowVersion);
+    if (!doc) {
+      return [{
+        severity: FlowRegistry.has(raw.flowId, raw.flowVersion) ? 'error' : 'warning',
+        path: '/flowVersion',
+        code: 'missing_classification',
+        message:
+          `No tier classification for ${raw.flowId} v${raw.flowVersion}; ` +
+          `sessions on this version will report no findings`,
+      }];
+    }
+    return this.within('classification', TierClassificationValidator.lint(doc, raw));
+  }
+
+  /**
+   * Rules that match this flow or follow up with it, checked with this flow
+   * in place of the registered version of its flowId.
+   */
+  private static lintCrossSystemRules(raw: RawFlow, generator: ArtifactGenerator): FlowDiagnostic[] {
+    const ruleSet = generator.getCrossSystemRules();
+    const rulePaths = (Array.isArray(ruleSet.rules) ? ruleSet.rules : [])
+      .map((rule, i) => ({ rule, path: `/rules/${i}` }))
+      .filter(({ rule }) => rule?.match?.flow_id === raw.flowId || rule?.follow_up_flow_id === raw.flowId)
+      .map(({ path }) => path);
+    if (rulePaths.length === 0) return [];
+
+    const flows = [
+      ...FlowRegistry.list()
+        .map(registration => registration.flow as unknown as RawFlow)
+        .filter(flow => flow.flowId !== raw.flowId),
+      raw,
+    ];
+    const diagnostics = CrossSystemRuleValidator.lint(ruleSet, flows, generator.getFindingSources())
+      .filter(d => rulePaths.some(path => d.path === path || d.path.startsWith(`${path}/`)));
+    return this.within('cross-system-rules', diagnostics);
+  }
+
+  /** Templates of the findings this flow can produce, checked against this flow only. */
+  private static lintExplanationTemplates(raw: RawFlow, generator: ArtifactGenerator): FlowDiagnostic[] {
+    const findingSources = generator.getFindingSources();
+    const produced = findingSources[raw.flowId] ?? {};
+    const templates = Object.fromEntries(
+      Object.entries(generator.getExplanationTemplates()).filter(([findingKey]) => findingKey in produced)
+    );
+    return this.within(
+      'explanation-templates',
+      ExplanationTemplateValidator.lint(templates, [raw], findingSources)
+    );
+  }
+
+  private static within(source: string, diagnostics: FlowDiagnostic[]): FlowDiagnostic[] {
+    return diagnostics.map(d => ({ ...d, path: `#${source}${d.path}` }));
+  }
+}
@@ -0,0 +1,104 @@
+import { SessionState, SessionSummary } from '../types';
+import { FlowEngine, FlowEngineEnvironment } from '../utils/flowEngine';
+import { FlowValidator, LoopPolicy, RawFlow } from '../validators/FlowValidator';
+
+export type ScriptedResponse = string | number | boolean;
+
+/**
+ * Scripted answers keyed by node id. SAFETY nodes are acknowledged
+ * automatically unless the script lists them explicitly.
+ */
+export interface FlowScript {
+  responses: Record<string, ScriptedResponse>;
+}
+
+export interface FlowScriptResult {
+  session: SessionState;
+  summary: SessionSummary;
+}
+
+export class FlowScriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlowScriptError';
+  }
+}
+
+export class FlowScriptRunner {
+  static parseScript(raw: unknown): FlowScript {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new FlowScriptError('Script must be an object with a "responses" map');
+    }
+    const responses = (raw as { responses?: unknown }).responses;
+    if (!responses || typeof responses !== 'object' || Array.isArray(responses)) {
+      throw new FlowScriptError('Script "responses" must map node IDs to answers');
+    }
+    for (const [nodeId, value] of Object.entries(responses)) {
+      if (!['string', 'number', 'boolean'].includes(typeof value)) {
+        throw new FlowScriptError(
+          `Response for node "${nodeId}" must be a string, number or boolean`
+        );
+      }
+    }
+    return { responses: responses as Record<string, ScriptedResponse> };
+  }
+
+  static async run(
+    rawFlow: unknown,
+    script: FlowScript,
+    environment?: FlowEngineEnvironment
+  ): Promise<FlowScriptResult> {
+    const flow = rawFlow as RawFlow;
+
+    FlowValidator.validateSync(flow);
+
+    const engine = FlowEngine.createUnsafe(flow, environment);
+    let session = engine.startSession();
+
+    // Every pass around a cycle enters a loop head, which the engine admits
+    // at most maxIterations times per session, and between two entries the
+    // path visits each node at most once. A longer run can only mean the
+    // script is driving the flow around an unbounded loop.
+    const nodes = Object.values(flow.nodes);
+    const loopEntries = nodes.reduce(
+      (sum, node) => sum + ((node.loop as LoopPolicy | undefined)?.maxIterations ?? 0),
+      0
+    );
+    const maxSteps = nodes.length * (loopEntries + 1) + 1;
+    let steps = 0;
+
+    while (!session.completed && !session.stopped) {
+      if (++steps > maxSteps) {
+        throw new FlowScriptError(
+          `Script did not reach a terminal within ${maxSteps} steps; ` +
+          `node "${session.current_node_id}" is part of a loop`
+        );
+      }
+
+      const nodeId = session.current_node_id;
+      const node = engine.getCurrentNode(session);
+      let value = script.responses[nodeId];
+
+      if (value === undefined) {
+        if (node.type === 'SAFETY' || node.type === 'TERMINAL') {
+          value = true;
+        } else {
+          throw new FlowScriptError(
+            `Script has no response for ${node.type} node "${nodeId}"`
+          );
+        }
+      }
+
+      session = await engine.processResponse(session, value);
+    }
+
+    const summary = FlowEngine.getHistory(environment).find(
+      (s) => s.session_id === session.session_id
+    );
+    if (!summary) {
+      throw new FlowScriptError(`No summary was recorded for session ${session.session_id}`);
+    }
+
+    return { session, summary };
+  }
+}
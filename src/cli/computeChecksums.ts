@@ -0,0 +1,54 @@
+/**
+ * Flow checksum generator.
+ *
+ *   npm run flow:checksum -- <flow.json>... [--check]
+ *
+ * Writes <flow.json>.sha256 next to each flow, containing the SHA-256 of
+ * the flow's RFC 8785 canonical form, the same hash FlowChecksumValidator
+ * computes on device. With --check, existing .sha256 files are verified
+ * instead and the command fails on any mismatch.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { CryptoService } from '../utils/CryptoProvider';
+import { NodeCryptoProvider } from '../utils/NodeCryptoProvider';
+import { FlowChecksumValidator } from '../validators/Flowchecksumvalidator';
+
+async function main(argv: string[]): Promise<number> {
+  const check = argv.includes('--check');
+  const flowPaths = argv.filter(arg => arg !== '--check');
+  if (flowPaths.length === 0) {
+    console.error('Usage: npm run flow:checksum -- <flow.json>... [--check]');
+    return 2;
+  }
+
+  CryptoService.configure(NodeCryptoProvider);
+
+  let mismatches = 0;
+  for (const flowPath of flowPaths) {
+    const digest = await FlowChecksumValidator.computeFlowHash(fs.readFileSync(flowPath, 'utf-8'));
+    const checksumPath = `${flowPath}.sha256`;
+
+    if (check) {
+      const expected = fs.existsSync(checksumPath)
+        ? FlowChecksumValidator.parseChecksumFile(fs.readFileSync(checksumPath, 'utf-8'))
+        : '(missing)';
+      const ok = expected === digest;
+      if (!ok) mismatches++;
+      console.log(`${path.basename(flowPath)} :: ${ok ? 'OK' : `MISMATCH expected ${expected}, computed ${digest}`}`);
+    } else {
+      fs.writeFileSync(checksumPath, `${digest}\n`, 'utf-8');
+      console.log(`${path.basename(flowPath)} :: ${digest}`);
+    }
+  }
+  return mismatches > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
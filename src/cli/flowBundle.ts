@@ -0,0 +1,139 @@
+/**
+ * Signed flow bundle tooling.
+ *
+ *   npm run flow:bundle -- keygen <key-id> <publisher>
+ *   npm run flow:bundle -- sign --key <private.pem> --key-id <id> --out <bundle.json> <flow.json>...
+ *   npm run flow:bundle -- verify <bundle.json> --trust <keys.json>
+ *
+ * keygen writes <key-id>.private.pem and prints the TrustedPublisherKey
+ * entry to pin in Trustedpublisherstore.ts. Keep the private key offline.
+ */
+import * as fs from 'fs';
+import { createPrivateKey, generateKeyPairSync, randomUUID, sign } from 'node:crypto';
+import { CryptoService } from '../utils/CryptoProvider';
+import { NodeCryptoProvider } from '../utils/NodeCryptoProvider';
+import { FlowChecksumValidator } from '../validators/Flowchecksumvalidator';
+import {
+  BundleVerificationError,
+  FlowBundleManifest,
+  FlowBundleVerifier,
+  SignedFlowBundle,
+  TrustedPublisherKey,
+} from '../validators/FlowBundleVerifier';
+import { RawFlow } from '../validators/FlowValidator';
+
+const USAGE = [
+  'Usage:',
+  '  npm run flow:bundle -- keygen <key-id> <publisher>',
+  '  npm run flow:bundle -- sign --key <private.pem> --key-id <id> --out <bundle.json> <flow.json>...',
+  '  npm run flow:bundle -- verify <bundle.json> --trust <keys.json>',
+].join('\n');
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function positional(args: string[], flags: string[]): string[] {
+  return args.filter((arg, i) => !flags.includes(arg) && !flags.includes(args[i - 1]));
+}
+
+function keygen(args: string[]): number {
+  const [keyId, publisher] = args;
+  if (!keyId || !publisher) {
+    console.error(USAGE);
+    return 2;
+  }
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const privatePath = `${keyId}.private.pem`;
+  fs.writeFileSync(privatePath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+
+  const jwk = publicKey.export({ format: 'jwk' });
+  const entry: TrustedPublisherKey = {
+    key_id: keyId,
+    publisher,
+    public_key: Buffer.from(jwk.x!, 'base64url').toString('base64'),
+  };
+  console.error(`Private key written to ${privatePath}`);
+  process.stdout.write(JSON.stringify(entry, null, 2) + '\n');
+  return 0;
+}
+
+async function signBundle(args: string[]): Promise<number> {
+  const keyPath = flagValue(args, '--key');
+  const keyId = flagValue(args, '--key-id');
+  const outPath = flagValue(args, '--out');
+  const flowPaths = positional(args, ['--key', '--key-id', '--out']);
+  if (!keyPath || !keyId || !outPath || flowPaths.length === 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const flows: Record<string, RawFlow> = {};
+  const manifest: FlowBundleManifest = {
+    bundle_id: randomUUID(),
+    publisher_key_id: keyId,
+    issued_at: new Date().toISOString(),
+    flows: [],
+  };
+  for (const flowPath of flowPaths) {
+    const flow = JSON.parse(fs.readFileSync(flowPath, 'utf-8')) as RawFlow;
+    flows[flow.flowId] = flow;
+    manifest.flows.push({
+      flow_id: flow.flowId,
+      flow_version: flow.flowVersion,
+      content_hash: await FlowChecksumValidator.computeFlowHash(flow),
+    });
+  }
+
+  const privateKey = createPrivateKey(fs.readFileSync(keyPath, 'utf-8'));
+  const signature = sign(null, FlowBundleVerifier.signingPayload(manifest), privateKey);
+  const bundle: SignedFlowBundle = { manifest, signature: signature.toString('base64'), flows };
+  fs.writeFileSync(outPath, JSON.stringify(bundle, null, 2) + '\n', 'utf-8');
+  console.log(`Signed ${manifest.flows.length} flow(s) into ${outPath} with key "${keyId}"`);
+  return 0;
+}
+
+async function verifyBundle(args: string[]): Promise<number> {
+  const trustPath = flagValue(args, '--trust');
+  const [bundlePath] = positional(args, ['--trust']);
+  if (!bundlePath || !trustPath) {
+    console.error(USAGE);
+    return 2;
+  }
+  const bundle = JSON.parse(fs.readFileSync(bundlePath, 'utf-8'));
+  const trustedKeys = JSON.parse(fs.readFileSync(trustPath, 'utf-8')) as TrustedPublisherKey[];
+
+  const manifest = FlowBundleVerifier.verifyManifest(bundle, trustedKeys);
+  for (const entry of manifest.flows) {
+    await FlowBundleVerifier.verifyFlow(bundle, entry.flow_id, trustedKeys);
+    console.log(`${entry.flow_id} v${entry.flow_version} :: OK`);
+  }
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  CryptoService.configure(NodeCryptoProvider);
+  const [command, ...args] = argv;
+  switch (command) {
+    case 'keygen': return keygen(args);
+    case 'sign':   return signBundle(args);
+    case 'verify': return verifyBundle(args);
+    default:
+      console.error(USAGE);
+      return 2;
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    if (error instanceof BundleVerificationError) {
+      console.error(`${error.name} [${error.reason}]: ${error.message}`);
+    } else {
+      console.error(error);
+    }
+    process.exitCode = 1;
+  });
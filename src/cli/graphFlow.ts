@@ -0,0 +1,55 @@
+/**
+ * Flow diagram export.
+ *
+ *   npm run flow:graph -- <flow.json> [--format mermaid|dot] [--session <summary.json>]
+ *
+ * Prints the flow as a Mermaid flowchart (default) or Graphviz DOT. With
+ * --session, the path recorded in a SessionSummary (or the output of
+ * flow:run) is highlighted.
+ */
+import * as fs from 'fs';
+import { SessionEvent } from '../types';
+import { FlowGraphExporter } from '../utils/FlowGraphExporter';
+import { RawFlow } from '../validators/FlowValidator';
+
+function flagValue(argv: string[], flag: string): string | undefined {
+  const index = argv.indexOf(flag);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function readSessionEvents(filePath: string): SessionEvent[] {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const summary = parsed.summary ?? parsed;
+  if (!Array.isArray(summary.events)) {
+    throw new Error(`${filePath} does not contain a SessionSummary with "events"`);
+  }
+  return summary.events;
+}
+
+function main(argv: string[]): number {
+  const format = flagValue(argv, '--format') ?? 'mermaid';
+  const sessionPath = flagValue(argv, '--session');
+  const flowPath = argv.find(
+    (arg, i) => !arg.startsWith('--') && !['--format', '--session'].includes(argv[i - 1])
+  );
+  if (!flowPath || (format !== 'mermaid' && format !== 'dot')) {
+    console.error(
+      'Usage: npm run flow:graph -- <flow.json> [--format mermaid|dot] [--session <summary.json>]'
+    );
+    return 2;
+  }
+
+  const raw = JSON.parse(fs.readFileSync(flowPath, 'utf-8')) as RawFlow;
+  const options = { highlight: sessionPath ? readSessionEvents(sessionPath) : undefined };
+  process.stdout.write(
+    format === 'dot' ? FlowGraphExporter.toDot(raw, options) : FlowGraphExporter.toMermaid(raw, options)
+  );
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  console.error(error);
+  process.exitCode = 1;
+}
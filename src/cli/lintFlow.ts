@@ -0,0 +1,49 @@
+/**
+ * Flow linter.
+ *
+ *   npm run flow:lint -- <flow.json>... [--json]
+ *
+ * Reports every error and warning FlowValidator finds instead of stopping
+ * at the first one, along with problems in the generator data that covers
+ * the flow (see FlowLinter). Exits non-zero when any flow has errors.
+ */
+import * as fs from 'fs';
+import { FlowDiagnostic, RawFlow } from '../validators/FlowValidator';
+import { FlowLinter } from './FlowLinter';
+
+function main(argv: string[]): number {
+  const json = argv.includes('--json');
+  const flowPaths = argv.filter(arg => arg !== '--json');
+  if (flowPaths.length === 0) {
+    console.error('Usage: npm run flow:lint -- <flow.json>... [--json]');
+    return 2;
+  }
+
+  const results: Record<string, FlowDiagnostic[]> = {};
+  for (const flowPath of flowPaths) {
+    const raw = JSON.parse(fs.readFileSync(flowPath, 'utf-8')) as RawFlow;
+    results[flowPath] = FlowLinter.lint(raw);
+  }
+
+  if (json) {
+    process.stdout.write(JSON.stringify(results, null, 2) + '\n');
+  } else {
+    for (const [flowPath, diagnostics] of Object.entries(results)) {
+      for (const d of diagnostics) {
+        console.log(`${flowPath}:${d.path || '/'}: ${d.severity} [${d.code}] ${d.message}`);
+      }
+    }
+  }
+
+  const hasErrors = Object.values(results).some(diagnostics =>
+    diagnostics.some(d => d.severity === 'error')
+  );
+  return hasErrors ? 1 : 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  console.error(error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,74 @@
+/**
+ * Headless flow runner.
+ *
+ *   npm run flow:run -- <flow.json> <script.json|script.yaml> [--store <file.json>]
+ *
+ * Validates the flow, feeds it the scripted responses and prints the
+ * resulting SessionSummary and artifact as JSON. No React Native required.
+ * With --store, session state and history are kept in a JSON file instead
+ * of memory.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ServiceContainer } from '../services/ServiceContainer';
+import { FileKeyValueStore } from '../storage/FileKeyValueStore';
+import { InMemoryKeyValueStore } from '../storage/InMemoryKeyValueStore';
+import { NodeCryptoProvider } from '../utils/NodeCryptoProvider';
+import { FlowValidationError } from '../validators/FlowValidator';
+import { FlowEngineError } from '../utils/flowEngine';
+import { FlowScriptError, FlowScriptRunner } from './FlowScriptRunner';
+
+function readStructuredFile(filePath: string): unknown {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+  return ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content);
+}
+
+async function main(argv: string[]): Promise<number> {
+  const storeFlag = argv.indexOf('--store');
+  const storePath = storeFlag >= 0 ? argv[storeFlag + 1] : undefined;
+  const [flowPath, scriptPath] = argv.filter(
+    (_, i) => storeFlag < 0 || (i !== storeFlag && i !== storeFlag + 1)
+  );
+  if (!flowPath || !scriptPath || (storeFlag >= 0 && !storePath)) {
+    console.error(
+      'Usage: npm run flow:run -- <flow.json> <script.json|script.yaml> [--store <file.json>]'
+    );
+    return 2;
+  }
+
+  ServiceContainer.configure({
+    store: storePath ? new FileKeyValueStore(storePath) : new InMemoryKeyValueStore(),
+    crypto: NodeCryptoProvider,
+  });
+
+  const rawFlow = readStructuredFile(flowPath);
+  const script = FlowScriptRunner.parseScript(readStructuredFile(scriptPath));
+  const { summary } = await FlowScriptRunner.run(rawFlow, script);
+
+  process.stdout.write(
+    JSON.stringify({ summary, artifact: summary.artifact ?? null }, null, 2) + '\n'
+  );
+  return 0;
+}
+
+// Engine logging goes to console.log; keep it on stderr so stdout is pure JSON
+console.log = (...args: unknown[]) => console.error(...args);
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    if (
+      error instanceof FlowValidationError ||
+      error instanceof FlowEngineError ||
+      error instanceof FlowScriptError
+    ) {
+      console.error(`${error.name}: ${error.message}`);
+    } else {
+      console.error(error);
+    }
+    process.exitCode = 1;
+  });
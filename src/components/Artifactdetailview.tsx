@@ -65,6 +65,31 @@ export const ArtifactDetailView: React.FC<Props> = ({ summary, onClose }) => {
                 {artifact.primary_finding}
               </Text>
             </View>
+            {artifact.differential && artifact.differential.length > 1 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionLabel}>Possible Causes</Text>
+                {artifact.differential.map((cause, index) => (
+                  <View key={cause.finding_key} style={styles.causeItem}>
+                    <Text style={styles.sectionValue}>
+                      {index + 1}. {cause.description} (score {cause.score})
+                    </Text>
+                    {cause.supporting.map((f, i) => (
+                      <Text key={`s${i}`} style={styles.bulletItem}>
+                        + {f.node_id.replace(/_/g, ' ')} ({f.weight})
+                      </Text>
+                    ))}
+                    {cause.contradicting.map((c, i) => (
+                      <Text key={`c${i}`} style={styles.bulletItem}>
+                        − {c.node_id.replace(/_/g, ' ')}: {c.value} ({c.weight})
+                      </Text>
+                    ))}
+                    {cause.recommendation && (
+                      <Text style={styles.bulletItem}>→ {cause.recommendation}</Text>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
             <View style={styles.artifactSection}>
               <Text style={styles.sectionLabel}>Explanation</Text>
               <Text style={styles.sectionValue}>{artifact.explanation}</Text>
@@ -261,6 +286,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  causeItem: {
+    marginBottom: 12,
+  },
   bulletItem: {
     fontSize: 16,
     color: '#333',
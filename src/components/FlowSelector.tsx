@@ -8,15 +8,10 @@ import {
   Platform,
 } from 'react-native';
 import { FlowDefinition } from '../types';
-
-interface FlowInfo {
-  flow: FlowDefinition;
-  name: string;
-  description: string;
-}
+import { FlowRegistration } from '../services/FlowRegistry';
 
 interface Props {
-  flows: FlowInfo[];
+  flows: FlowRegistration[];
   onSelectFlow: (flow: FlowDefinition) => void;
   onViewHistory: () => void;
   historyCount: number;
@@ -40,15 +35,15 @@ export const FlowSelector: React.FC<Props> = ({
       <ScrollView style={styles.flowList}>
         {flows.map((flowInfo, index) => (
           <TouchableOpacity
-            key={flowInfo.flow.flowId}
+            key={flowInfo.flowId}
             style={styles.flowCard}
             onPress={() => onSelectFlow(flowInfo.flow)}
           >
-            <Text style={styles.flowName}>{flowInfo.name}</Text>
+            <Text style={styles.flowName}>{flowInfo.title}</Text>
             <Text style={styles.flowDescription}>{flowInfo.description}</Text>
             <View style={styles.flowMeta}>
-              <Text style={styles.flowVersion}>v{flowInfo.flow.flowVersion}</Text>
-              <Text style={styles.flowId}>{flowInfo.flow.flowId}</Text>
+              <Text style={styles.flowVersion}>v{flowInfo.flowVersion}</Text>
+              <Text style={styles.flowId}>{flowInfo.flowId}</Text>
             </View>
           </TouchableOpacity>
         ))}
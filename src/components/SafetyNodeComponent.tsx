@@ -5,9 +5,10 @@ import { SafetyNode } from '../types';
 interface Props {
   node: SafetyNode;
   onAcknowledge: () => void;
+  onHazard?: () => void; // stops the diagnostic as a safety hazard
 }
 
-export const SafetyNodeComponent: React.FC<Props> = ({ node, onAcknowledge }) => {
+export const SafetyNodeComponent: React.FC<Props> = ({ node, onAcknowledge, onHazard }) => {
   return (
     <View style={styles.container}>
       <View style={styles.warningBox}>
@@ -21,6 +22,12 @@ export const SafetyNodeComponent: React.FC<Props> = ({ node, onAcknowledge }) =>
       >
         <Text style={styles.buttonText}>I UNDERSTAND - CONTINUE</Text>
       </TouchableOpacity>
+
+      {onHazard && (
+        <TouchableOpacity style={styles.hazardButton} onPress={() => onHazard()}>
+          <Text style={styles.hazardButtonText}>I SEE THIS HAZARD - STOP</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -62,6 +69,20 @@ const styles = StyleSheet.create({
     paddingHorizontal: 30,
     borderRadius: 8,
   },
+  hazardButton: {
+    borderWidth: 2,
+    borderColor: '#f44336',
+    paddingVertical: 16,
+    paddingHorizontal: 30,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  hazardButtonText: {
+    color: '#f44336',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
   buttonText: {
     color: 'white',
     fontSize: 16,
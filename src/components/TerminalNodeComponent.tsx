@@ -7,12 +7,14 @@ import {
   StyleSheet,
 } from 'react-native';
 import { TerminalNode, SessionSummary } from '../types';
+import { FlowRegistry } from '../services/FlowRegistry';
 
 interface Props {
   node: TerminalNode | null; // null when session was stopped mid-flow
   summary: SessionSummary | null;
   onStartNew: () => void;
   onViewHistory: () => void;
+  onStartFollowUp?: (flowId: string) => void;
 }
 
 export const TerminalNodeComponent: React.FC<Props> = ({
@@ -20,13 +22,14 @@ export const TerminalNodeComponent: React.FC<Props> = ({
   summary,
   onStartNew,
   onViewHistory,
+  onStartFollowUp,
 }) => {
-  const isStopped = summary?.stopped ?? false;
+  const isStopTerminal = node?.severity === 'stop';
+  const isStopped = summary?.stopped ?? isStopTerminal;
+  const stopCode = isStopTerminal ? node?.stopCode : summary?.stop_code;
 
-  // Stop state check
-  const isStopCondition =
-    node?.result?.toLowerCase().includes('stop') ||
-    node?.result?.toLowerCase().includes('do not continue');
+  // Safety stops get the do-not-continue treatment
+  const isStopCondition = stopCode === 'safety_hazard';
 
   const resultText = node?.result ?? summary?.result ?? 'Diagnostic ended';
 
@@ -146,6 +149,26 @@ export const TerminalNodeComponent: React.FC<Props> = ({
             <Text style={styles.confidenceText}>
               {artifact.confidence_level}
             </Text>
+            {artifact.evidence && (
+              <>
+                <Text style={styles.metaItem}>
+                  Score: {artifact.evidence.score}
+                </Text>
+                {artifact.evidence.findings.map((f, i) => (
+                  <Text key={i} style={styles.metaItem}>
+                    +{f.weight} {f.description}
+                  </Text>
+                ))}
+                {artifact.evidence.penalties.map((p, i) => (
+                  <Text key={i} style={styles.metaItem}>
+                    {p.weight}{' '}
+                    {p.reason === 'not_sure'
+                      ? `Not sure at ${p.node_id}`
+                      : 'Conflicting signals'}
+                  </Text>
+                ))}
+              </>
+            )}
           </View>
 
           <View style={styles.artifactSection}>
@@ -153,11 +176,46 @@ export const TerminalNodeComponent: React.FC<Props> = ({
             <Text style={styles.artifactTitle}>{artifact.primary_finding}</Text>
           </View>
 
+          {artifact.differential && artifact.differential.length > 1 && (
+            <View style={styles.artifactSection}>
+              <Text style={styles.artifactLabel}>Possible Causes</Text>
+              {artifact.differential.map((cause, i) => (
+                <View key={cause.finding_key} style={styles.causeItem}>
+                  <Text style={styles.artifactValue}>
+                    {i + 1}. {cause.description} (score {cause.score})
+                  </Text>
+                  {cause.contradicting.map((c, j) => (
+                    <Text key={j} style={styles.metaItem}>
+                      {c.weight} {c.node_id.replace(/_/g, ' ')}: {c.value}
+                    </Text>
+                  ))}
+                  {cause.recommendation && (
+                    <Text style={styles.recommendationText}>
+                      {cause.recommendation}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+
           <View style={styles.artifactSection}>
             <Text style={styles.artifactLabel}>Explanation</Text>
             <Text style={styles.artifactValue}>{artifact.explanation}</Text>
           </View>
 
+          {artifact.measurement_interpretations &&
+            artifact.measurement_interpretations.length > 0 && (
+              <View style={styles.artifactSection}>
+                <Text style={styles.artifactLabel}>Measurements</Text>
+                {artifact.measurement_interpretations.map(m => (
+                  <Text key={m.node_id} style={styles.artifactValue}>
+                    {m.label}: {m.explanation}
+                  </Text>
+                ))}
+              </View>
+            )}
+
           {artifact.recommendations && artifact.recommendations.length > 0 && (
             <View style={styles.artifactSection}>
               <Text style={styles.artifactLabel}>Recommended Next Step</Text>
@@ -194,6 +252,21 @@ export const TerminalNodeComponent: React.FC<Props> = ({
         </View>
       )}
 
+      {summary?.follow_up && onStartFollowUp && (
+        <View style={styles.followUpBox}>
+          <Text style={styles.artifactLabel}>Related Diagnostic</Text>
+          <Text style={styles.artifactValue}>{summary.follow_up.recommendation}</Text>
+          <TouchableOpacity
+            style={[styles.secondaryButton, styles.followUpButton]}
+            onPress={() => onStartFollowUp(summary.follow_up!.flow_id)}
+          >
+            <Text style={[styles.secondaryButtonText, { color: '#2196F3' }]}>
+              RUN {FlowRegistry.getDisplayName(summary.follow_up.flow_id).toUpperCase()}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <TouchableOpacity
         style={[styles.primaryButton, { backgroundColor: accentColor }]}
         onPress={onStartNew}
@@ -282,6 +355,9 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  causeItem: {
+    marginBottom: 8,
+  },
   artifactListItem: {
     fontSize: 14,
     color: '#333',
@@ -303,6 +379,18 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 4,
   },
+  followUpBox: {
+    backgroundColor: '#e3f2fd',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#90caf9',
+  },
+  followUpButton: {
+    borderColor: '#2196F3',
+    marginTop: 12,
+  },
 
   primaryButton: {
     paddingVertical: 18,
@@ -1,22 +1,29 @@
 
-import { MMKV } from 'react-native-mmkv';
 import { ArtifactFinalizer } from '../utils/ArtifactFinalizer';
 import { CanonicalSerializer } from '../utils/CanonicalSerializer';
 import { EnumValidator } from '../validators/EnumValidators';
 import { SessionPersistence } from '../utils/Sessionpersistence';
 import { SessionStateAdapter } from '../utils/Sessionstateadapter';
+import { KeyValueStore } from '../storage/KeyValueStore';
 import {
   SessionState,
+  SessionSummary,
   TerminalNode,
+  FieldMapping,
   FinalizationError,
   ArtifactFinalizationResult,
 } from '../types';
 
+export interface FinalizeArtifactOptions {
+  enrichment?: Record<string, unknown>;
+  fieldMappings?: FieldMapping[];
+  enumsVersion?: string; // the flow's artifactEnumsVersion
+}
 
 export class ArtifactFinalizationService {
   private persistence: SessionPersistence;
 
-  constructor(storage: MMKV) {
+  constructor(storage: KeyValueStore) {
     this.persistence = new SessionPersistence(storage);
   }
 
@@ -35,21 +42,32 @@ export class ArtifactFinalizationService {
     this.persistence.saveSession(sessionState);
   }
 
+  /**
+   * Build the final artifact from the terminal's template. `enrichment`
+   * fields (e.g. ArtifactGenerator confidence and explanation) are merged
+   * into the template first, so they are ordered and hashed with the rest.
+   * The flow's `fieldMappings` then fill the template fields they name from
+   * the session's answers and measurements, and enum fields are checked
+   * against the artifact_enums version the flow declares.
+   */
   async finalizeArtifact(
     sessionState: SessionState,
-    terminalNode: TerminalNode
+    terminalNode: TerminalNode,
+    options: FinalizeArtifactOptions = {}
   ): Promise<ArtifactFinalizationResult> {
+    const { enrichment = {}, fieldMappings = [], enumsVersion } = options;
     SessionStateAdapter.validateForFinalization(sessionState);
     const artifactSessionState = SessionStateAdapter.toArtifactSessionState(sessionState);
-    const template = terminalNode.artifact;
+    const template = { ...terminalNode.artifact, ...enrichment };
     const fieldOrder = ArtifactFinalizer.extractFieldOrder(template);
     const finalizationResult = await ArtifactFinalizer.finalize(
       template,
       artifactSessionState,
-      fieldOrder
+      fieldOrder,
+      fieldMappings.filter(mapping => mapping.artifact_field in template)
     );
 
-    const enumErrors = EnumValidator.validateArtifact(finalizationResult.final_artifact);
+    const enumErrors = EnumValidator.validateArtifact(finalizationResult.final_artifact, enumsVersion);
     if (enumErrors.length > 0) {
       const errorMessages = enumErrors.map(e => e.message);
       throw new FinalizationError(
@@ -58,7 +76,7 @@ export class ArtifactFinalizationService {
       );
     }
 
-    EnumValidator.normalizeArtifact(finalizationResult.final_artifact);
+    EnumValidator.normalizeArtifact(finalizationResult.final_artifact, enumsVersion);
 
     return {
       finalization_result: finalizationResult,
@@ -93,6 +111,20 @@ export class ArtifactFinalizationService {
     };
   }
 
+  /**
+   * Re-serialize a summary's artifact and check it is byte-identical to the
+   * canonical JSON stored when the session was finalized.
+   */
+  async exportSummaryArtifact(summary: SessionSummary): Promise<string> {
+    if (!summary.artifact || !summary.artifact_canonical_json) {
+      throw new FinalizationError('Session has no finalized artifact to export', [
+        `session ${summary.session_id} was not finalized from a terminal template`,
+      ]);
+    }
+    const fieldOrder = Object.keys(JSON.parse(summary.artifact_canonical_json));
+    return await this.exportArtifact(summary.artifact_canonical_json, summary.artifact, fieldOrder);
+  }
+
   getSessionStats(): {
     has_session: boolean;
     artifact_id: string | null;
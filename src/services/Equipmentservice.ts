@@ -1,7 +1,7 @@
 import { EquipmentItem } from '../types';
 import { RigIdentityService } from '../services/RigIdentityService';
 import { StorageService } from '../services/StorageService';
-import * as Crypto from 'expo-crypto';
+import { CryptoService } from '../utils/CryptoProvider';
 
 export class EquipmentService {
   static getAllEquipment(): EquipmentItem[] {
@@ -36,7 +36,7 @@ export class EquipmentService {
       const currentRig = RigIdentityService.getOrCreate();
 
       const newItem: EquipmentItem = {
-        id: Crypto.randomUUID(),
+        id: CryptoService.randomUUID(),
         rig_id: currentRig.id,
         created_at: new Date().toISOString(),
         ...data,
@@ -0,0 +1,206 @@
+import { FlowDefinition, SessionState } from '../types';
+
+import no_power_issue_v2 from '../flows/flow_1_no_power_inside_rv_v2.json';
+import water_system_issue_v2 from '../flows/flow_2_water_system_issue_v2.json';
+import propane_system_issue_v2 from '../flows/flow_3_propane_system_issue_v2.json';
+import slides_leveling_issue_v2 from '../flows/flow_4_slides_leveling_issue_v2.json';
+
+export interface FlowMetadata {
+  flowId: string;
+  flowVersion: string;
+  title: string;
+  description: string;
+  vertical: string;
+  checksum: string; // SHA-256 of the flow's RFC 8785 canonical form
+}
+
+export interface FlowRegistration extends FlowMetadata {
+  flow: FlowDefinition;
+}
+
+/**
+ * Outcome of migrating an in-progress session to a newer flow version:
+ * rename node ids (ids missing from the map are kept as-is), or end the
+ * session with a stop reason the user will see.
+ */
+export type SessionMigrationResult =
+  | { action: 'migrate'; node_map: Record<string, string> }
+  | { action: 'stop'; stop_reason: string };
+
+export interface FlowMigration {
+  flowId: string;
+  fromVersion: string;
+  toVersion: string;
+  migrate(session: SessionState): SessionMigrationResult;
+}
+
+export class FlowRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly flow_id: string,
+    public readonly flow_version?: string
+  ) {
+    super(message);
+    this.name = 'FlowRegistryError';
+  }
+}
+
+// ─── Shipped flows ────────────────────────────────────────────────────────────
+// Checksums: regenerate with `npm run flow:checksum` after editing a flow and
+// copy each .sha256 file here; the registry tests fail until they match.
+
+const BUILT_IN_FLOWS: FlowRegistration[] = [
+  {
+    flow: no_power_issue_v2 as FlowDefinition,
+    flowId: 'flow_1_no_power_inside_rv',
+    flowVersion: '2.0',
+    title: 'No Power Inside RV',
+    description: 'Diagnose 12V and AC power issues in your RV electrical system.',
+    vertical: 'RV',
+    checksum: 'befd02a3d2ea9320a5387d8841264ff0882137ff96d005bc284de1c6b8b3db2b',
+  },
+  {
+    flow: water_system_issue_v2 as FlowDefinition,
+    flowId: 'flow_2_water_system_issue',
+    flowVersion: '2.0',
+    title: 'Water System Issue',
+    description: 'Diagnose city water and fresh tank water system problems.',
+    vertical: 'RV',
+    checksum: '9b8ffe1f824f15d44e9b0af7e7826c40a10af7cb58d077d8f62efefe2f38ae4c',
+  },
+  {
+    flow: propane_system_issue_v2 as FlowDefinition,
+    flowId: 'flow_3_propane_system_issue',
+    flowVersion: '2.0',
+    title: 'Propane System Issue',
+    description: 'Diagnose propane supply, valves, and appliance issues.',
+    vertical: 'RV',
+    checksum: 'dc993c283779fcf0bdb489c31c110be594239d730c6444a8d81f14916f7b5174',
+  },
+  {
+    flow: slides_leveling_issue_v2 as FlowDefinition,
+    flowId: 'flow_4_slides_leveling_issue',
+    flowVersion: '2.0',
+    title: 'Slides and Leveling Systems',
+    description: 'Diagnose slide-out movement and leveling system issues.',
+    vertical: 'RV',
+    checksum: '16805f192ad68d80cf998fbdc08ccc5b1c585efa2b1515e724fae187c5f2256b',
+  },
+];
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+/**
+ * Single source of flow definitions and their metadata. Several versions of
+ * a flow can be registered side by side: new sessions use the latest, while
+ * stored sessions look up the exact version they were started on.
+ */
+export class FlowRegistry {
+  private static flows = new Map<string, FlowRegistration[]>();
+  private static migrations: FlowMigration[] = [];
+
+  static register(registration: FlowRegistration): void {
+    const { flow, flowId, flowVersion } = registration;
+    if (flow.flowId !== flowId || flow.flowVersion !== flowVersion) {
+      throw new FlowRegistryError(
+        `Registration for ${flowId} v${flowVersion} holds flow ${flow.flowId} v${flow.flowVersion}`,
+        flowId,
+        flowVersion
+      );
+    }
+
+    const entry = { ...registration, checksum: registration.checksum.toLowerCase().trim() };
+    const versions = (this.flows.get(flowId) ?? []).filter(v => v.flowVersion !== flowVersion);
+    versions.push(entry);
+    versions.sort((a, b) => compareVersions(a.flowVersion, b.flowVersion));
+    this.flows.set(flowId, versions);
+  }
+
+  /** Latest version of every registered flow, in registration order. */
+  static list(): FlowRegistration[] {
+    return [...this.flows.values()].map(versions => versions[versions.length - 1]);
+  }
+
+  static has(flowId: string, flowVersion?: string): boolean {
+    return this.find(flowId, flowVersion) !== undefined;
+  }
+
+  /** Exact version when given, otherwise the latest. */
+  static find(flowId: string, flowVersion?: string): FlowRegistration | undefined {
+    const versions = this.flows.get(flowId);
+    if (!versions) return undefined;
+    return flowVersion === undefined
+      ? versions[versions.length - 1]
+      : versions.find(v => v.flowVersion === flowVersion);
+  }
+
+  static get(flowId: string, flowVersion?: string): FlowRegistration {
+    const registration = this.find(flowId, flowVersion);
+    if (!registration) {
+      throw new FlowRegistryError(
+        flowVersion === undefined
+          ? `Flow "${flowId}" is not registered`
+          : `Flow "${flowId}" v${flowVersion} is not registered`,
+        flowId,
+        flowVersion
+      );
+    }
+    return registration;
+  }
+
+  /** Registered versions of a flow, oldest first. */
+  static getVersions(flowId: string): string[] {
+    return (this.flows.get(flowId) ?? []).map(v => v.flowVersion);
+  }
+
+  static getChecksum(flowId: string, flowVersion?: string): string | undefined {
+    return this.find(flowId, flowVersion)?.checksum;
+  }
+
+  /** Title of the flow, falling back to the id for unregistered flows. */
+  static getDisplayName(flowId: string): string {
+    return this.find(flowId)?.title ?? flowId;
+  }
+
+  // ── Migrations ─────────────────────────────────────────────────────────────
+
+  /** Register how sessions on `fromVersion` move to the registered `toVersion`. */
+  static registerMigration(migration: FlowMigration): void {
+    const { flowId, fromVersion, toVersion } = migration;
+    if (!this.has(flowId, toVersion)) {
+      throw new FlowRegistryError(
+        `Migration target ${flowId} v${toVersion} is not registered`,
+        flowId,
+        toVersion
+      );
+    }
+    this.migrations = this.migrations.filter(
+      m => !(m.flowId === flowId && m.fromVersion === fromVersion)
+    );
+    this.migrations.push(migration);
+  }
+
+  static findMigration(flowId: string, fromVersion: string): FlowMigration | undefined {
+    return this.migrations.find(m => m.flowId === flowId && m.fromVersion === fromVersion);
+  }
+
+  /** Drop everything and re-register the shipped flows (for tests). */
+  static reset(): void {
+    this.flows.clear();
+    this.migrations = [];
+    BUILT_IN_FLOWS.forEach(registration => this.register(registration));
+  }
+}
+
+FlowRegistry.reset();
+
+/** Compare dotted numeric versions: "2.10" sorts after "2.9". */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0 && !Number.isNaN(diff)) return diff;
+  }
+  return a.localeCompare(b);
+}
@@ -1,7 +1,7 @@
 import { MaintenanceEntry, MaintenanceArtifact, MaintenanceType } from '../types';
 import { RigIdentityService } from '../services/RigIdentityService';
 import { StorageService } from '../services/StorageService';
-import * as Crypto from 'expo-crypto';
+import { CryptoService } from '../utils/CryptoProvider';
 
 export class MaintenanceService {
   static getAllMaintenanceEntries(): MaintenanceEntry[] {
@@ -63,7 +63,7 @@ export class MaintenanceService {
       
       // Create maintenance entry
       const entry: MaintenanceEntry = {
-        id: Crypto.randomUUID(),
+        id: CryptoService.randomUUID(),
         rig_id: currentRig.id,
         created_at: now,
         artifact,
@@ -1,10 +1,22 @@
 import { RigIdentity } from '../types';
-import { createMMKV } from 'react-native-mmkv';
-import * as Crypto from 'expo-crypto';
+import { CryptoService } from '../utils/CryptoProvider';
+import { KeyValueStore } from '../storage/KeyValueStore';
+import { StorageError } from './StorageService';
 
 export class RigIdentityService {
   private static readonly STORAGE_KEY = 'rig_identity';
-  private static storage = createMMKV({ id: 'rv-diagnostic-engine' });
+  private static store: KeyValueStore | null = null;
+
+  static configure(store: KeyValueStore): void {
+    this.store = store;
+  }
+
+  private static get storage(): KeyValueStore {
+    if (!this.store) {
+      throw new StorageError('RigIdentityService has no store configured');
+    }
+    return this.store;
+  }
 
   static getOrCreate(): RigIdentity {
     const existing = this.storage.getString(this.STORAGE_KEY);
@@ -19,7 +31,7 @@ export class RigIdentityService {
     }
     
     const newIdentity: RigIdentity = {
-      id: Crypto.randomUUID(),
+      id: CryptoService.randomUUID(),
       created_at: new Date().toISOString(),
     };
     
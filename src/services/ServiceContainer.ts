@@ -0,0 +1,43 @@
+import { KeyValueStore } from '../storage/KeyValueStore';
+import { CryptoProvider, CryptoService } from '../utils/CryptoProvider';
+import { FlowEngine } from '../utils/flowEngine';
+import { StorageService } from './StorageService';
+import { RigIdentityService } from './RigIdentityService';
+import { ArtifactFinalizationService } from './Artifactfinalizationservice';
+
+export interface ServiceConfiguration {
+  store: KeyValueStore;
+  crypto: CryptoProvider;
+}
+
+/**
+ * Composition root. The only place that decides which store and crypto
+ * implementation the services run on; called once from index.ts on device,
+ * from the CLI on Node and from jest.setup.ts in tests.
+ */
+export class ServiceContainer {
+  private static store: KeyValueStore | null = null;
+
+  static configure({ store, crypto }: ServiceConfiguration): void {
+    this.store = store;
+    CryptoService.configure(crypto);
+    StorageService.configure(store);
+    RigIdentityService.configure(store);
+    FlowEngine.configure({
+      storage: StorageService,
+      identity: RigIdentityService,
+      finalizer: this.createFinalizationService(),
+    });
+  }
+
+  static getStore(): KeyValueStore {
+    if (!this.store) {
+      throw new Error('ServiceContainer.configure() has not been called');
+    }
+    return this.store;
+  }
+
+  static createFinalizationService(): ArtifactFinalizationService {
+    return new ArtifactFinalizationService(this.getStore());
+  }
+}
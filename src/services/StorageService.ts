@@ -1,13 +1,16 @@
-import { createMMKV } from 'react-native-mmkv';
-import { EquipmentItem, MaintenanceEntry, SessionState, SessionSummary } from '../types';
-
-// Initialize MMKV storage
-const storage = createMMKV({
-  id: 'rv-diagnostic-engine',
-});
+import {
+  EquipmentItem,
+  MaintenanceEntry,
+  OpenSessionInfo,
+  SessionState,
+  SessionSummary,
+} from '../types';
+import { KeyValueStore } from '../storage/KeyValueStore';
 
 const STORAGE_KEYS = {
-  SESSION_STATE: 'session_state',
+  LEGACY_SESSION_STATE: 'session_state', // single slot used before concurrent sessions
+  SESSION_STATE_PREFIX: 'session_state:',
+  OPEN_SESSIONS: 'open_sessions',
   SESSION_HISTORY: 'session_history',
   PROFILE_COMPLETED: 'rv_profile_completed',
   EQUIPMENT_INVENTORY: 'equipment_inventory',
@@ -22,23 +25,83 @@ export class StorageError extends Error {
 }
 
 /**
- * Storage service for offline-first persistence using MMKV
+ * Storage service for offline-first persistence. The backing store is
+ * supplied by ServiceContainer (MMKV on device, memory or file on Node).
  */
 export class StorageService {
+  private static store: KeyValueStore | null = null;
+
+  static configure(store: KeyValueStore): void {
+    this.store = store;
+  }
+
+  private static get storage(): KeyValueStore {
+    if (!this.store) {
+      throw new StorageError('StorageService has no store configured');
+    }
+    return this.store;
+  }
+
+  // ─── Session slots ──────────────────────────────────────────────────────────
+  // Each session lives under its own key; OPEN_SESSIONS indexes the ones
+  // still in progress. Ended sessions leave the index and their slot, since
+  // their summary is kept in history.
+
   static saveSessionState(state: SessionState): void {
     try {
-      const json = JSON.stringify(state);
-      // console.log("STORING SESSION FOR SESSION ID", state.session_id)
-      storage.set(STORAGE_KEYS.SESSION_STATE, json);
+      const open = this.getOpenSessions().filter(s => s.session_id !== state.session_id);
+
+      if (state.completed || state.stopped) {
+        this.storage.remove(STORAGE_KEYS.SESSION_STATE_PREFIX + state.session_id);
+      } else {
+        this.storage.set(STORAGE_KEYS.SESSION_STATE_PREFIX + state.session_id, JSON.stringify(state));
+        open.unshift({
+          session_id: state.session_id,
+          flow_id: state.flow_id,
+          flow_version: state.flow_version,
+          started_at: state.started_at,
+          updated_at: new Date().toISOString(),
+          current_node_id: state.current_node_id,
+          step_count: state.events.length,
+        });
+      }
+
+      this.storage.set(STORAGE_KEYS.OPEN_SESSIONS, JSON.stringify(open));
     } catch (error) {
       console.error('Error saving session state:', error);
       throw new StorageError('Failed to save session state');
     }
   }
 
+  /** In-progress sessions, most recently touched first. */
+  static getOpenSessions(): OpenSessionInfo[] {
+    this.migrateLegacySession();
+    try {
+      const json = this.storage.getString(STORAGE_KEYS.OPEN_SESSIONS);
+      if (!json) return [];
+      const open = JSON.parse(json) as OpenSessionInfo[];
+      return open.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /** Move a session saved in the old single slot into its own slot. */
+  private static migrateLegacySession(): void {
+    const json = this.storage.getString(STORAGE_KEYS.LEGACY_SESSION_STATE);
+    if (!json) return;
+
+    this.storage.remove(STORAGE_KEYS.LEGACY_SESSION_STATE);
+    try {
+      this.saveSessionState(JSON.parse(json) as SessionState);
+    } catch (error) {
+      console.error('[StorageService] Dropped unreadable legacy session state:', error);
+    }
+  }
+
   static getProfileCompleted(): boolean {
     try {
-      return storage.getBoolean(STORAGE_KEYS.PROFILE_COMPLETED) ?? false;
+      return this.storage.getBoolean(STORAGE_KEYS.PROFILE_COMPLETED) ?? false;
     } catch (error) {
       console.error(
         '[StorageService] Failed to get profile completion status:',
@@ -50,7 +113,7 @@ export class StorageService {
 
   static setProfileCompleted(completed: boolean): void {
     try {
-      storage.set(STORAGE_KEYS.PROFILE_COMPLETED, completed);
+      this.storage.set(STORAGE_KEYS.PROFILE_COMPLETED, completed);
       console.log('[StorageService] Profile completion status set:', completed);
     } catch (error) {
       console.error(
@@ -62,7 +125,7 @@ export class StorageService {
 
   static resetProfileCompletion(): void {
     try {
-      storage.remove(STORAGE_KEYS.PROFILE_COMPLETED);
+      this.storage.remove(STORAGE_KEYS.PROFILE_COMPLETED);
       console.log('[StorageService] Profile completion status reset');
     } catch (error) {
       console.error(
@@ -74,7 +137,7 @@ export class StorageService {
 
   static getEquipmentInventory(): EquipmentItem[] {
     try {
-      const data = storage.getString(STORAGE_KEYS.EQUIPMENT_INVENTORY);
+      const data = this.storage.getString(STORAGE_KEYS.EQUIPMENT_INVENTORY);
       if (!data) return [];
 
       return JSON.parse(data) as EquipmentItem[];
@@ -89,7 +152,7 @@ export class StorageService {
 
   static saveEquipmentInventory(items: EquipmentItem[]): void {
     try {
-      storage.set(STORAGE_KEYS.EQUIPMENT_INVENTORY, JSON.stringify(items));
+      this.storage.set(STORAGE_KEYS.EQUIPMENT_INVENTORY, JSON.stringify(items));
       console.log(
         '[StorageService] Equipment inventory saved:',
         items.length,
@@ -106,7 +169,7 @@ export class StorageService {
 
   static clearEquipmentInventory(): void {
     try {
-      storage.remove(STORAGE_KEYS.EQUIPMENT_INVENTORY);
+      this.storage.remove(STORAGE_KEYS.EQUIPMENT_INVENTORY);
       console.log('[StorageService] Equipment inventory cleared');
     } catch (error) {
       console.error(
@@ -118,7 +181,7 @@ export class StorageService {
 
   static getMaintenanceHistory(): MaintenanceEntry[] {
     try {
-      const data = storage.getString(STORAGE_KEYS.MAINTENANCE_HISTORY);
+      const data = this.storage.getString(STORAGE_KEYS.MAINTENANCE_HISTORY);
       if (!data) return [];
 
       return JSON.parse(data) as MaintenanceEntry[];
@@ -133,7 +196,7 @@ export class StorageService {
 
   static saveMaintenanceHistory(entries: MaintenanceEntry[]): void {
     try {
-      storage.set(STORAGE_KEYS.MAINTENANCE_HISTORY, JSON.stringify(entries));
+      this.storage.set(STORAGE_KEYS.MAINTENANCE_HISTORY, JSON.stringify(entries));
       console.log(
         '[StorageService] Maintenance history saved:',
         entries.length,
@@ -150,7 +213,7 @@ export class StorageService {
 
   static clearMaintenanceHistory(): void {
     try {
-      storage.remove(STORAGE_KEYS.MAINTENANCE_HISTORY);
+      this.storage.remove(STORAGE_KEYS.MAINTENANCE_HISTORY);
       console.log('[StorageService] Maintenance history cleared');
     } catch (error) {
       console.error(
@@ -160,22 +223,26 @@ export class StorageService {
     }
   }
 
-  static loadSessionState(): SessionState | null {
+  /** Load a session by id, or the most recently touched open session. */
+  static loadSessionState(sessionId?: string): SessionState | null {
     try {
-      const json = storage.getString(STORAGE_KEYS.SESSION_STATE);
+      const id = sessionId ?? this.getOpenSessions()[0]?.session_id;
+      if (!id) return null;
+
+      const json = this.storage.getString(STORAGE_KEYS.SESSION_STATE_PREFIX + id);
       if (!json) return null;
 
-      const state = JSON.parse(json) as SessionState;
-      // console.log("LOAD SESSION FOR SESSION ID", state.session_id)
-      return state;
+      return JSON.parse(json) as SessionState;
     } catch (error) {
       return null;
     }
   }
 
-  static clearSessionState(): void {
+  static clearSessionState(sessionId: string): void {
     try {
-      storage.remove(STORAGE_KEYS.SESSION_STATE);
+      const open = this.getOpenSessions().filter(s => s.session_id !== sessionId);
+      this.storage.remove(STORAGE_KEYS.SESSION_STATE_PREFIX + sessionId);
+      this.storage.set(STORAGE_KEYS.OPEN_SESSIONS, JSON.stringify(open));
     } catch (error) {
       throw new StorageError('Failed to clear session state');
     }
@@ -191,7 +258,7 @@ export class StorageService {
       }
       // console.log(`GENERATED FINAL SUMMARY FOR SESSION ID ${summary.session_id}`, summary)
       history.push(summary);
-      storage.set(STORAGE_KEYS.SESSION_HISTORY, JSON.stringify(history));
+      this.storage.set(STORAGE_KEYS.SESSION_HISTORY, JSON.stringify(history));
     } catch (error) {
       throw new StorageError('Failed to save session summary');
     }
@@ -199,7 +266,7 @@ export class StorageService {
 
   static getSessionHistory(): SessionSummary[] {
     try {
-      const json = storage.getString(STORAGE_KEYS.SESSION_HISTORY);
+      const json = this.storage.getString(STORAGE_KEYS.SESSION_HISTORY);
       if (!json) return [];
       return JSON.parse(json) as SessionSummary[];
     } catch (error) {
@@ -209,7 +276,7 @@ export class StorageService {
 
   static clearSessionHistory(): void {
     try {
-      storage.remove(STORAGE_KEYS.SESSION_HISTORY);
+      this.storage.remove(STORAGE_KEYS.SESSION_HISTORY);
     } catch (error) {
       throw new StorageError('Failed to clear session history');
     }
@@ -217,7 +284,7 @@ export class StorageService {
 
   static clearAll(): void {
     try {
-      storage.clearAll();
+      this.storage.clearAll();
     } catch (error) {
       throw new StorageError('Failed to clear all storage');
     }
@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { InMemoryKeyValueStore } from './InMemoryKeyValueStore';
+
+/**
+ * Node-only store persisted as a single JSON object. Every write rewrites
+ * the file through a temp file + rename so a crash never leaves it half
+ * written. Not for use inside the React Native bundle.
+ */
+export class FileKeyValueStore extends InMemoryKeyValueStore {
+  constructor(private readonly filePath: string) {
+    super();
+    if (fs.existsSync(filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<
+        string,
+        string | boolean | number
+      >;
+      this.values = new Map(Object.entries(parsed));
+    }
+  }
+
+  set(key: string, value: string | boolean | number): void {
+    super.set(key, value);
+    this.flush();
+  }
+
+  remove(key: string): void {
+    super.remove(key);
+    this.flush();
+  }
+
+  clearAll(): void {
+    super.clearAll();
+    this.flush();
+  }
+
+  private flush(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.values), null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
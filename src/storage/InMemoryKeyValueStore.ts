@@ -0,0 +1,27 @@
+import { KeyValueStore } from './KeyValueStore';
+
+export class InMemoryKeyValueStore implements KeyValueStore {
+  protected values = new Map<string, string | boolean | number>();
+
+  getString(key: string): string | undefined {
+    const value = this.values.get(key);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  getBoolean(key: string): boolean | undefined {
+    const value = this.values.get(key);
+    return typeof value === 'boolean' ? value : undefined;
+  }
+
+  set(key: string, value: string | boolean | number): void {
+    this.values.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.values.delete(key);
+  }
+
+  clearAll(): void {
+    this.values.clear();
+  }
+}
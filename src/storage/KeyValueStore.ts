@@ -0,0 +1,11 @@
+/**
+ * Minimal synchronous key-value contract shared by every persistence
+ * backend. Mirrors the subset of the MMKV API the services use.
+ */
+export interface KeyValueStore {
+  getString(key: string): string | undefined;
+  getBoolean(key: string): boolean | undefined;
+  set(key: string, value: string | boolean | number): void;
+  remove(key: string): void;
+  clearAll(): void;
+}
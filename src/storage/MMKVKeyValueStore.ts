@@ -0,0 +1,30 @@
+import { createMMKV, MMKV } from 'react-native-mmkv';
+import { KeyValueStore } from './KeyValueStore';
+
+export class MMKVKeyValueStore implements KeyValueStore {
+  private mmkv: MMKV;
+
+  constructor(id: string) {
+    this.mmkv = createMMKV({ id });
+  }
+
+  getString(key: string): string | undefined {
+    return this.mmkv.getString(key);
+  }
+
+  getBoolean(key: string): boolean | undefined {
+    return this.mmkv.getBoolean(key);
+  }
+
+  set(key: string, value: string | boolean | number): void {
+    this.mmkv.set(key, value);
+  }
+
+  remove(key: string): void {
+    this.mmkv.remove(key);
+  }
+
+  clearAll(): void {
+    this.mmkv.clearAll();
+  }
+}
@@ -161,6 +161,50 @@ describe('ArtifactFinalizationService', () => {
 
       expect(result.finalization_result.final_artifact.vertical_id).toBe('RV');
     });
+
+    it('should check flow-specific enums for the declared enum version', async () => {
+      const session: SessionState = {
+        artifact_id: 'test-id',
+        flow_id: 'flow_4_slides_leveling_issue',
+        flow_version: '2.0',
+        session_id: 'test',
+        started_at: '2026-03-06T10:00:00Z',
+        current_node_id: 'terminal',
+        events: [],
+        completed: false,
+        stopped: false,
+        stop_reason: 'Complete',
+        executed_nodes: [],
+        last_confirmed_state: 'Done',
+        answers: {},
+        measurements: {},
+      };
+      const terminalNode: TerminalNode = {
+        type: 'TERMINAL',
+        result: 'Done',
+        artifact: {
+          flow_id: 'flow_4_slides_leveling_issue',
+          flow_version: '2.0',
+          vertical_id: 'RV',
+          issue: 'Test',
+          stop_reason: 'Complete',
+          last_confirmed_state: 'Done',
+          system_type: 'Awning',
+          safety_notes: [],
+          stabilization_actions: ['Action'],
+          recommendations: ['Rec'],
+          notes: '',
+        },
+      };
+
+      await expect(
+        integration.finalizeArtifact(session, terminalNode, { enumsVersion: '1.2' })
+      ).rejects.toThrow('Enum validation failed');
+      // 1.1 has no per-flow enums, so the same artifact passes
+      await expect(
+        integration.finalizeArtifact(session, terminalNode, { enumsVersion: '1.1' })
+      ).resolves.toBeDefined();
+    });
   });
 
   describe('finalizeAndStore', () => {
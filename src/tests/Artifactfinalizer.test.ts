@@ -269,6 +269,41 @@ describe('ArtifactFinalizer', () => {
 
       expect(result.final_artifact.gas_pressure).toBeNull();
     });
+
+    it('should translate answer keys through the values table', async () => {
+      const template = createTemplate({ thermostat_display: 'Unknown' });
+      const sessionState = createSessionState({
+        answers: { q1_thermostat_display: 'flame' },
+      });
+      const artifactSessionState = SessionStateAdapter.toArtifactSessionState(sessionState);
+      const fieldOrder = ArtifactFinalizer.extractFieldOrder(template);
+
+      const translate = (values: Record<string, string>): FieldMapping[] => [
+        {
+          artifact_field: 'thermostat_display',
+          source_node_id: 'q1_thermostat_display',
+          field_type: 'enum',
+          values,
+        },
+      ];
+
+      const translated = await ArtifactFinalizer.finalize(
+        template,
+        artifactSessionState,
+        fieldOrder,
+        translate({ flame: 'Flame icon visible', blank: 'Display blank' })
+      );
+      const untranslated = await ArtifactFinalizer.finalize(
+        template,
+        artifactSessionState,
+        fieldOrder,
+        translate({ blank: 'Display blank' })
+      );
+
+      expect(translated.final_artifact.thermostat_display).toBe('Flame icon visible');
+      expect(translated.final_artifact.gas_pressure).toBe(7.2); // unmapped, from template
+      expect(untranslated.final_artifact.thermostat_display).toBe('Unknown');
+    });
   });
 
   describe('extractFieldOrder', () => {
@@ -0,0 +1,261 @@
+import { ArtifactGenerator, ConfidenceModel } from '../utils/ArtifactGenerator';
+import { TierClassificationDocument } from '../validators/TierClassificationValidator';
+
+describe('ArtifactGenerator', () => {
+  const entry = (tier: number, value: string, findingKey: string, subsystem: string) => ({
+    tier,
+    condition: { value },
+    description: `Finding ${findingKey}`,
+    finding_key: findingKey,
+    subsystem,
+    recommendation: `Fix ${findingKey}`,
+  });
+
+  const classification: TierClassificationDocument = {
+    flow_id: 'confidence_test_flow',
+    flow_version: '1.0',
+    nodes: {
+      tank_check: [entry(2, 'no', 'tank_empty', 'fresh_tank')],
+      pump_check: [entry(2, 'no', 'pump_no_power', 'water_pump')],
+      pump_fuse_check: [entry(2, 'yes', 'pump_fuse_blown', 'water_pump')],
+      dim_lights_check: [entry(3, 'yes', 'pump_weak_symptoms', 'water_pump')],
+      breaker_check: [entry(2, 'no', 'breaker_tripped', 'water_pump')],
+    },
+  };
+
+  const question = (nodeId: string) => ({
+    node_id: nodeId,
+    type: 'QUESTION',
+    text: nodeId,
+    answerSemantics: { yes: 'affirmative', no: 'negative', not_sure: 'uncertain', unsure: 'uncertain' } as const,
+  });
+
+  const flow = {
+    flow_id: 'confidence_test_flow',
+    flow_version: '1.0',
+    flow_name: 'Confidence Test',
+    nodes: Object.fromEntries(
+      ['tank_check', 'pump_check', 'pump_fuse_check', 'dim_lights_check', 'breaker_check'].map(id => [id, question(id)])
+    ),
+  };
+
+  const session = (answers: Record<string, string> | [string, string][]) => ({
+    sessionId: 'session-1',
+    flowId: flow.flow_id,
+    flowVersion: flow.flow_version,
+    currentNodeId: 't1',
+    events: (Array.isArray(answers) ? answers : Object.entries(answers)).map(([node_id, value]) => ({
+      node_id,
+      type: 'QUESTION' as const,
+      value,
+      timestamp: '',
+    })),
+    startTime: '',
+    lastUpdateTime: '',
+    isComplete: true,
+  });
+
+  const generator = new ArtifactGenerator(undefined, [classification]);
+  const resultOf = (answers: Record<string, string> | [string, string][]) =>
+    generator.generate(session(answers), flow).result;
+
+  describe('confidence', () => {
+
+    it('should list every contributing finding with its weight and source node', () => {
+      const result = resultOf({ pump_check: 'no', pump_fuse_check: 'yes' });
+
+      expect(result.evidence).toEqual({
+        score: 4,
+        findings: [
+          {
+            node_id: 'pump_check',
+            finding_key: 'pump_no_power',
+            description: 'Finding pump_no_power',
+            tier: 2,
+            weight: 2,
+          },
+          {
+            node_id: 'pump_fuse_check',
+            finding_key: 'pump_fuse_blown',
+            description: 'Finding pump_fuse_blown',
+            tier: 2,
+            weight: 2,
+          },
+        ],
+        penalties: [],
+      });
+      expect(result.confidence_level).toBe('Strongly suggests');
+    });
+
+    it('should subtract a penalty for each not-sure answer', () => {
+      const result = resultOf({ pump_check: 'no', pump_fuse_check: 'yes', tank_check: 'not_sure' });
+
+      expect(result.evidence!.penalties).toEqual([{ reason: 'not_sure', node_id: 'tank_check', weight: -1 }]);
+      expect(result.evidence!.score).toBe(3);
+      expect(result.confidence_level).toBe('Suggests');
+    });
+
+    it('should only penalize answers the flow declares uncertain', () => {
+      const declared = resultOf({ pump_check: 'no', tank_check: 'unsure' });
+      const overridden = generator.generate(
+        session({ pump_check: 'no', tank_check: 'not_sure' }),
+        { ...flow, nodes: { tank_check: { ...question('tank_check'), answerSemantics: { not_sure: 'other' } } } }
+      ).result;
+
+      expect(declared.evidence!.penalties).toEqual([{ reason: 'not_sure', node_id: 'tank_check', weight: -1 }]);
+      expect(overridden.evidence!.penalties).toEqual([]);
+    });
+
+    it('should still penalize not_sure on nodes that declare no semantics', () => {
+      const undeclared = generator.generate(
+        session({ pump_check: 'no', tank_check: 'not_sure', breaker_check: 'unsure' }),
+        { ...flow, nodes: {} }
+      ).result;
+
+      expect(undeclared.evidence!.penalties).toEqual([{ reason: 'not_sure', node_id: 'tank_check', weight: -1 }]);
+    });
+
+    it('should not treat findings of the same subsystem as conflicting', () => {
+      const result = resultOf({ pump_check: 'no', breaker_check: 'no' });
+
+      expect(result.evidence!.penalties).toEqual([]);
+    });
+
+    it('should subtract the conflict penalty when strong findings disagree', () => {
+      const result = resultOf({ pump_check: 'no', tank_check: 'no' });
+
+      expect(result.evidence!.penalties).toEqual([{ reason: 'conflicting_signals', weight: -1.5 }]);
+      expect(result.evidence!.score).toBe(2.5);
+      expect(result.confidence_level).toBe('Suggests');
+    });
+
+    it('should not treat findings of related subsystems as conflicting', () => {
+      const model: ConfidenceModel = {
+        model_version: 'test',
+        tier_weights: { '1': 3, '2': 2, '3': 0.5 },
+        not_sure_penalty: 1,
+        conflict_penalty: 1.5,
+        related_subsystems: [['water_pump', 'fresh_tank']],
+        labels: [{ confidence_level: 'Suggests', min_score: 0.5 }],
+      };
+      const related = new ArtifactGenerator(undefined, [classification], model);
+
+      expect(related.generate(session({ pump_check: 'no', tank_check: 'no' }), flow).result.evidence!.penalties)
+        .toEqual([]);
+    });
+
+    it('should not identify a cause when penalties outweigh the findings', () => {
+      const result = resultOf({ dim_lights_check: 'yes', pump_check: 'not_sure' });
+
+      expect(result.evidence!.score).toBe(-0.5);
+      expect(result.confidence_level).toBe('Could not identify a clear cause');
+    });
+
+    it('should keep the evidence when nothing was found', () => {
+      const result = resultOf({ pump_check: 'yes', tank_check: 'not_sure' });
+
+      expect(result.primary_finding).toBe('Unable to determine cause');
+      expect(result.evidence).toEqual({
+        score: -1,
+        findings: [],
+        penalties: [{ reason: 'not_sure', node_id: 'tank_check', weight: -1 }],
+      });
+    });
+
+    it('should use the weights of the model it was constructed with', () => {
+      const model: ConfidenceModel = {
+        model_version: 'test',
+        tier_weights: { '1': 10, '2': 5, '3': 1 },
+        not_sure_penalty: 0,
+        conflict_penalty: 0,
+        labels: [
+          { confidence_level: 'Strongly suggests', min_score: 5 },
+          { confidence_level: 'Suggests', min_score: 1 },
+        ],
+      };
+      const strict = new ArtifactGenerator(undefined, [classification], model);
+
+      expect(strict.generate(session({ pump_check: 'no' }), flow).result.confidence_level)
+        .toBe('Strongly suggests');
+    });
+  });
+
+  describe('stop', () => {
+    const stopped = (answers: Record<string, string>, stopCode: string) => {
+      const state = session(answers);
+      return generator.generate(
+        {
+          ...state,
+          events: [...state.events, { node_id: 'tank_check', type: 'STOP' as const, value: stopCode, timestamp: '' }],
+        },
+        flow
+      ).result;
+    };
+
+    it('should keep the scored confidence of findings made before a safety stop', () => {
+      const result = stopped({ pump_check: 'no', pump_fuse_check: 'yes' }, 'safety_hazard');
+
+      expect(result.confidence_level).toBe('Strongly suggests');
+      expect(result.primary_finding).toBe('Finding pump_no_power');
+      expect(result.explanation).toMatch(/^Do not continue/);
+      expect(result.recommended_next_step).toBe('Contact a qualified RV technician immediately');
+    });
+
+    it('should explain the stop by its reason code when nothing was found', () => {
+      const result = stopped({ pump_check: 'yes' }, 'capability_declined');
+
+      expect(result.confidence_level).toBe('Could not identify a clear cause');
+      expect(result.primary_finding).toBe('Diagnostic stopped');
+      expect(result.explanation).toMatch(/could not be performed/);
+    });
+  });
+
+  describe('differential', () => {
+    it('should rank tied causes in classification order whatever order they were found in', () => {
+      const forward = resultOf([['pump_check', 'no'], ['tank_check', 'no']]);
+      const reversed = resultOf([['tank_check', 'no'], ['pump_check', 'no']]);
+
+      expect(forward.differential!.map(c => c.finding_key)).toEqual(['tank_empty', 'pump_no_power']);
+      expect(reversed.differential).toEqual(forward.differential);
+      expect(forward.primary_finding).toBe('Finding tank_empty');
+    });
+
+    it('should keep every candidate with its evidence and recommendation', () => {
+      const result = resultOf({ dim_lights_check: 'yes', tank_check: 'no' });
+
+      expect(result.primary_finding).toBe(result.differential![0].description);
+      expect(result.differential).toEqual([
+        {
+          finding_key: 'tank_empty',
+          description: 'Finding tank_empty',
+          tier: 2,
+          score: 2,
+          supporting: [expect.objectContaining({ node_id: 'tank_check', weight: 2 })],
+          contradicting: [],
+          recommendation: 'Fix tank_empty',
+        },
+        {
+          finding_key: 'pump_weak_symptoms',
+          description: 'Finding pump_weak_symptoms',
+          tier: 3,
+          score: 0.5,
+          supporting: [expect.objectContaining({ node_id: 'dim_lights_check', weight: 0.5 })],
+          contradicting: [],
+          recommendation: 'Fix pump_weak_symptoms',
+        },
+      ]);
+    });
+
+    it('should count later answers at a source node against the cause', () => {
+      const result = resultOf([['pump_check', 'no'], ['pump_check', 'yes'], ['tank_check', 'no']]);
+
+      expect(result.differential!.map(c => [c.finding_key, c.score])).toEqual([
+        ['tank_empty', 2],
+        ['pump_no_power', 0],
+      ]);
+      expect(result.differential![1].contradicting).toEqual([
+        { node_id: 'pump_check', value: 'yes', weight: -2 },
+      ]);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { CanonicalSerializer } from '../utils/CanonicalSerializer';
+import { CryptoService } from '../utils/CryptoProvider';
 import {
   SerializationError,
   DeterminismError,
@@ -22,11 +23,11 @@ describe('CanonicalSerializer', () => {
       expect(result.canonical_json).not.toContain(': '); // No space after colon
       expect(result.canonical_json).not.toContain(', '); // No space after comma
       expect(result.canonical_json).toBe(
-        '{"artifact_id":"123-456","issue":"TestIssue","flow_id":"test_flow"}'
+        '{"artifact_id":"123-456","flow_id":"test_flow","issue":"TestIssue"}'
       );
     });
 
-    it('should respect canonical field ordering, not alphabetical', async () => {
+    it('should order keys by RFC 8785, not by the template field order', async () => {
       const artifact = {
         zebra: 'last',
         apple: 'first',
@@ -38,10 +39,18 @@ describe('CanonicalSerializer', () => {
       const result = await CanonicalSerializer.serialize(artifact, fieldOrder, false);
 
       expect(result.canonical_json).toBe(
-        '{"middle":"second","zebra":"last","apple":"first"}'
+        '{"apple":"first","middle":"second","zebra":"last"}'
       );
     });
 
+    it('should hash exactly the canonical JSON it returns', async () => {
+      const artifact = { artifact_id: '123', artifact_hash: '', voltage: 12.0, issue: 'Tést' };
+      const fieldOrder = ['artifact_id', 'artifact_hash', 'voltage', 'issue'];
+
+      const result = await CanonicalSerializer.serialize(artifact, fieldOrder, true);
+      expect(result.sha256_hash).toBe(await CryptoService.sha256(result.canonical_json));
+    });
+
     it('should produce identical output for identical input (determinism)', async () => {
       const artifact = {
         artifact_id: '123',
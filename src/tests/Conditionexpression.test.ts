@@ -0,0 +1,83 @@
+import { ConditionExpression, ConditionSyntaxError } from '../utils/ConditionExpression';
+import { formatIntervals } from '../utils/ConditionIntervals';
+
+describe('ConditionExpression', () => {
+  describe('evaluate', () => {
+    it('should evaluate every comparison operator', () => {
+      expect(ConditionExpression.evaluate('< 12', 11.9)).toBe(true);
+      expect(ConditionExpression.evaluate('<= 12', 12)).toBe(true);
+      expect(ConditionExpression.evaluate('> 12', 12)).toBe(false);
+      expect(ConditionExpression.evaluate('>= 12', 12)).toBe(true);
+      expect(ConditionExpression.evaluate('== 12', 12)).toBe(true);
+      expect(ConditionExpression.evaluate('!= 12', 12)).toBe(false);
+    });
+
+    it('should treat the legacy "a - b" form as an inclusive range', () => {
+      expect(ConditionExpression.evaluate('12 - 12.6', 12)).toBe(true);
+      expect(ConditionExpression.evaluate('12 - 12.6', 12.6)).toBe(true);
+      expect(ConditionExpression.evaluate('12 - 12.6', 12.7)).toBe(false);
+    });
+
+    it('should support exclusive ranges and interval notation', () => {
+      expect(ConditionExpression.evaluate('12 ..< 12.6', 12.6)).toBe(false);
+      expect(ConditionExpression.evaluate('12..12.6', 12.6)).toBe(true);
+      expect(ConditionExpression.evaluate('(12, 12.6]', 12)).toBe(false);
+      expect(ConditionExpression.evaluate('[12, 12.6)', 12)).toBe(true);
+    });
+
+    it('should parse negative numbers', () => {
+      expect(ConditionExpression.evaluate('< -5', -6)).toBe(true);
+      expect(ConditionExpression.evaluate('-10 - -5', -7)).toBe(true);
+      expect(ConditionExpression.evaluate('[-10, -5]', -4)).toBe(false);
+    });
+
+    it('should combine clauses with and/or and parentheses', () => {
+      expect(ConditionExpression.evaluate('> 10 and < 12', 11)).toBe(true);
+      expect(ConditionExpression.evaluate('< 10 || > 12', 11)).toBe(false);
+      expect(ConditionExpression.evaluate('(< 10 or > 12) and != 15', 15)).toBe(false);
+      expect(ConditionExpression.evaluate('< 10 or > 12 and < 14', 13)).toBe(true);
+    });
+
+    it('should accept unit-suffixed literals', () => {
+      expect(ConditionExpression.evaluate('< 11.8V', 11)).toBe(true);
+      expect(ConditionExpression.evaluate('>= 3.5 inWC', 3.5)).toBe(true);
+      expect(ConditionExpression.units('10 V - 12 V')).toEqual(['V']);
+      expect(ConditionExpression.units('< 10 V or > 12 psi')).toEqual(['V', 'psi']);
+    });
+  });
+
+  describe('syntax errors', () => {
+    it.each([
+      ['', 'Empty expression'],
+      ['below 12', 'Unexpected "below"'],
+      ['12', 'Expected a comparison operator'],
+      ['< 12 and', 'Unexpected end of expression'],
+      ['14 - 12', 'lower bound 14 exceeds upper bound 12'],
+      ['[12, 14', 'Expected "]" or ")"'],
+      ['< 12 $', 'Unexpected character "$"'],
+    ])('should reject %p', (condition, message) => {
+      expect(() => ConditionExpression.parse(condition)).toThrow(ConditionSyntaxError);
+      expect(() => ConditionExpression.parse(condition)).toThrow(message);
+    });
+  });
+
+  describe('toIntervals', () => {
+    it('should match evaluate for compound conditions', () => {
+      expect(formatIntervals(ConditionExpression.toIntervals('< 10 or [12, 14)'))).toBe(
+        '(-Infinity, 10) ∪ [12, 14)'
+      );
+      expect(formatIntervals(ConditionExpression.toIntervals('>= 10 and != 12'))).toBe(
+        '[10, 12) ∪ (12, Infinity)'
+      );
+    });
+  });
+
+  describe('describe', () => {
+    it('should keep the existing MEASURE result wording', () => {
+      expect(ConditionExpression.describe('< 11.8')).toBe('Below threshold');
+      expect(ConditionExpression.describe('>= 12.6')).toBe('Above threshold');
+      expect(ConditionExpression.describe('12 - 12.6')).toBe('Within normal range');
+      expect(ConditionExpression.describe('== 0')).toBe('Condition met');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  CrossSystemRuleError,
+  CrossSystemRuleSet,
+  CrossSystemRuleValidator,
+} from '../validators/CrossSystemRuleValidator';
+import { RawFlow } from '../validators/FlowValidator';
+import { FlowRegistry } from '../services/FlowRegistry';
+import { ArtifactGenerator, artifactGenerator } from '../utils/ArtifactGenerator';
+
+describe('CrossSystemRuleValidator', () => {
+  const flows = () => FlowRegistry.list().map(registration => registration.flow as unknown as RawFlow);
+  const findingSources = artifactGenerator.getFindingSources();
+
+  const ruleSet = (overrides: Record<string, unknown> = {}, match: Record<string, unknown> = {}) => ({
+    rules_version: '1.0',
+    rules: [
+      {
+        rule_id: 'slides_not_level',
+        match: {
+          flow_id: 'flow_4_slides_leveling_issue',
+          finding_keys: ['slide_sync_issue'],
+          answers: { primary_system_selection: ['slide_outs'] },
+          ...match,
+        },
+        follow_up_flow_id: 'flow_4_slides_leveling_issue',
+        recommendation: 'Run the Leveling diagnostic to verify RV is level',
+        ...overrides,
+      },
+    ],
+  }) as CrossSystemRuleSet;
+
+  const codes = (set: CrossSystemRuleSet) =>
+    CrossSystemRuleValidator.lint(set, flows(), findingSources).map(d => d.code);
+
+  beforeEach(() => {
+    FlowRegistry.reset();
+  });
+
+  it('should accept the shipped rules against the registered flows', () => {
+    expect(
+      CrossSystemRuleValidator.lint(artifactGenerator.getCrossSystemRules(), flows(), findingSources)
+    ).toEqual([]);
+  });
+
+  it('should accept a well-formed rule', () => {
+    expect(codes(ruleSet())).toEqual([]);
+  });
+
+  it('should reject unknown flows', () => {
+    expect(codes(ruleSet({ follow_up_flow_id: 'flow_9_heating' }))).toEqual(['unknown_flow']);
+    expect(codes(ruleSet({}, { flow_id: 'flow_9_heating' }))).toEqual(['unknown_flow']);
+  });
+
+  it('should reject unknown finding keys and findings from another flow', () => {
+    const diagnostics = CrossSystemRuleValidator.lint(
+      ruleSet({}, { finding_keys: ['slide_freeze', 'pump_no_power'] }),
+      flows(),
+      findingSources
+    );
+
+    expect(diagnostics.map(d => [d.path, d.code])).toEqual([
+      ['/rules/0/match/finding_keys/0', 'unknown_finding_key'],
+      ['/rules/0/match/finding_keys/1', 'finding_not_in_flow'],
+    ]);
+  });
+
+  it('should reject answer conditions on unknown nodes or answers', () => {
+    expect(codes(ruleSet({}, { answers: { level_check: ['yes'] } }))).toEqual(['unknown_node']);
+    expect(codes(ruleSet({}, { answers: { primary_system_selection: ['awnings'] } }))).toEqual([
+      'unknown_answer',
+    ]);
+    expect(codes(ruleSet({}, { answers: { primary_system_selection: [] } }))).toEqual([
+      'missing_field',
+    ]);
+  });
+
+  it('should reject duplicate rule IDs', () => {
+    const set = ruleSet();
+    set.rules.push({ ...set.rules[0] });
+
+    expect(codes(set)).toEqual(['duplicate_rule_id']);
+  });
+
+  it('should throw CrossSystemRuleError listing every problem', () => {
+    const set = ruleSet({ follow_up_flow_id: 'flow_9_heating' }, { finding_keys: ['slide_freeze'] });
+
+    expect(() => CrossSystemRuleValidator.validate(set, flows(), findingSources)).toThrow(
+      CrossSystemRuleError
+    );
+    try {
+      CrossSystemRuleValidator.validate(set, flows(), findingSources);
+    } catch (error) {
+      expect((error as CrossSystemRuleError).diagnostics).toHaveLength(2);
+    }
+  });
+
+  describe('ArtifactGenerator follow-up', () => {
+    const slidesFlow = {
+      flow_id: 'flow_4_slides_leveling_issue',
+      flow_version: '2.0',
+      flow_name: 'Slides and Leveling Systems',
+      nodes: {},
+    };
+    const session = (selection: string) => ({
+      sessionId: 'session-1',
+      flowId: slidesFlow.flow_id,
+      flowVersion: slidesFlow.flow_version,
+      currentNodeId: 'terminal_slide_sync_issue',
+      events: [
+        { node_id: 'primary_system_selection', type: 'QUESTION' as const, value: selection, timestamp: '' },
+        { node_id: 'slide_uneven_movement_check', type: 'QUESTION' as const, value: 'yes', timestamp: '' },
+      ],
+      startTime: '',
+      lastUpdateTime: '',
+      isComplete: true,
+    });
+
+    it('should recommend the follow-up flow of the first matching rule', () => {
+      const { result } = artifactGenerator.generate(session('slide_outs'), slidesFlow);
+
+      expect(result.follow_up).toEqual({
+        rule_id: 'slides_not_level',
+        flow_id: 'flow_4_slides_leveling_issue',
+        recommendation: 'Run the Leveling diagnostic to verify RV is level',
+      });
+      expect(result.recommended_next_step).toBe(result.follow_up!.recommendation);
+    });
+
+    it('should skip rules whose answer conditions do not hold', () => {
+      const { result } = artifactGenerator.generate(session('both'), slidesFlow);
+
+      expect(result.follow_up).toBeUndefined();
+      expect(result.recommended_next_step).toBe('Check slide synchronization system and alignment');
+    });
+
+    it('should use the rule set it was constructed with', () => {
+      const generator = new ArtifactGenerator({ rules_version: '0.1', rules: [] });
+
+      expect(generator.generate(session('slide_outs'), slidesFlow).result.follow_up).toBeUndefined();
+    });
+  });
+});
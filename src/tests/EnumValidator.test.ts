@@ -251,7 +251,7 @@ describe('EnumValidator', () => {
     it('should return artifact_enums version', () => {
       const version = EnumValidator.getVersion();
 
-      expect(version).toBe('1.1');
+      expect(version).toBe('1.2');
     });
   });
 
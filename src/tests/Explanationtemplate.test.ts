@@ -0,0 +1,143 @@
+import { ExplanationTemplate, ExplanationTemplateError } from '../utils/ExplanationTemplate';
+import {
+  ExplanationTemplateValidationError,
+  ExplanationTemplateValidator,
+} from '../validators/ExplanationTemplateValidator';
+import { RawFlow } from '../validators/FlowValidator';
+import { FlowRegistry } from '../services/FlowRegistry';
+import { artifactGenerator } from '../utils/ArtifactGenerator';
+
+describe('ExplanationTemplate', () => {
+  it('should substitute variables and leave other braces alone', () => {
+    expect(ExplanationTemplate.render(
+      'Battery measured {measure.v} ({unit.v}) {not a tag}.',
+      { 'measure.v': '11.4 volts', 'unit.v': 'volts' }
+    )).toBe('Battery measured 11.4 volts (volts) {not a tag}.');
+  });
+
+  it('should render sections only when their variable has a value', () => {
+    const template =
+      'Low.{#supporting} Also observed: {supporting}.{/supporting}{^supporting} Nothing else.{/supporting}';
+
+    expect(ExplanationTemplate.render(template, { supporting: 'corroded cables' }))
+      .toBe('Low. Also observed: corroded cables.');
+    expect(ExplanationTemplate.render(template, {})).toBe('Low. Nothing else.');
+    expect(ExplanationTemplate.render(template, { supporting: '' })).toBe('Low. Nothing else.');
+  });
+
+  it('should list every variable, including nested sections', () => {
+    expect(ExplanationTemplate.variables('{#answer.q}{measure.m}{#supporting}{supporting}{/supporting}{/answer.q}'))
+      .toEqual(['answer.q', 'measure.m', 'supporting']);
+  });
+
+  it('should reject unbalanced sections', () => {
+    expect(() => ExplanationTemplate.parse('{#supporting}open')).toThrow(ExplanationTemplateError);
+    expect(() => ExplanationTemplate.parse('{#a}x{/b}')).toThrow(ExplanationTemplateError);
+    expect(() => ExplanationTemplate.parse('x{/a}')).toThrow(ExplanationTemplateError);
+  });
+
+  describe('ExplanationTemplateValidator', () => {
+    const flows = () => FlowRegistry.list().map(registration => registration.flow as unknown as RawFlow);
+    const findingSources = artifactGenerator.getFindingSources();
+    const lint = (templates: Record<string, string>) =>
+      ExplanationTemplateValidator.lint(templates, flows(), findingSources);
+
+    beforeEach(() => {
+      FlowRegistry.reset();
+    });
+
+    it('should accept the shipped templates', () => {
+      expect(lint(artifactGenerator.getExplanationTemplates())).toEqual([]);
+    });
+
+    it('should reject variables the producing flow can never set', () => {
+      const diagnostics = lint({
+        pump_no_power: 'Pump silent at {measure.measure_battery_voltage}.',
+        low_battery: 'Source was {answer.power_source_context}, switch {answer.pump_sound_check}.',
+      });
+
+      expect(diagnostics.map(d => [d.path, d.code, d.message])).toEqual([
+        [
+          '/pump_no_power',
+          'unavailable_variable',
+          '"measure.measure_battery_voltage" can never be set in flow "flow_2_water_system_issue", which produces "pump_no_power"',
+        ],
+        [
+          '/low_battery',
+          'unavailable_variable',
+          '"answer.pump_sound_check" can never be set in flow "flow_1_no_power_inside_rv", which produces "low_battery"',
+        ],
+      ]);
+    });
+
+    it('should reject unknown variables and broken templates', () => {
+      expect(lint({ low_battery: '{voltage}', tank_empty: '{#supporting}' }).map(d => d.code))
+        .toEqual(['unknown_variable', 'invalid_template']);
+      expect(() => ExplanationTemplateValidator.validate({ low_battery: '{voltage}' }, flows(), findingSources))
+        .toThrow(ExplanationTemplateValidationError);
+    });
+  });
+
+  describe('ArtifactGenerator explanations', () => {
+    it('should render the primary finding template with session values', () => {
+      const { result } = artifactGenerator.generate(
+        {
+          sessionId: 'session-1',
+          flowId: 'flow_1_no_power_inside_rv',
+          flowVersion: '2.0',
+          currentNodeId: 'terminal_battery_connection_issue_observed',
+          events: [
+            { node_id: 'measure_battery_voltage', type: 'MEASURE', value: '11.4', timestamp: '' },
+            { node_id: 'battery_connection_observation', type: 'QUESTION', value: 'no', timestamp: '' },
+          ],
+          startTime: '',
+          lastUpdateTime: '',
+          isComplete: true,
+        },
+        {
+          flow_id: 'flow_1_no_power_inside_rv',
+          flow_version: '2.0',
+          flow_name: 'No Power Inside RV',
+          nodes: {
+            measure_battery_voltage: {
+              node_id: 'measure_battery_voltage',
+              type: 'MEASURE',
+              text: 'Measure battery voltage.',
+              unit: 'volts',
+            },
+          },
+        }
+      );
+
+      expect(result.primary_finding).toBe('Battery voltage critically low');
+      expect(result.explanation).toBe(
+        'Battery measured 11.4 volts, below the 11.8 threshold; also observed: battery cables appear ' +
+        'loose or heavily corroded. At this level 12V systems cannot run reliably until the battery ' +
+        'is recharged. Battery voltage (11.4V) is below normal range, indicating a low battery condition.'
+      );
+    });
+
+    it('should close a finding description before the reading that follows it', () => {
+      const { result } = artifactGenerator.generate(
+        {
+          sessionId: 'session-1',
+          flowId: 'flow_1_no_power_inside_rv',
+          flowVersion: '2.0',
+          currentNodeId: 'terminal_battery_connection_issue_observed',
+          events: [
+            { node_id: 'measure_battery_voltage', type: 'MEASURE', value: '12.3', timestamp: '' },
+            { node_id: 'battery_connection_observation', type: 'QUESTION', value: 'no', timestamp: '' },
+          ],
+          startTime: '',
+          lastUpdateTime: '',
+          isComplete: true,
+        },
+        { flow_id: 'flow_1_no_power_inside_rv', flow_version: '2.0', flow_name: 'No Power Inside RV', nodes: {} }
+      );
+
+      expect(result.explanation).toBe(
+        'Battery cables appear loose or heavily corroded. Battery voltage (12.3V) is below optimal range.'
+      );
+    });
+  });
+});
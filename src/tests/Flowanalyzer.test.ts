@@ -0,0 +1,165 @@
+import { FlowAnalyzer, FlowAnalysisError } from '../utils/FlowAnalyzer';
+import { FlowValidator, RawFlow } from '../validators/FlowValidator';
+import { FlowEngine } from '../utils/flowEngine';
+import { StorageService } from '../services/StorageService';
+import noPowerFlow from '../flows/flow_1_no_power_inside_rv_v2.json';
+import waterFlow from '../flows/flow_2_water_system_issue_v2.json';
+import propaneFlow from '../flows/flow_3_propane_system_issue_v2.json';
+import slidesFlow from '../flows/flow_4_slides_leveling_issue_v2.json';
+
+describe('FlowAnalyzer', () => {
+  const shippedFlows: [string, RawFlow][] = [
+    ['flow_1_no_power_inside_rv', noPowerFlow as RawFlow],
+    ['flow_2_water_system_issue', waterFlow as RawFlow],
+    ['flow_3_propane_system_issue', propaneFlow as RawFlow],
+    ['flow_4_slides_leveling_issue', slidesFlow as RawFlow],
+  ];
+
+  const artifact = {
+    vertical_id: 'RV',
+    issue: 'Analyzer Test',
+    flow_id: 'analyzer_test_flow',
+    flow_version: '1.0',
+    artifact_schema_version: '1.0',
+    stop_reason: 'Complete',
+    last_confirmed_state: 'Complete',
+    safety_notes: [],
+  };
+
+  const smallFlow: RawFlow = {
+    flowId: 'analyzer_test_flow',
+    flowVersion: '1.0',
+    startNode: 'q1',
+    nodes: {
+      q1: { type: 'QUESTION', text: 'Shore power?', answers: { yes: 's1', no: 'm1' } },
+      s1: { type: 'SAFETY', text: 'Disconnect shore power.', next: 'm1' },
+      m1: {
+        type: 'MEASURE',
+        text: 'Battery voltage',
+        validRange: { min: 10, max: 15 },
+        branches: [
+          { condition: '< 12', next: 't_low' },
+          { condition: '>= 12', next: 't_ok' },
+        ],
+      },
+      t_low: { type: 'TERMINAL', result: 'Low', artifact },
+      t_ok: { type: 'TERMINAL', result: 'OK', artifact },
+    },
+  };
+
+  describe.each(shippedFlows)('%s', (_flowId, flow) => {
+    it('should reach every terminal', () => {
+      const report = FlowAnalyzer.analyze(flow);
+
+      expect(report.unreached_terminals).toEqual([]);
+      expect(report.terminal_coverage).toBe(1);
+      expect(report.unreachable_branches).toEqual([]);
+    });
+  });
+
+  it('should enumerate every path with answer sequences and depth', () => {
+    const report = FlowAnalyzer.analyze(smallFlow);
+
+    expect(report.path_count).toBe(4);
+    expect(report.min_depth).toBe(2);
+    expect(report.max_depth).toBe(3);
+    expect(report.paths_per_terminal).toEqual({ t_low: 2, t_ok: 2 });
+    expect(report.paths[0].steps).toEqual([
+      { node_id: 'q1', type: 'QUESTION', answer: 'yes' },
+      { node_id: 's1', type: 'SAFETY', answer: true },
+      { node_id: 'm1', type: 'MEASURE', answer: 11, condition: '< 12' },
+    ]);
+  });
+
+  it('should pick MEASURE values that respect first-match ordering', () => {
+    const node = {
+      type: 'MEASURE' as const,
+      text: 'Voltage',
+      validRange: { min: 10, max: 15 },
+      branches: [
+        { condition: '< 12', next: 'a' },
+        { condition: '< 14', next: 'b' },
+        { condition: '>= 11', next: 'c' },
+      ],
+    };
+
+    expect(FlowAnalyzer.representativeValue(node, 0)).toBeLessThan(12);
+    const second = FlowAnalyzer.representativeValue(node, 1)!;
+    expect(second).toBeGreaterThanOrEqual(12);
+    expect(second).toBeLessThan(14);
+    expect(FlowAnalyzer.representativeValue(node, 2)).toBeGreaterThanOrEqual(14);
+  });
+
+  it('should report branches no value can reach', () => {
+    const shadowed: RawFlow = {
+      ...smallFlow,
+      nodes: {
+        ...smallFlow.nodes,
+        m1: {
+          ...smallFlow.nodes.m1,
+          branches: [
+            { condition: '< 20', next: 't_low' },
+            { condition: '>= 12', next: 't_ok' },
+          ],
+        },
+      },
+    };
+
+    const report = FlowAnalyzer.analyze(shadowed);
+
+    expect(report.unreachable_branches).toEqual([{ node_id: 'm1', branch_index: 1, condition: '>= 12' }]);
+    expect(report.unreached_terminals).toEqual(['t_ok']);
+    expect(report.terminal_coverage).toBe(0.5);
+  });
+
+  it('should follow a loop head to its onExhausted node', () => {
+    const looping: RawFlow = {
+      ...smallFlow,
+      startNode: 'm1',
+      nodes: {
+        m1: {
+          ...smallFlow.nodes.m1,
+          branches: [{ condition: '< 12', next: 'q_retry' }],
+          loop: { maxIterations: 3, onExhausted: 't_low' },
+        },
+        q_retry: { type: 'QUESTION', text: 'Charged?', answers: { yes: 'm1', no: 't_ok' } },
+        t_low: smallFlow.nodes.t_low,
+        t_ok: smallFlow.nodes.t_ok,
+      },
+    };
+
+    const report = FlowAnalyzer.analyze(looping);
+
+    expect(report.terminal_coverage).toBe(1);
+    expect(report.cyclic_paths_skipped).toBe(1);
+    expect(report.paths.map(p => p.steps)).toEqual([
+      [
+        { node_id: 'm1', type: 'MEASURE', answer: 11, condition: '< 12' },
+        { node_id: 'q_retry', type: 'QUESTION', answer: 'no' },
+      ],
+      [{ node_id: 'm1', type: 'MEASURE', answer: 'exhausted', exhausted: true }],
+    ]);
+  });
+
+  it('should stop enumerating past the path limit', () => {
+    expect(() => FlowAnalyzer.analyze(smallFlow, 2)).toThrow(FlowAnalysisError);
+  });
+
+  it('should produce paths the engine follows to the same terminal', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const report = FlowAnalyzer.analyze(noPowerFlow as RawFlow);
+
+    for (const path of report.paths) {
+      FlowValidator.clearRegistry();
+      StorageService.clearAll();
+      const engine = FlowEngine.createUnsafe(noPowerFlow);
+      let session = engine.startSession();
+      for (const step of path.steps) {
+        session = await engine.processResponse(session, step.answer);
+      }
+      expect(session.terminal_node_id).toBe(path.terminal_node_id);
+    }
+
+    jest.restoreAllMocks();
+  });
+});
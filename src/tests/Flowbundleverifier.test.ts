@@ -0,0 +1,227 @@
+import { generateKeyPairSync, sign, KeyObject } from 'node:crypto';
+import { FlowEngine, BundleVerificationError } from '../utils/flowEngine';
+import { CryptoService } from '../utils/CryptoProvider';
+import { ExpoCryptoProvider } from '../utils/ExpoCryptoProvider';
+import { NodeCryptoProvider } from '../utils/NodeCryptoProvider';
+import { FlowChecksumValidator } from '../validators/Flowchecksumvalidator';
+import {
+  FlowBundleVerifier,
+  FlowBundleManifest,
+  SignedFlowBundle,
+  TrustedPublisherKey,
+} from '../validators/FlowBundleVerifier';
+import { FlowValidator, RawFlow } from '../validators/FlowValidator';
+
+describe('FlowBundleVerifier', () => {
+  const terminalArtifact = (stopReason: string) => ({
+    vertical_id: 'RV',
+    issue: 'Bundle Test',
+    flow_id: 'bundle_flow',
+    flow_version: '1.2',
+    artifact_schema_version: '1.0',
+    stop_reason: stopReason,
+    last_confirmed_state: stopReason,
+    safety_notes: ['Test safety note'],
+    stabilization_actions: [],
+    recommendations: [],
+    notes: '',
+  });
+
+  const flow: RawFlow = {
+    flowId: 'bundle_flow',
+    flowVersion: '1.2',
+    startNode: 'q1',
+    nodes: {
+      q1: { type: 'QUESTION', text: 'Power on?', answers: { yes: 't1', no: 't2' } },
+      t1: { type: 'TERMINAL', result: 'Working', artifact: terminalArtifact('Working') },
+      t2: { type: 'TERMINAL', result: 'No power', artifact: terminalArtifact('No power') },
+    },
+  };
+
+  const createKey = (keyId: string): { privateKey: KeyObject; trusted: TrustedPublisherKey } => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const x = publicKey.export({ format: 'jwk' }).x!;
+    return {
+      privateKey,
+      trusted: {
+        key_id: keyId,
+        publisher: 'Test Publisher',
+        public_key: Buffer.from(x, 'base64url').toString('base64'),
+      },
+    };
+  };
+
+  const publisher = createKey('publisher-2026');
+
+  const signManifest = (manifest: FlowBundleManifest, privateKey: KeyObject): string =>
+    sign(null, FlowBundleVerifier.signingPayload(manifest), privateKey).toString('base64');
+
+  const buildBundle = async (
+    privateKey: KeyObject = publisher.privateKey,
+    keyId: string = publisher.trusted.key_id
+  ): Promise<SignedFlowBundle> => {
+    const manifest: FlowBundleManifest = {
+      bundle_id: 'bundle-001',
+      publisher_key_id: keyId,
+      issued_at: '2026-01-15T00:00:00.000Z',
+      flows: [
+        {
+          flow_id: flow.flowId,
+          flow_version: flow.flowVersion,
+          content_hash: await FlowChecksumValidator.computeFlowHash(flow),
+        },
+      ],
+    };
+    return {
+      manifest,
+      signature: signManifest(manifest, privateKey),
+      flows: { [flow.flowId]: JSON.parse(JSON.stringify(flow)) },
+    };
+  };
+
+  const expectFailure = async (promise: Promise<unknown>, reason: string) => {
+    const error = await promise.then(
+      () => null,
+      (e: unknown) => e
+    );
+    expect(error).toBeInstanceOf(BundleVerificationError);
+    expect((error as BundleVerificationError).reason).toBe(reason);
+  };
+
+  beforeEach(() => {
+    FlowValidator.clearRegistry();
+  });
+
+  describe('verifyFlow', () => {
+    it('should return the flow from a correctly signed bundle', async () => {
+      const bundle = await buildBundle();
+
+      const verified = await FlowBundleVerifier.verifyFlow(bundle, flow.flowId, [publisher.trusted]);
+
+      expect(verified.flowId).toBe(flow.flowId);
+      expect(verified.flowVersion).toBe(flow.flowVersion);
+    });
+
+    it('should reject bundles signed by an unknown publisher', async () => {
+      const stranger = createKey('stranger');
+      const bundle = await buildBundle(stranger.privateKey, stranger.trusted.key_id);
+
+      await expectFailure(
+        FlowBundleVerifier.verifyFlow(bundle, flow.flowId, [publisher.trusted]),
+        'unknown_publisher'
+      );
+    });
+
+    it('should reject bundles signed with a revoked key', async () => {
+      const bundle = await buildBundle();
+
+      await expectFailure(
+        FlowBundleVerifier.verifyFlow(bundle, flow.flowId, [{ ...publisher.trusted, revoked: true }]),
+        'revoked_key'
+      );
+    });
+
+    it('should reject a manifest signed by a different key under a trusted key_id', async () => {
+      const impostor = createKey(publisher.trusted.key_id);
+      const bundle = await buildBundle(impostor.privateKey);
+
+      await expectFailure(
+        FlowBundleVerifier.verifyFlow(bundle, flow.flowId, [publisher.trusted]),
+        'invalid_signature'
+      );
+    });
+
+    it('should reject a manifest edited after signing', async () => {
+      const bundle = await buildBundle();
+      bundle.manifest.flows[0].content_hash = '0'.repeat(64);
+
+      await expectFailure(
+        FlowBundleVerifier.verifyFlow(bundle, flow.flowId, [publisher.trusted]),
+        'invalid_signature'
+      );
+    });
+
+    it('should reject a flow edited after signing', async () => {
+      const bundle = await buildBundle();
+      (bundle.flows[flow.flowId].nodes.t1 as any).result = 'Tampered';
+
+      await expectFailure(
+        FlowBundleVerifier.verifyFlow(bundle, flow.flowId, [publisher.trusted]),
+        'content_hash_mismatch'
+      );
+    });
+
+    it('should reject a flow whose version differs from the manifest', async () => {
+      const bundle = await buildBundle();
+      bundle.flows[flow.flowId].flowVersion = '9.9';
+
+      await expectFailure(
+        FlowBundleVerifier.verifyFlow(bundle, flow.flowId, [publisher.trusted]),
+        'version_mismatch'
+      );
+    });
+
+    it('should reject flows that are not listed or not included', async () => {
+      const bundle = await buildBundle();
+
+      await expectFailure(
+        FlowBundleVerifier.verifyFlow(bundle, 'other_flow', [publisher.trusted]),
+        'flow_not_in_manifest'
+      );
+
+      delete bundle.flows[flow.flowId];
+      await expectFailure(
+        FlowBundleVerifier.verifyFlow(bundle, flow.flowId, [publisher.trusted]),
+        'flow_missing'
+      );
+    });
+
+    it('should reject malformed bundles', async () => {
+      const bundle = await buildBundle();
+
+      for (const malformed of [null, 'bundle', { ...bundle, manifest: undefined }, { ...bundle, signature: 42 }]) {
+        await expectFailure(
+          FlowBundleVerifier.verifyFlow(malformed, flow.flowId, [publisher.trusted]),
+          'malformed_bundle'
+        );
+      }
+    });
+  });
+
+  describe('crypto providers', () => {
+    it('should verify signatures with both the Expo and Node providers', async () => {
+      const bundle = await buildBundle();
+
+      expect(FlowBundleVerifier.verifyManifest(bundle, [publisher.trusted]).bundle_id).toBe('bundle-001');
+
+      CryptoService.configure(NodeCryptoProvider);
+      try {
+        expect(FlowBundleVerifier.verifyManifest(bundle, [publisher.trusted]).bundle_id).toBe('bundle-001');
+        bundle.manifest.issued_at = '2027-01-01T00:00:00.000Z';
+        expect(() => FlowBundleVerifier.verifyManifest(bundle, [publisher.trusted])).toThrow(
+          BundleVerificationError
+        );
+      } finally {
+        CryptoService.configure(ExpoCryptoProvider);
+      }
+    });
+  });
+
+  describe('FlowEngine.createFromSignedBundle', () => {
+    it('should create an engine from a verified bundle', async () => {
+      const bundle = await buildBundle();
+
+      const engine = await FlowEngine.createFromSignedBundle(bundle, flow.flowId, [publisher.trusted]);
+      const session = engine.startSession();
+
+      expect(session.flow_id).toBe(flow.flowId);
+      expect(session.current_node_id).toBe('q1');
+    });
+
+    it('should not create an engine from an untrusted bundle', async () => {
+      const bundle = await buildBundle();
+
+      await expectFailure(FlowEngine.createFromSignedBundle(bundle, flow.flowId, []), 'unknown_publisher');
+    });
+  });
+});
@@ -1,4 +1,9 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { FlowChecksumValidator, ChecksumVerificationError } from '../validators/Flowchecksumvalidator';
+import { CryptoService } from '../utils/CryptoProvider';
+import { ExpoCryptoProvider } from '../utils/ExpoCryptoProvider';
+import { NodeCryptoProvider } from '../utils/NodeCryptoProvider';
 
 describe('FlowChecksumValidator', () => {
   const sampleFlowJson = JSON.stringify({
@@ -35,13 +40,27 @@ describe('FlowChecksumValidator', () => {
       expect(hash1).not.toBe(hash2);
     });
 
-    it('should be sensitive to whitespace changes', async () => {
-      const withSpace = sampleFlowJson.replace('{', '{ ');
+    it('should ignore formatting whitespace', async () => {
+      const pretty = JSON.stringify(JSON.parse(sampleFlowJson), null, 2);
       
       const hash1 = await FlowChecksumValidator.computeFlowHash(sampleFlowJson);
-      const hash2 = await FlowChecksumValidator.computeFlowHash(withSpace);
+      const hash2 = await FlowChecksumValidator.computeFlowHash(pretty);
 
-      expect(hash1).not.toBe(hash2);
+      expect(hash1).toBe(hash2);
+    });
+
+    it('should hash parsed flows and JSON text identically', async () => {
+      const hash1 = await FlowChecksumValidator.computeFlowHash(sampleFlowJson);
+      const hash2 = await FlowChecksumValidator.computeFlowHash(JSON.parse(sampleFlowJson));
+
+      expect(hash1).toBe(hash2);
+    });
+
+    it('should treat 10.0 and 10 as the same number', async () => {
+      const hash1 = await FlowChecksumValidator.computeFlowHash('{"validRange":{"min":10.0,"max":15}}');
+      const hash2 = await FlowChecksumValidator.computeFlowHash('{"validRange":{"min":10,"max":15.0}}');
+
+      expect(hash1).toBe(hash2);
     });
   });
 
@@ -239,7 +258,7 @@ describe('FlowChecksumValidator', () => {
       expect(result.is_valid).toBe(false);
     });
 
-    it('should detect added whitespace', async () => {
+    it('should accept added whitespace', async () => {
       const original = '{"test":"value"}';
       const withSpace = '{"test": "value"}'; // Added space after colon
 
@@ -252,10 +271,10 @@ describe('FlowChecksumValidator', () => {
         '1.0'
       );
 
-      expect(result.is_valid).toBe(false);
+      expect(result.is_valid).toBe(true);
     });
 
-    it('should detect field reordering', async () => {
+    it('should accept field reordering', async () => {
       const original = '{"a":"1","b":"2"}';
       const reordered = '{"b":"2","a":"1"}';
 
@@ -268,7 +287,27 @@ describe('FlowChecksumValidator', () => {
         '1.0'
       );
 
-      expect(result.is_valid).toBe(false);
+      expect(result.is_valid).toBe(true);
+    });
+
+    it('should match the shipped checksum files', async () => {
+      // The jest expo-crypto mock is not a real SHA-256
+      CryptoService.configure(NodeCryptoProvider);
+      try {
+        const flowsDir = path.join(__dirname, '..', 'flows');
+        const flowFiles = fs.readdirSync(flowsDir).filter(f => f.endsWith('.json'));
+
+        for (const file of flowFiles) {
+          const flowJson = fs.readFileSync(path.join(flowsDir, file), 'utf-8');
+          const expected = FlowChecksumValidator.parseChecksumFile(
+            fs.readFileSync(path.join(flowsDir, `${file}.sha256`), 'utf-8')
+          );
+
+          expect(await FlowChecksumValidator.computeFlowHash(flowJson)).toBe(expected);
+        }
+      } finally {
+        CryptoService.configure(ExpoCryptoProvider);
+      }
     });
   });
 });
\ No newline at end of file
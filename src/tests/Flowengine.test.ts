@@ -0,0 +1,704 @@
+import { FlowEngine, FlowEngineError, FlowEngineEnvironment } from '../utils/flowEngine';
+import { FlowValidator, RawFlow } from '../validators/FlowValidator';
+import { StorageService } from '../services/StorageService';
+import { RigIdentityService } from '../services/RigIdentityService';
+import { ServiceContainer } from '../services/ServiceContainer';
+import { FlowRegistry, FlowRegistration } from '../services/FlowRegistry';
+import { FlowChecksumValidator } from '../validators/Flowchecksumvalidator';
+import { FlowDefinition, DeterminismError } from '../types';
+import { CryptoService } from '../utils/CryptoProvider';
+import { JsonCanonicalizer } from '../utils/JsonCanonicalizer';
+
+describe('FlowEngine', () => {
+  const terminalArtifact = (stopReason: string) => ({
+    vertical_id: 'RV',
+    issue: 'Engine Test',
+    flow_id: 'engine_test_flow',
+    flow_version: '1.0',
+    artifact_schema_version: '1.0',
+    stop_reason: stopReason,
+    last_confirmed_state: stopReason,
+    safety_notes: ['Test safety note'],
+    stabilization_actions: ['Test action'],
+    recommendations: ['Test recommendation'],
+    notes: 'Test notes',
+  });
+
+  const testFlow: RawFlow = {
+    flowId: 'engine_test_flow',
+    flowVersion: '1.0',
+    startNode: 'q1',
+    nodes: {
+      q1: {
+        type: 'QUESTION',
+        text: 'Is the RV connected to shore power?',
+        answers: { yes: 's1', no: 'm1' },
+      },
+      s1: {
+        type: 'SAFETY',
+        text: 'Disconnect shore power before proceeding.',
+        next: 'm1',
+      },
+      m1: {
+        type: 'MEASURE',
+        text: 'Measure battery voltage.',
+        unit: 'volts',
+        validRange: { min: 10, max: 15 },
+        branches: [
+          { condition: '< 12.0', next: 't_low' },
+          { condition: '>= 12.0', next: 't_ok' },
+        ],
+      },
+      t_low: {
+        type: 'TERMINAL',
+        result: 'Battery voltage is low.',
+        artifact: terminalArtifact('Low voltage'),
+      },
+      t_ok: {
+        type: 'TERMINAL',
+        result: 'Battery voltage is normal.',
+        artifact: terminalArtifact('Voltage OK'),
+      },
+    },
+  };
+
+  const pathOf = (events: { node_id: string; type: string; value: unknown }[]) =>
+    events.map(e => ({ node_id: e.node_id, type: e.type, value: e.value }));
+
+  let engine: FlowEngine;
+
+  beforeEach(() => {
+    FlowValidator.clearRegistry();
+    StorageService.clearAll();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    engine = FlowEngine.createUnsafe(testFlow);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('goBack', () => {
+    it('should return to the previous node and drop its answer', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'yes');
+
+      const rewound = engine.goBack(session);
+
+      expect(rewound.current_node_id).toBe('q1');
+      expect(rewound.events).toHaveLength(0);
+      expect(rewound.executed_nodes).toHaveLength(0);
+      expect(rewound.answers).toEqual({});
+    });
+
+    it('should throw when no steps have been taken', () => {
+      const session = engine.startSession();
+      expect(() => engine.goBack(session)).toThrow(FlowEngineError);
+    });
+
+    it('should persist the rewound state', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'yes');
+
+      engine.goBack(session);
+
+      expect(StorageService.loadSessionState()?.current_node_id).toBe('q1');
+    });
+  });
+
+  describe('rewindTo', () => {
+    it('should rewind several steps and keep earlier responses', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'yes');
+      session = await engine.processResponse(session, true);
+
+      const rewound = engine.rewindTo(session, 's1');
+
+      expect(rewound.current_node_id).toBe('s1');
+      expect(rewound.events.map(e => e.node_id)).toEqual(['q1']);
+      expect(rewound.answers).toEqual({ q1: 'yes' });
+    });
+
+    it('should record the rewind in the audit trail', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'yes');
+      session = await engine.processResponse(session, true);
+
+      const rewound = engine.rewindTo(session, 'q1');
+
+      expect(rewound.rewinds).toHaveLength(1);
+      expect(rewound.rewinds![0].from_node_id).toBe('m1');
+      expect(rewound.rewinds![0].to_node_id).toBe('q1');
+      expect(rewound.rewinds![0].discarded_events.map(e => e.node_id)).toEqual(['q1', 's1']);
+    });
+
+    it('should reject nodes that were not visited', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'yes');
+
+      expect(() => engine.rewindTo(session, 'm1')).toThrow(FlowEngineError);
+    });
+
+    it('should reject sessions that have ended', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'no');
+      session = await engine.processResponse(session, 11.5);
+
+      expect(session.completed).toBe(true);
+      expect(() => engine.rewindTo(session, 'q1')).toThrow(FlowEngineError);
+    });
+
+    it('should produce the same path as answering correctly the first time', async () => {
+      let direct = engine.startSession();
+      direct = await engine.processResponse(direct, 'no');
+      direct = await engine.processResponse(direct, 12.4);
+
+      let corrected = engine.startSession();
+      corrected = await engine.processResponse(corrected, 'yes');
+      corrected = await engine.processResponse(corrected, true);
+      corrected = engine.rewindTo(corrected, 'q1');
+      corrected = await engine.processResponse(corrected, 'no');
+      corrected = await engine.processResponse(corrected, 12.4);
+
+      expect(pathOf(corrected.events)).toEqual(pathOf(direct.events));
+      expect(corrected.terminal_node_id).toBe(direct.terminal_node_id);
+      expect(corrected.answers).toEqual(direct.answers);
+      expect(corrected.measurements).toEqual(direct.measurements);
+      expect(corrected.rewinds).toHaveLength(1);
+    });
+
+    it('should carry the audit trail into the session summary', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'yes');
+      session = engine.goBack(session);
+      session = await engine.processResponse(session, 'no');
+      session = await engine.processResponse(session, 11.5);
+
+      const summary = FlowEngine.getHistory().find(s => s.session_id === session.session_id);
+
+      expect(summary?.rewinds).toHaveLength(1);
+      expect(summary?.rewinds![0].discarded_events[0].value).toBe('yes');
+    });
+  });
+  describe('loop limits', () => {
+    const retryFlow: RawFlow = {
+      ...testFlow,
+      flowId: 'engine_retry_flow',
+      startNode: 'm1',
+      nodes: {
+        m1: {
+          type: 'MEASURE',
+          text: 'Measure battery voltage.',
+          unit: 'volts',
+          validRange: { min: 0, max: 15 },
+          branches: [
+            { condition: '< 5', next: 'retry' },
+            { condition: '>= 5', next: 't_ok' },
+          ],
+          loop: { maxIterations: 2, onExhausted: 't_low' },
+        },
+        retry: {
+          type: 'SAFETY',
+          text: 'Reading looks wrong. Check the probe contacts and measure again.',
+          next: 'm1',
+        },
+        t_low: testFlow.nodes.t_low,
+        t_ok: testFlow.nodes.t_ok,
+      },
+    };
+
+    it('should allow re-entering a loop node up to maxIterations', async () => {
+      const retryEngine = FlowEngine.createUnsafe(retryFlow);
+      let session = retryEngine.startSession();
+      session = await retryEngine.processResponse(session, 1);
+      session = await retryEngine.processResponse(session, true);
+
+      expect(session.current_node_id).toBe('m1');
+
+      session = await retryEngine.processResponse(session, 12.4);
+      expect(session.terminal_node_id).toBe('t_ok');
+    });
+
+    it('should route to onExhausted once the limit is spent', async () => {
+      const retryEngine = FlowEngine.createUnsafe(retryFlow);
+      let session = retryEngine.startSession();
+      session = await retryEngine.processResponse(session, 1);
+      session = await retryEngine.processResponse(session, true);
+      session = await retryEngine.processResponse(session, 2);
+      session = await retryEngine.processResponse(session, true);
+
+      expect(session.completed).toBe(true);
+      expect(session.terminal_node_id).toBe('t_low');
+    });
+
+    it('should count visits from the rewound path', async () => {
+      const retryEngine = FlowEngine.createUnsafe(retryFlow);
+      let session = retryEngine.startSession();
+      session = await retryEngine.processResponse(session, 1);
+      session = await retryEngine.processResponse(session, true);
+      session = retryEngine.rewindTo(session, 'm1');
+      session = await retryEngine.processResponse(session, 1);
+      session = await retryEngine.processResponse(session, true);
+
+      expect(session.current_node_id).toBe('m1');
+    });
+  });
+
+  describe('resumeStoredSession', () => {
+    // v1.1 renames the shore power question and its safety step
+    const renamed: Record<string, string> = { q1: 'q_shore', s1: 's_disconnect' };
+    const flowV11: RawFlow = {
+      ...testFlow,
+      flowVersion: '1.1',
+      startNode: 'q_shore',
+      nodes: {
+        q_shore: { ...testFlow.nodes.q1, answers: { yes: 's_disconnect', no: 'm1' } },
+        s_disconnect: testFlow.nodes.s1,
+        m1: testFlow.nodes.m1,
+        t_low: testFlow.nodes.t_low,
+        t_ok: testFlow.nodes.t_ok,
+      },
+    };
+
+    const registration = async (flow: RawFlow): Promise<FlowRegistration> => ({
+      flow: flow as unknown as FlowDefinition,
+      flowId: flow.flowId,
+      flowVersion: flow.flowVersion,
+      title: 'Engine Test',
+      description: '',
+      vertical: 'RV',
+      checksum: await FlowChecksumValidator.computeFlowHash(flow),
+    });
+
+    const startOnV10 = async (): Promise<void> => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'yes');
+      FlowValidator.clearRegistry();
+    };
+
+    beforeEach(async () => {
+      FlowRegistry.register(await registration(flowV11));
+    });
+
+    afterEach(() => {
+      FlowRegistry.reset();
+    });
+
+    it('should resume on the version the session started on', async () => {
+      FlowRegistry.register(await registration(testFlow));
+      await startOnV10();
+
+      const resumed = await FlowEngine.resumeStoredSession();
+
+      expect(resumed?.session.flow_version).toBe('1.0');
+      expect(resumed?.session.current_node_id).toBe('s1');
+      expect(resumed?.engine?.getCurrentNode(resumed.session).type).toBe('SAFETY');
+    });
+
+    it('should resume while the same flow is still loaded', async () => {
+      FlowRegistry.register(await registration(testFlow));
+      const session = await engine.processResponse(engine.startSession(), 'yes');
+
+      const resumed = await FlowEngine.resumeStoredSession(session.session_id);
+
+      expect(resumed?.session.current_node_id).toBe('s1');
+      expect(() => FlowEngine.createUnsafe(flowV11)).not.toThrow();
+    });
+
+    it('should migrate node ids when the old version is gone', async () => {
+      FlowRegistry.registerMigration({
+        flowId: testFlow.flowId,
+        fromVersion: '1.0',
+        toVersion: '1.1',
+        migrate: () => ({ action: 'migrate', node_map: renamed }),
+      });
+      await startOnV10();
+
+      const resumed = await FlowEngine.resumeStoredSession();
+      const session = resumed!.session;
+
+      expect(session.stopped).toBe(false);
+      expect(session.flow_version).toBe('1.1');
+      expect(session.migrated_from_version).toBe('1.0');
+      expect(session.current_node_id).toBe('s_disconnect');
+      expect(session.answers).toEqual({ q_shore: 'yes' });
+      expect(StorageService.loadSessionState()?.flow_version).toBe('1.1');
+
+      const next = await resumed!.engine!.processResponse(session, true);
+      expect(next.current_node_id).toBe('m1');
+    });
+
+    it('should stop the session when no migration is registered', async () => {
+      await startOnV10();
+
+      const resumed = await FlowEngine.resumeStoredSession();
+
+      expect(resumed?.engine).toBeNull();
+      expect(resumed?.session.stopped).toBe(true);
+      expect(resumed?.session.stop_code).toBe('flow_unavailable');
+      expect(resumed?.session.stop_reason).toBe(
+        'Flow version 1.0 is no longer available and has no migration to v1.1'
+      );
+      expect(resumed?.session.partial_artifact?.flow_version).toBe('1.0');
+      expect(FlowEngine.getHistory()[0].artifact?.stop_reason).toBe(resumed?.session.stop_reason);
+    });
+
+    it('should stop the session when its flow is no longer registered', async () => {
+      await startOnV10();
+      FlowRegistry.reset();
+
+      const resumed = await FlowEngine.resumeStoredSession();
+      const summary = FlowEngine.getHistory()[0];
+
+      expect(resumed?.session.stopped).toBe(true);
+      expect(resumed?.session.stop_code).toBe('flow_unavailable');
+      expect(resumed?.session.stop_reason).toBe('Flow "engine_test_flow" v1.0 is no longer available');
+      expect(summary.flow_version).toBe('1.0');
+      expect(summary.artifact?.flow_version).toBe('1.0');
+      expect(FlowEngine.listOpenSessions()).toEqual([]);
+    });
+
+    it('should stop the session when the migration declines it', async () => {
+      FlowRegistry.registerMigration({
+        flowId: testFlow.flowId,
+        fromVersion: '1.0',
+        toVersion: '1.1',
+        migrate: () => ({ action: 'stop', stop_reason: 'Safety steps changed; please start again' }),
+      });
+      await startOnV10();
+
+      const resumed = await FlowEngine.resumeStoredSession();
+
+      expect(resumed?.session.stopped).toBe(true);
+      expect(resumed?.session.stop_reason).toBe('Safety steps changed; please start again');
+    });
+
+    it('should stop the session when mapped nodes do not exist', async () => {
+      FlowRegistry.registerMigration({
+        flowId: testFlow.flowId,
+        fromVersion: '1.0',
+        toVersion: '1.1',
+        migrate: () => ({ action: 'migrate', node_map: { q1: 'q_shore' } }),
+      });
+      await startOnV10();
+
+      const resumed = await FlowEngine.resumeStoredSession();
+
+      expect(resumed?.session.stopped).toBe(true);
+      expect(resumed?.session.stop_reason).toContain('node "s1" does not exist');
+      expect(resumed?.session.flow_version).toBe('1.0');
+    });
+
+    it('should not resume a session from another version of the flow', async () => {
+      await startOnV10();
+      const v11Engine = FlowEngine.createUnsafe(flowV11);
+
+      expect(v11Engine.resumeSession()).toBeNull();
+    });
+  });
+
+  describe('concurrent sessions', () => {
+    it('should keep each session in its own slot', async () => {
+      let first = engine.startSession();
+      first = await engine.processResponse(first, 'yes');
+      const second = engine.startSession();
+
+      expect(StorageService.loadSessionState(first.session_id)?.current_node_id).toBe('s1');
+      expect(StorageService.loadSessionState(second.session_id)?.current_node_id).toBe('q1');
+      expect(FlowEngine.listOpenSessions().map(s => s.session_id)).toEqual([
+        second.session_id,
+        first.session_id,
+      ]);
+    });
+
+    it('should list progress and drop sessions once they end', async () => {
+      let first = engine.startSession();
+      first = await engine.processResponse(first, 'no');
+      const second = engine.startSession();
+
+      const listed = FlowEngine.listOpenSessions().find(s => s.session_id === first.session_id);
+      expect(listed).toMatchObject({ flow_id: 'engine_test_flow', current_node_id: 'm1', step_count: 1 });
+
+      await engine.processResponse(first, 11);
+      expect(FlowEngine.listOpenSessions().map(s => s.session_id)).toEqual([second.session_id]);
+      expect(StorageService.loadSessionState(first.session_id)).toBeNull();
+    });
+
+    it('should resume a paused session by id', async () => {
+      let paused = engine.startSession();
+      paused = await engine.processResponse(paused, 'yes');
+      engine.startSession();
+      FlowValidator.clearRegistry();
+      FlowRegistry.register({
+        flow: testFlow as unknown as FlowDefinition,
+        flowId: testFlow.flowId,
+        flowVersion: testFlow.flowVersion,
+        title: 'Engine Test',
+        description: '',
+        vertical: 'RV',
+        checksum: await FlowChecksumValidator.computeFlowHash(testFlow),
+      });
+
+      try {
+        const resumed = await FlowEngine.resumeStoredSession(paused.session_id);
+
+        expect(resumed?.session.session_id).toBe(paused.session_id);
+        expect(resumed?.session.current_node_id).toBe('s1');
+        expect(engine.resumeSession(paused.session_id)?.session_id).toBe(paused.session_id);
+      } finally {
+        FlowRegistry.reset();
+      }
+    });
+
+    it('should abandon sessions idle for longer than the policy allows', () => {
+      const idle = engine.startSession();
+      const monthLater = Date.now() + 31 * 24 * 60 * 60 * 1000;
+      jest.spyOn(Date, 'now').mockReturnValue(monthLater);
+
+      expect(FlowEngine.listOpenSessions()).toEqual([]);
+      const summary = FlowEngine.getHistory().find(s => s.session_id === idle.session_id);
+      expect(summary?.stopped).toBe(true);
+      expect(summary?.artifact?.stop_reason).toBe('Abandoned after 30 days without activity');
+    });
+
+    it('should abandon the oldest session beyond the open session limit', () => {
+      const environment: FlowEngineEnvironment = {
+        storage: StorageService,
+        identity: RigIdentityService,
+        finalizer: ServiceContainer.createFinalizationService(),
+        abandonment: { maxIdleMs: Infinity, maxOpenSessions: 2 },
+      };
+      FlowValidator.clearRegistry();
+      const limited = FlowEngine.createUnsafe(testFlow, environment);
+
+      const oldest = limited.startSession();
+      const middle = limited.startSession();
+      const newest = limited.startSession();
+
+      expect(FlowEngine.listOpenSessions(environment).map(s => s.session_id)).toEqual([
+        newest.session_id,
+        middle.session_id,
+      ]);
+      expect(FlowEngine.getHistory().find(s => s.session_id === oldest.session_id)?.stopped).toBe(true);
+    });
+
+    it('should move a session saved in the old single slot into the index', () => {
+      const legacy = { ...engine.startSession(), session_id: 'legacy_session' };
+      StorageService.clearAll();
+      ServiceContainer.getStore().set('session_state', JSON.stringify(legacy));
+
+      expect(FlowEngine.listOpenSessions().map(s => s.session_id)).toEqual(['legacy_session']);
+      expect(StorageService.loadSessionState('legacy_session')?.flow_id).toBe('engine_test_flow');
+    });
+  });
+
+  describe('stopping', () => {
+    const startFlow1 = () => {
+      FlowValidator.clearRegistry();
+      engine = FlowEngine.createUnsafe(
+        FlowRegistry.get('flow_1_no_power_inside_rv').flow as unknown as RawFlow
+      );
+      return engine.startSession();
+    };
+
+    it('should record a STOP event with the reason code', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'yes');
+      session = engine.stopSession(session);
+      const summary = FlowEngine.getHistory().find(s => s.session_id === session.session_id)!;
+
+      expect(pathOf(session.events).pop()).toEqual({ node_id: 's1', type: 'STOP', value: 'user_abort' });
+      expect(session.stop_code).toBe('user_abort');
+      expect(session.stop_reason).toBe('User stopped');
+      expect(summary.stopped).toBe(true);
+      expect(summary.stop_code).toBe('user_abort');
+    });
+
+    it('should give a safety stop the hazard outcome and a scored confidence', async () => {
+      let session = startFlow1();
+      session = await engine.processResponse(session, 'yes');
+      session = engine.stopSession(session, 'safety_hazard');
+
+      expect(session.stop_node_id).toBe('safety_electrical_hazard_check');
+      expect(session.stop_reason).toBe('Safety hazard reported');
+      expect(session.partial_artifact?.confidence_level).toBe('Could not identify a clear cause');
+      expect(session.partial_artifact?.explanation).toMatch(/^Do not continue/);
+    });
+
+    it('should stop at a terminal marked severity stop', async () => {
+      let session = startFlow1();
+      session = await engine.processResponse(session, 'no');
+      const summary = FlowEngine.getHistory().find(s => s.session_id === session.session_id)!;
+
+      expect(session.current_node_id).toBe('terminal_capability_declined');
+      expect(session.completed).toBe(true);
+      expect(session.stopped).toBe(true);
+      expect(session.stop_code).toBe('capability_declined');
+      expect(pathOf(session.events).pop()).toEqual({
+        node_id: 'terminal_capability_declined',
+        type: 'STOP',
+        value: 'capability_declined',
+      });
+      expect(summary.stop_code).toBe('capability_declined');
+    });
+
+    it('should not mark ordinary terminals as stopped', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'no');
+      session = await engine.processResponse(session, '11.5');
+
+      expect(session.completed).toBe(true);
+      expect(session.stopped).toBe(false);
+      expect(session.stop_code).toBeUndefined();
+    });
+  });
+
+  describe('artifact finalization', () => {
+    const completeLowVoltage = async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'no');
+      return engine.processResponse(session, 11.2);
+    };
+
+    it('should build the artifact from the terminal template', async () => {
+      const session = await completeLowVoltage();
+      const artifact = session.artifact!;
+
+      expect(artifact.artifact_id).toBe(session.artifact_id);
+      expect(artifact.vertical_id).toBe('RV');
+      expect(artifact.stop_reason).toBe('Low voltage');
+      expect(artifact.safety_notes).toEqual(['Test safety note']);
+      expect(artifact.recommendations).toEqual(['Test recommendation']);
+      expect(artifact.confidence_level).toBeDefined();
+      expect(artifact.explanation).toBeDefined();
+    });
+
+    it('should hash the artifact over its canonical form', async () => {
+      const { artifact } = await completeLowVoltage();
+
+      const expected = await CryptoService.sha256(
+        JsonCanonicalizer.canonicalize({ ...artifact, artifact_hash: '' })
+      );
+      expect(artifact!.artifact_hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(artifact!.artifact_hash).toBe(expected);
+    });
+
+    it('should keep the canonical JSON with the summary for byte-verified export', async () => {
+      const session = await completeLowVoltage();
+      const summary = FlowEngine.getHistory().find(s => s.session_id === session.session_id)!;
+      const service = ServiceContainer.createFinalizationService();
+
+      expect(summary.artifact_canonical_json).toBe(JSON.stringify(session.artifact));
+      expect(summary.artifact_sha256).toBe(session.artifact_sha256);
+      await expect(service.exportSummaryArtifact(summary)).resolves.toBe(summary.artifact_canonical_json);
+
+      const tampered = { ...summary, artifact: { ...summary.artifact!, notes: 'edited' } };
+      await expect(service.exportSummaryArtifact(tampered)).rejects.toThrow(DeterminismError);
+    });
+
+    it('should persist canonical JSON that verifies against its stored hash', async () => {
+      const session = await completeLowVoltage();
+      const summary = FlowEngine.getHistory().find(s => s.session_id === session.session_id)!;
+
+      expect(summary.artifact_canonical_json).toBe(JsonCanonicalizer.canonicalize(summary.artifact));
+      await expect(CryptoService.sha256(summary.artifact_canonical_json!)).resolves.toBe(summary.artifact_sha256);
+    });
+
+    it('should fill mapped fields from the session instead of the template', async () => {
+      const withFields = (stopReason: string) => ({
+        ...terminalArtifact(stopReason),
+        shore_power: 'Connected',
+        battery_voltage: null,
+      });
+      const mappedFlow: RawFlow = {
+        ...testFlow,
+        nodes: {
+          ...testFlow.nodes,
+          t_low: { ...testFlow.nodes.t_low, artifact: withFields('Low voltage') },
+          t_ok: { ...testFlow.nodes.t_ok, artifact: withFields('Voltage OK') },
+        },
+        fieldMappings: [
+          {
+            artifact_field: 'shore_power',
+            source_node_id: 'q1',
+            field_type: 'enum',
+            values: { yes: 'Connected', no: 'Not connected' },
+          },
+          { artifact_field: 'battery_voltage', source_node_id: 'm1', field_type: 'number' },
+          { artifact_field: 'inverter_mode', source_node_id: 'q1', field_type: 'string' },
+        ],
+      };
+      FlowValidator.clearRegistry();
+      engine = FlowEngine.createUnsafe(mappedFlow);
+
+      const { artifact } = await completeLowVoltage();
+
+      expect(artifact!.shore_power).toBe('Not connected');
+      expect(artifact!.battery_voltage).toBe(11.2);
+      expect(artifact).not.toHaveProperty('inverter_mode');
+    });
+  });
+
+  describe('cross-system follow-up', () => {
+    it('should record the follow-up flow on the session and its summary', async () => {
+      FlowValidator.clearRegistry();
+      engine = FlowEngine.createUnsafe(
+        FlowRegistry.get('flow_4_slides_leveling_issue').flow as unknown as RawFlow
+      );
+
+      let session = engine.startSession();
+      for (const answer of ['yes', 'ok', 'slide_outs', 'slide_moves_unevenly_or_crooked', 'yes']) {
+        session = await engine.processResponse(session, answer);
+      }
+      const summary = FlowEngine.getHistory().find(s => s.session_id === session.session_id)!;
+
+      expect(session.current_node_id).toBe('terminal_slide_sync_issue');
+      expect(session.follow_up).toEqual({
+        rule_id: 'slides_not_level',
+        flow_id: 'flow_4_slides_leveling_issue',
+        recommendation: 'Run the Leveling diagnostic to verify RV is level',
+      });
+      expect(summary.follow_up).toEqual(session.follow_up);
+    });
+  });
+
+  describe('measurement interpretation', () => {
+    it('should add interpreted readings to the finalized artifact', async () => {
+      FlowValidator.clearRegistry();
+      engine = FlowEngine.createUnsafe(
+        FlowRegistry.get('flow_1_no_power_inside_rv').flow as unknown as RawFlow
+      );
+
+      let session = engine.startSession();
+      for (const response of ['yes', 'ok', 'yes', 'yes', 'solar', 'yes', 12.7, 'no']) {
+        session = await engine.processResponse(session, response);
+      }
+      const { artifact } = session;
+
+      expect(session.current_node_id).toBe('terminal_battery_connection_issue_observed');
+      expect(artifact!.measurement_interpretations).toEqual([
+        {
+          node_id: 'measure_battery_voltage',
+          value: 12.7,
+          label: 'Normal',
+          explanation: 'Battery voltage (12.7V) appears normal.',
+        },
+      ]);
+      expect(artifact!.explanation).toContain('Battery voltage (12.7V) appears normal.');
+      expect(artifact!.evidence!.findings.map(f => f.node_id)).toEqual([
+        'system_scope_12v_check',
+        'ac_cross_check',
+        'battery_connection_observation',
+      ]);
+      expect(artifact!.differential![0].description).toBe(artifact!.primary_finding);
+    });
+
+    it('should leave the field out when nothing was interpreted', async () => {
+      let session = engine.startSession();
+      session = await engine.processResponse(session, 'no');
+      session = await engine.processResponse(session, 11.2);
+
+      expect(session.artifact).not.toHaveProperty('measurement_interpretations');
+    });
+  });
+});
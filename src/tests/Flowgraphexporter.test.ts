@@ -0,0 +1,122 @@
+import { FlowGraphExporter } from '../utils/FlowGraphExporter';
+import { FlowEngine } from '../utils/flowEngine';
+import { FlowValidator, RawFlow } from '../validators/FlowValidator';
+import { StorageService } from '../services/StorageService';
+
+describe('FlowGraphExporter', () => {
+  const artifact = {
+    vertical_id: 'RV',
+    issue: 'Graph Test',
+    flow_id: 'graph_test_flow',
+    flow_version: '1.0',
+    artifact_schema_version: '1.0',
+    stop_reason: 'Complete',
+    last_confirmed_state: 'Complete',
+    safety_notes: [],
+  };
+
+  const flow: RawFlow = {
+    flowId: 'graph_test_flow',
+    flowVersion: '1.0',
+    startNode: 'q1',
+    nodes: {
+      q1: { type: 'QUESTION', text: 'Is "shore" power connected?', answers: { yes: 's1', no: 'm1' } },
+      s1: { type: 'SAFETY', text: 'Disconnect shore power.', next: 'm1' },
+      m1: {
+        type: 'MEASURE',
+        text: 'Battery voltage',
+        unit: 'volts',
+        validRange: { min: 10, max: 15 },
+        branches: [
+          { condition: '< 12', next: 't_low' },
+          { condition: '>= 12', next: 't_ok' },
+        ],
+        loop: { maxIterations: 2, onExhausted: 't_low' },
+      },
+      t_low: { type: 'TERMINAL', result: 'Low voltage', artifact },
+      t_ok: { type: 'TERMINAL', result: 'Voltage OK', artifact },
+    },
+  };
+
+  beforeEach(() => {
+    FlowValidator.clearRegistry();
+    StorageService.clearAll();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const takenEvents = async () => {
+    const engine = FlowEngine.createUnsafe(flow);
+    let session = engine.startSession();
+    session = await engine.processResponse(session, 'yes');
+    session = await engine.processResponse(session, true);
+    session = await engine.processResponse(session, 11.2);
+    return session.events;
+  };
+
+  describe('toMermaid', () => {
+    it('should shape nodes by type', () => {
+      const mermaid = FlowGraphExporter.toMermaid(flow);
+
+      expect(mermaid).toContain('flowchart TD');
+      expect(mermaid).toContain('  q1{"q1<br/>Is #quot;shore#quot; power connected?"}');
+      expect(mermaid).toContain('  s1{{"s1<br/>Disconnect shore power."}}');
+      expect(mermaid).toContain('  m1[/"m1<br/>Battery voltage (volts)"/]');
+      expect(mermaid).toContain('  t_low(["t_low<br/>Low voltage"])');
+    });
+
+    it('should label edges with answer keys and conditions', () => {
+      const mermaid = FlowGraphExporter.toMermaid(flow);
+
+      expect(mermaid).toContain('  q1 -->|"yes"| s1');
+      expect(mermaid).toContain('  s1 --> m1');
+      expect(mermaid).toContain('  m1 -->|"#lt; 12"| t_low');
+      expect(mermaid).toContain('  m1 -.->|"after 2 visits"| t_low');
+    });
+
+    it('should highlight the path a session took', async () => {
+      const mermaid = FlowGraphExporter.toMermaid(flow, { highlight: await takenEvents() });
+
+      expect(mermaid).toContain('  class q1,s1,m1,t_low taken');
+      // Edges in declaration order: q1-yes, q1-no, s1, m1 < 12, m1 >= 12, m1 exhausted
+      expect(mermaid).toContain('  linkStyle 0,2,3 stroke:');
+    });
+
+    it('should omit the overlay without events', () => {
+      expect(FlowGraphExporter.toMermaid(flow)).not.toContain('classDef');
+    });
+  });
+
+  describe('toDot', () => {
+    it('should render shapes, labels and loop edges', () => {
+      const dot = FlowGraphExporter.toDot(flow);
+
+      expect(dot).toMatch(/^digraph "graph_test_flow" \{/);
+      expect(dot).toContain('"q1" [label="q1\\nIs \\"shore\\" power connected?", shape=diamond];');
+      expect(dot).toContain('shape=hexagon');
+      expect(dot).toContain('shape=parallelogram');
+      expect(dot).toContain('"t_ok" [label="t_ok\\nVoltage OK", shape=box, style="rounded"];');
+      expect(dot).toContain('"m1" -> "t_low" [label="< 12"];');
+      expect(dot).toContain('"m1" -> "t_low" [label="after 2 visits", style=dashed];');
+    });
+
+    it('should highlight visited nodes and followed edges', async () => {
+      const dot = FlowGraphExporter.toDot(flow, { highlight: await takenEvents() });
+
+      expect(dot).toContain('"m1" -> "t_low" [label="< 12", color="#b45309", penwidth=3];');
+      expect(dot).toContain('"m1" -> "t_low" [label="after 2 visits", style=dashed];');
+      expect(dot).toContain('"t_low" [label="t_low\\nLow voltage", shape=box, fillcolor="#fde68a"');
+      expect(dot).not.toMatch(/"t_ok" \[[^\]]*fillcolor/);
+    });
+  });
+
+  it('should truncate long node text', () => {
+    const mermaid = FlowGraphExporter.toMermaid(flow, { maxLabelLength: 10 });
+
+    expect(mermaid).toContain('q1<br/>Is #quot;shore…');
+  });
+});
@@ -0,0 +1,107 @@
+import { FlowLinter } from '../cli/FlowLinter';
+import { FlowRegistry } from '../services/FlowRegistry';
+import { ArtifactGenerator, artifactGenerator } from '../utils/ArtifactGenerator';
+import { RawFlow } from '../validators/FlowValidator';
+
+describe('FlowLinter', () => {
+  const shipped = (flowId: string) => FlowRegistry.get(flowId).flow as unknown as RawFlow;
+  const codes = (flow: RawFlow, generator?: ArtifactGenerator) =>
+    FlowLinter.lint(flow, generator).map(d => [d.severity, d.path, d.code]);
+
+  afterEach(() => {
+    FlowRegistry.reset();
+    jest.restoreAllMocks();
+  });
+
+  it('should accept every registered flow with its generator data', () => {
+    for (const registration of FlowRegistry.list()) {
+      const errors = FlowLinter.lint(registration.flow as unknown as RawFlow).filter(d => d.severity === 'error');
+      expect([registration.flowId, errors]).toEqual([registration.flowId, []]);
+    }
+  });
+
+  describe('classification', () => {
+    const nextVersion = { ...shipped('flow_2_water_system_issue'), flowVersion: '2.1' };
+    const classificationCodes = (flow: RawFlow) =>
+      codes(flow).filter(([, , code]) => code === 'missing_classification');
+
+    it('should reject a registered flow version with no classification document', () => {
+      const registration = FlowRegistry.get('flow_2_water_system_issue');
+      FlowRegistry.register({ ...registration, flowVersion: '2.1', flow: nextVersion as never });
+
+      expect(classificationCodes(nextVersion)).toEqual([['error', '/flowVersion', 'missing_classification']]);
+    });
+
+    it('should only warn for an unregistered version', () => {
+      expect(classificationCodes(nextVersion)).toEqual([['warning', '/flowVersion', 'missing_classification']]);
+    });
+
+    it('should leave a flow without a version to the structural lint', () => {
+      const { flowVersion: _omitted, ...unversioned } = shipped('flow_2_water_system_issue');
+      const diagnostics = FlowLinter.lint(unversioned as RawFlow);
+
+      expect(diagnostics.filter(d => d.code === 'missing_classification')).toEqual([]);
+      expect(diagnostics.some(d => d.path === '/flowVersion')).toBe(true);
+    });
+
+    it('should report classification problems under their own source', () => {
+      const flow = shipped('flow_2_water_system_issue');
+      const generator = new ArtifactGenerator(undefined, [
+        {
+          flow_id: flow.flowId,
+          flow_version: flow.flowVersion,
+          nodes: {
+            removed_node: [{
+              tier: 2,
+              condition: { value: 'no' },
+              description: 'Removed',
+              finding_key: 'removed',
+              subsystem: 'water_pump',
+              recommendation: 'None',
+            }],
+          },
+        },
+      ]);
+
+      expect(codes(flow, generator).filter(([, path]) => path.startsWith('#classification'))).toEqual([
+        ['error', '#classification/nodes/removed_node', 'unknown_node'],
+      ]);
+    });
+  });
+
+  describe('cross-system rules', () => {
+    const rule = (ruleId: string, flowId: string, answers: Record<string, string[]>) => ({
+      rule_id: ruleId,
+      match: { flow_id: flowId, finding_keys: ['pump_no_power'], answers },
+      follow_up_flow_id: 'flow_1_no_power_inside_rv',
+      recommendation: 'Run the electrical diagnostic',
+    });
+
+    it('should report rules for this flow that reference missing nodes', () => {
+      const generator = new ArtifactGenerator({
+        rules_version: 'test',
+        rules: [
+          rule('propane_rule', 'flow_3_propane_system_issue', { removed_node: ['yes'] }),
+          rule('water_rule', 'flow_2_water_system_issue', { removed_node: ['yes'] }),
+        ],
+      });
+
+      expect(codes(shipped('flow_2_water_system_issue'), generator)).toEqual([
+        ['error', '#cross-system-rules/rules/1/match/answers/removed_node', 'unknown_node'],
+      ]);
+    });
+  });
+
+  describe('explanation templates', () => {
+    it('should report template variables this flow can never set', () => {
+      jest.spyOn(artifactGenerator, 'getExplanationTemplates').mockReturnValue({
+        low_battery: 'Battery at {measure.measure_battery_voltage}, pump {answer.pump_sound_check}.',
+        pump_no_power: 'Pump silent at {measure.measure_battery_voltage}.',
+      });
+
+      expect(codes(shipped('flow_1_no_power_inside_rv'))).toEqual([
+        ['error', '#explanation-templates/low_battery', 'unavailable_variable'],
+      ]);
+    });
+  });
+});
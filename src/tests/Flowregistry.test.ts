@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { FlowRegistry, FlowRegistryError, FlowRegistration } from '../services/FlowRegistry';
+import { FlowChecksumValidator } from '../validators/Flowchecksumvalidator';
+import { CryptoService } from '../utils/CryptoProvider';
+import { ExpoCryptoProvider } from '../utils/ExpoCryptoProvider';
+import { NodeCryptoProvider } from '../utils/NodeCryptoProvider';
+import { FlowDefinition } from '../types';
+
+describe('FlowRegistry', () => {
+  const versionOf = (base: FlowRegistration, flowVersion: string): FlowRegistration => ({
+    ...base,
+    flow: { ...base.flow, flowVersion } as FlowDefinition,
+    flowVersion,
+    checksum: flowVersion.replace('.', '').padEnd(64, '0'),
+  });
+
+  beforeEach(() => {
+    FlowRegistry.reset();
+  });
+
+  afterAll(() => {
+    FlowRegistry.reset();
+  });
+
+  it('should register the shipped flows', () => {
+    const flows = FlowRegistry.list();
+
+    expect(flows.map(f => f.flowId)).toEqual([
+      'flow_1_no_power_inside_rv',
+      'flow_2_water_system_issue',
+      'flow_3_propane_system_issue',
+      'flow_4_slides_leveling_issue',
+    ]);
+    for (const entry of flows) {
+      expect(entry.flow.flowId).toBe(entry.flowId);
+      expect(entry.flow.flowVersion).toBe(entry.flowVersion);
+      expect(entry.title).not.toBe('');
+      expect(entry.vertical).toBe('RV');
+      expect(entry.checksum).toMatch(/^[a-f0-9]{64}$/);
+    }
+  });
+
+  it('should hold checksums that match the shipped flows', async () => {
+    // The jest expo-crypto mock is not a real SHA-256
+    CryptoService.configure(NodeCryptoProvider);
+    try {
+      for (const entry of FlowRegistry.list()) {
+        expect(await FlowChecksumValidator.computeFlowHash(entry.flow)).toBe(entry.checksum);
+      }
+    } finally {
+      CryptoService.configure(ExpoCryptoProvider);
+    }
+  });
+
+  it('should hold the checksum from the .sha256 file beside each flow', () => {
+    const flowsDir = path.join(__dirname, '..', 'flows');
+    const shipped = fs.readdirSync(flowsDir)
+      .filter(f => f.endsWith('.json'))
+      .map(f => ({
+        flow: JSON.parse(fs.readFileSync(path.join(flowsDir, f), 'utf-8')),
+        checksum: fs.readFileSync(path.join(flowsDir, `${f}.sha256`), 'utf-8').trim(),
+      }));
+
+    for (const entry of FlowRegistry.list()) {
+      const source = shipped.find(s => isDeepStrictEqual(s.flow, entry.flow));
+      expect(source).toBeDefined();
+      expect([entry.flowId, entry.checksum]).toEqual([entry.flowId, source!.checksum]);
+    }
+  });
+
+  it('should keep several versions and resolve the exact one', () => {
+    const base = FlowRegistry.get('flow_3_propane_system_issue');
+    FlowRegistry.register(versionOf(base, '2.10'));
+    FlowRegistry.register(versionOf(base, '2.9'));
+
+    expect(FlowRegistry.getVersions(base.flowId)).toEqual(['2.0', '2.9', '2.10']);
+    expect(FlowRegistry.get(base.flowId).flowVersion).toBe('2.10');
+    expect(FlowRegistry.get(base.flowId, '2.0')).toBe(base);
+    expect(FlowRegistry.getChecksum(base.flowId, '2.9')).toBe(versionOf(base, '2.9').checksum);
+    expect(FlowRegistry.list().find(f => f.flowId === base.flowId)?.flowVersion).toBe('2.10');
+  });
+
+  it('should replace a re-registered version', () => {
+    const base = FlowRegistry.get('flow_1_no_power_inside_rv');
+    FlowRegistry.register({ ...base, title: 'Renamed' });
+
+    expect(FlowRegistry.getVersions(base.flowId)).toEqual(['2.0']);
+    expect(FlowRegistry.getDisplayName(base.flowId)).toBe('Renamed');
+  });
+
+  it('should report unknown flows and versions', () => {
+    expect(FlowRegistry.find('missing_flow')).toBeUndefined();
+    expect(FlowRegistry.has('flow_1_no_power_inside_rv', '1.0')).toBe(false);
+    expect(FlowRegistry.getDisplayName('missing_flow')).toBe('missing_flow');
+    expect(() => FlowRegistry.get('flow_1_no_power_inside_rv', '1.0')).toThrow(FlowRegistryError);
+    expect(() => FlowRegistry.get('flow_1_no_power_inside_rv', '1.0')).toThrow(
+      'Flow "flow_1_no_power_inside_rv" v1.0 is not registered'
+    );
+  });
+
+  it('should reject a registration whose metadata disagrees with the flow', () => {
+    const base = FlowRegistry.get('flow_2_water_system_issue');
+
+    expect(() => FlowRegistry.register({ ...base, flowVersion: '3.0' })).toThrow(FlowRegistryError);
+  });
+
+  it('should only accept migrations to a registered version', () => {
+    const migration = {
+      flowId: 'flow_1_no_power_inside_rv',
+      fromVersion: '1.0',
+      toVersion: '3.0',
+      migrate: () => ({ action: 'stop' as const, stop_reason: 'Flow updated' }),
+    };
+
+    expect(() => FlowRegistry.registerMigration(migration)).toThrow(FlowRegistryError);
+
+    FlowRegistry.registerMigration({ ...migration, toVersion: '2.0' });
+    expect(FlowRegistry.findMigration('flow_1_no_power_inside_rv', '1.0')?.toVersion).toBe('2.0');
+    expect(FlowRegistry.findMigration('flow_1_no_power_inside_rv', '2.0')).toBeUndefined();
+  });
+});
@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { FlowScriptRunner, FlowScriptError } from '../cli/FlowScriptRunner';
+import { StorageService } from '../services/StorageService';
+import { FlowValidationError, FlowValidator } from '../validators/FlowValidator';
+import noPowerFlow from '../flows/flow_1_no_power_inside_rv_v2.json';
+
+describe('FlowScriptRunner', () => {
+  beforeEach(() => {
+    FlowValidator.clearRegistry();
+    StorageService.clearAll();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should run a flow to its terminal from scripted responses', async () => {
+    const script = FlowScriptRunner.parseScript({
+      responses: {
+        capability_gate: 'yes',
+        system_scope_12v_check: 'yes',
+        ac_cross_check: 'no',
+        power_source_context: 'solar',
+        voltage_access_check: 'yes',
+        measure_battery_voltage: 11.4,
+        charging_response_check: 'no',
+      },
+    });
+
+    const { session, summary } = await FlowScriptRunner.run(noPowerFlow, script);
+
+    expect(session.completed).toBe(true);
+    expect(summary.terminal_node_id).toBe('terminal_charging_system_not_raising_voltage');
+    expect(summary.rig_identity).toBeTruthy();
+    expect(summary.artifact).toBeDefined();
+  });
+
+  describe('shipped low-voltage example', () => {
+    const runExample = async () => {
+      const example = fs.readFileSync(path.join(__dirname, '../cli/examples/flow_1_low_voltage.yaml'), 'utf-8');
+      return FlowScriptRunner.run(noPowerFlow, FlowScriptRunner.parseScript(parseYaml(example)));
+    };
+
+    it('should score it without a conflict between related subsystems', async () => {
+      const { summary } = await runExample();
+
+      expect(summary.terminal_node_id).toBe('terminal_low_voltage_identified');
+      expect(summary.artifact!.evidence!.penalties).toEqual([
+        { reason: 'not_sure', node_id: 'charging_response_check', weight: -1 },
+      ]);
+    });
+
+    it('should count the battery reading as one finding', async () => {
+      const { summary } = await runExample();
+
+      expect(summary.artifact!.evidence!.findings.map(f => [f.node_id, f.finding_key])).toEqual([
+        ['system_scope_12v_check', 'no_12v_power'],
+        ['measure_battery_voltage', 'voltage_critically_low'],
+      ]);
+    });
+  });
+
+  it('should acknowledge SAFETY nodes automatically', async () => {
+    const script = FlowScriptRunner.parseScript({ responses: { capability_gate: 'yes', system_scope_12v_check: 'no' } });
+
+    const { summary } = await FlowScriptRunner.run(noPowerFlow, script);
+
+    expect(summary.events.map(e => e.type)).toContain('SAFETY');
+    expect(summary.terminal_node_id).toBe('terminal_ac_only_issue_suspected');
+  });
+
+  it('should report the node a script is missing a response for', async () => {
+    const script = FlowScriptRunner.parseScript({ responses: { capability_gate: 'yes' } });
+
+    await expect(FlowScriptRunner.run(noPowerFlow, script)).rejects.toThrow(
+      'Script has no response for QUESTION node "system_scope_12v_check"'
+    );
+  });
+
+  it('should follow a bounded loop until its limit is spent', async () => {
+    const artifact = (stopReason: string) => ({
+      vertical_id: 'RV',
+      issue: 'Retry Test',
+      flow_id: 'retry_test_flow',
+      flow_version: '1.0',
+      artifact_schema_version: '1.0',
+      stop_reason: stopReason,
+      last_confirmed_state: stopReason,
+      safety_notes: [],
+    });
+    const retryFlow = {
+      flowId: 'retry_test_flow',
+      flowVersion: '1.0',
+      startNode: 'm1',
+      nodes: {
+        m1: {
+          type: 'MEASURE',
+          text: 'Measure battery voltage.',
+          unit: 'volts',
+          validRange: { min: 0, max: 15 },
+          branches: [
+            { condition: '< 10', next: 'retry' },
+            { condition: '>= 10', next: 't_ok' },
+          ],
+          loop: { maxIterations: 3, onExhausted: 't_low' },
+        },
+        retry: { type: 'SAFETY', text: 'Check the meter leads and measure again.', next: 'm1' },
+        t_low: { type: 'TERMINAL', result: 'Battery voltage stays low.', artifact: artifact('Low voltage') },
+        t_ok: { type: 'TERMINAL', result: 'Battery voltage is normal.', artifact: artifact('Voltage OK') },
+      },
+    };
+
+    const { session } = await FlowScriptRunner.run(
+      retryFlow,
+      FlowScriptRunner.parseScript({ responses: { m1: 1, retry: true } })
+    );
+
+    expect(session.terminal_node_id).toBe('t_low');
+    expect(session.events.filter(e => e.node_id === 'm1')).toHaveLength(3);
+  });
+
+  it('should reject invalid flows before running', async () => {
+    const broken = { ...noPowerFlow, startNode: 'does_not_exist' };
+
+    await expect(
+      FlowScriptRunner.run(broken, { responses: {} })
+    ).rejects.toThrow(FlowValidationError);
+  });
+
+  it('should reject malformed scripts', () => {
+    expect(() => FlowScriptRunner.parseScript({ answers: {} })).toThrow(FlowScriptError);
+    expect(() => FlowScriptRunner.parseScript({ responses: { q1: ['yes'] } })).toThrow(FlowScriptError);
+  });
+});
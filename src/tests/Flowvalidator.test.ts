@@ -2,7 +2,7 @@ import {
   FlowValidator,
   FlowValidationError,
   ChecksumVerificationError,
-  EnumValidationError,
+  FlowLintError,
   RawFlow,
 } from '../validators/FlowValidator';
 import { FlowChecksumValidator } from '../validators/Flowchecksumvalidator';
@@ -51,17 +51,22 @@ describe('FlowValidator  Validation', () => {
       }).not.toThrow();
     });
 
-    it('should reject duplicate flow IDs', () => {
+    const changedFlow: RawFlow = {
+      ...validFlow,
+      nodes: { ...validFlow.nodes, q1: { ...validFlow.nodes.q1, text: 'Changed question?' } },
+    };
+
+    it('should reject different content under a registered flow ID and version', () => {
       // Register first time
       FlowValidator.validateSync(validFlow);
 
-      // Try to register again
+      // Try to register other content under the same version
       expect(() => {
-        FlowValidator.validateSync(validFlow);
+        FlowValidator.validateSync(changedFlow);
       }).toThrow(FlowValidationError);
 
       try {
-        FlowValidator.validateSync(validFlow);
+        FlowValidator.validateSync(changedFlow);
       } catch (error) {
         expect(error).toBeInstanceOf(FlowValidationError);
         expect((error as Error).message).toContain('Duplicate flow ID');
@@ -69,6 +74,14 @@ describe('FlowValidator  Validation', () => {
       }
     });
 
+    it('should allow reloading the same flow and other versions of its ID', () => {
+      expect(() => {
+        FlowValidator.validateSync(validFlow);
+        FlowValidator.validateSync(JSON.parse(JSON.stringify(validFlow)));
+        FlowValidator.validateSync({ ...changedFlow, flowVersion: '2.0' });
+      }).not.toThrow();
+    });
+
     it('should allow different flow IDs', () => {
       const flow1 = { ...validFlow, flowId: 'flow_1' };
       const flow2 = { ...validFlow, flowId: 'flow_2' };
@@ -85,7 +98,7 @@ describe('FlowValidator  Validation', () => {
 
       // Should not throw after clearing
       expect(() => {
-        FlowValidator.validateSync(validFlow);
+        FlowValidator.validateSync(changedFlow);
       }).not.toThrow();
     });
   });
@@ -130,17 +143,16 @@ describe('FlowValidator  Validation', () => {
 
       expect(() => {
         FlowValidator.validateSync(flowWithInvalidVertical);
-      }).toThrow(EnumValidationError);
-
-      try {
-        FlowValidator.validateSync(flowWithInvalidVertical);
-      } catch (error) {
-        expect(error).toBeInstanceOf(EnumValidationError);
-        const enumError = error as EnumValidationError;
-        expect(enumError.field).toBe('vertical_id');
-        expect(enumError.value).toBe('INVALID_VERTICAL');
-        expect(enumError.allowedValues).toContain('RV');
-      }
+      }).toThrow(FlowLintError);
+
+      expect(FlowValidator.lint(flowWithInvalidVertical)).toContainEqual(
+        expect.objectContaining({
+          severity: 'error',
+          path: '/nodes/t1/artifact/vertical_id',
+          code: 'invalid_enum',
+          message: expect.stringContaining('"INVALID_VERTICAL". Allowed values: RV'),
+        })
+      );
     });
 
     it('should accept valid artifact_schema_version enum value', () => {
@@ -267,7 +279,7 @@ describe('FlowValidator  Validation', () => {
 
       await expect(
         FlowValidator.validate(flowWithInvalidEnum, expectedChecksum)
-      ).rejects.toThrow(EnumValidationError);
+      ).rejects.toThrow('[invalid_enum]');
     });
   });
 
@@ -308,7 +320,7 @@ describe('FlowValidator  Validation', () => {
 
       expect(() => {
         FlowValidator.validateSync(flowWithInvalidEnum);
-      }).toThrow(EnumValidationError);
+      }).toThrow('[invalid_enum]');
     });
   });
 
@@ -317,7 +329,7 @@ describe('FlowValidator  Validation', () => {
       FlowValidator.validateSync(validFlow);
 
       try {
-        FlowValidator.validateSync(validFlow);
+        FlowValidator.validateSync({ ...validFlow, startNode: 't1', nodes: { t1: validFlow.nodes.t1 } });
         fail('Should have thrown');
       } catch (error) {
         const message = (error as Error).message;
@@ -355,4 +367,488 @@ describe('FlowValidator  Validation', () => {
       }
     });
   });
+  describe('MEASURE Branch Coverage', () => {
+    const measureFlow = (
+      branches: { condition: string; next: string }[],
+      validRange = { min: 10, max: 15 }
+    ): RawFlow => ({
+      ...validFlow,
+      flowId: 'test_measure_coverage',
+      startNode: 'm1',
+      nodes: {
+        m1: {
+          type: 'MEASURE',
+          text: 'Measure battery voltage',
+          validRange,
+          branches,
+        },
+        t1: validFlow.nodes.t1,
+        t2: validFlow.nodes.t1,
+      },
+    });
+
+    it('should accept branches that partition validRange', () => {
+      const flow = measureFlow([
+        { condition: '< 11.8', next: 't1' },
+        { condition: '>= 11.8', next: 't2' },
+      ]);
+
+      expect(() => FlowValidator.validateSync(flow)).not.toThrow();
+    });
+
+    it('should report the exact uncovered interval', () => {
+      const flow = measureFlow([
+        { condition: '< 11.8', next: 't1' },
+        { condition: '> 12', next: 't2' },
+      ]);
+
+      expect(() => FlowValidator.validateSync(flow)).toThrow(
+        'no branch matches [11.8, 12]'
+      );
+    });
+
+    it('should report a single uncovered boundary value', () => {
+      const flow = measureFlow([
+        { condition: '< 12', next: 't1' },
+        { condition: '> 12', next: 't2' },
+      ]);
+
+      expect(() => FlowValidator.validateSync(flow)).toThrow('no branch matches 12');
+    });
+
+    it('should only require coverage inside validRange', () => {
+      const flow = measureFlow(
+        [
+          { condition: '< 12', next: 't1' },
+          { condition: '>= 12', next: 't2' },
+        ],
+        { min: 12, max: 15 }
+      );
+
+      expect(() => FlowValidator.validateSync(flow)).not.toThrow();
+    });
+
+    it('should reject overlaps that shadow a later branch', () => {
+      const flow = measureFlow([
+        { condition: '< 12.5', next: 't1' },
+        { condition: '>= 12', next: 't2' },
+      ]);
+
+      expect(() => FlowValidator.validateSync(flow)).toThrow(FlowValidationError);
+      expect(() => FlowValidator.validateSync(flow)).toThrow(
+        'overlaps branch[0] "< 12.5" on [12, 12.5)'
+      );
+    });
+
+    it('should allow overlapping branches that route to the same node', () => {
+      const flow = measureFlow([
+        { condition: '< 12.5', next: 't1' },
+        { condition: '<= 13', next: 't1' },
+        { condition: '> 13', next: 't2' },
+      ]);
+
+      expect(() => FlowValidator.validateSync(flow)).not.toThrow();
+    });
+
+    it('should reject unparseable conditions', () => {
+      const flow = measureFlow([
+        { condition: 'below 12', next: 't1' },
+        { condition: '>= 12', next: 't2' },
+      ]);
+
+      expect(() => FlowValidator.validateSync(flow)).toThrow('invalid condition "below 12"');
+    });
+
+    it('should analyze range and compound conditions', () => {
+      const flow = measureFlow([
+        { condition: '< 11.8 or > 14', next: 't1' },
+        { condition: '[11.8, 14]', next: 't2' },
+      ]);
+
+      expect(() => FlowValidator.validateSync(flow)).not.toThrow();
+    });
+
+    it('should reject literals whose unit differs from the node unit', () => {
+      const flow = measureFlow([
+        { condition: '< 12 psi', next: 't1' },
+        { condition: '>= 12 V', next: 't2' },
+      ]);
+      (flow.nodes.m1 as Record<string, unknown>).unit = 'volts';
+
+      expect(() => FlowValidator.validateSync(flow)).toThrow(
+        'uses unit "psi" but the node measures "volts"'
+      );
+    });
+  });
+  describe('Lint Mode', () => {
+    const brokenFlow = {
+      ...validFlow,
+      flowId: 'test_lint',
+      nodes: {
+        q1: {
+          type: 'QUESTION',
+          text: 'Tank valve open?',
+          answers: { yes: 't1', no: 'missing_node', 'a/b': 'also_missing' },
+        },
+        m1: {
+          type: 'MEASURE',
+          text: 'Battery voltage',
+          validRange: { min: 10, max: 15 },
+          branches: [{ condition: '< 12', next: 't1' }],
+        },
+        t1: validFlow.nodes.t1,
+      },
+    } as RawFlow;
+
+    it('should report every problem with a JSON pointer path', () => {
+      const diagnostics = FlowValidator.lint(brokenFlow);
+      const errors = diagnostics.filter(d => d.severity === 'error');
+
+      expect(errors.map(d => [d.path, d.code])).toEqual([
+        ['/nodes/q1/answers/no', 'unknown_node'],
+        ['/nodes/q1/answers/a~1b', 'unknown_node'],
+        ['/nodes/m1/branches', 'coverage_gap'],
+        ['/nodes/m1', 'unreachable_node'],
+      ]);
+    });
+
+    it('should report warnings without failing validation', () => {
+      const flow = {
+        ...validFlow,
+        flowId: 'test_lint_warnings',
+        nodes: {
+          ...validFlow.nodes,
+          q1: { ...validFlow.nodes.q1, nextNode: 't1' },
+        },
+      } as RawFlow;
+
+      expect(FlowValidator.lint(flow)).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ severity: 'warning', path: '/nodes/q1/nextNode', code: 'unknown_property' }),
+          expect.objectContaining({ severity: 'warning', path: '/nodes/t1/artifact/flow_id', code: 'artifact_mismatch' }),
+        ])
+      );
+      expect(() => FlowValidator.validateSync(flow)).not.toThrow();
+    });
+
+    it('should throw every error at once from validateSync', () => {
+      try {
+        FlowValidator.validateSync(brokenFlow);
+        fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(FlowLintError);
+        expect(error).toBeInstanceOf(FlowValidationError);
+        expect((error as FlowLintError).diagnostics).toHaveLength(4);
+        expect((error as Error).message).toContain('failed validation with 4 error(s)');
+      }
+    });
+
+    it('should not consult or update the flow ID registry', () => {
+      FlowValidator.lint(validFlow);
+      expect(() => FlowValidator.validateSync(validFlow)).not.toThrow();
+      expect(FlowValidator.lint(validFlow).filter(d => d.severity === 'error')).toEqual([]);
+    });
+
+    it('should stop after top-level errors that make nodes unusable', () => {
+      const flow = { flowId: 'test_lint_array', flowVersion: '1.0', startNode: 'q1', nodes: [] };
+
+      expect(FlowValidator.lint(flow as unknown as RawFlow)).toEqual([
+        expect.objectContaining({ path: '/nodes', code: 'invalid_nodes' }),
+      ]);
+    });
+  });
+  describe('Termination Analysis', () => {
+    const loopFlow = (nodes: RawFlow['nodes']): RawFlow => ({
+      ...validFlow,
+      flowId: 'test_termination',
+      nodes: { ...nodes, t1: validFlow.nodes.t1 },
+    });
+    const codes = (flow: RawFlow) =>
+      FlowValidator.lint(flow).filter(d => d.severity === 'error').map(d => [d.path, d.code]);
+
+    it('should flag a question that only loops back to itself', () => {
+      const flow = loopFlow({
+        q1: { type: 'QUESTION', text: 'Ready?', answers: { yes: 't1', no: 'q2' } },
+        q2: { type: 'QUESTION', text: 'Still waiting?', answers: { yes: 'q2', no: 'q2' } },
+      });
+
+      expect(codes(flow)).toEqual([
+        ['/nodes/q2', 'no_terminal_path'],
+        ['/nodes/q2', 'closed_loop'],
+        ['/nodes/q2', 'unmarked_loop'],
+      ]);
+    });
+
+    it('should reject an unmarked loop even when it has an exit', () => {
+      const flow = loopFlow({
+        q1: { type: 'QUESTION', text: 'Fixed?', answers: { yes: 't1', no: 's1' } },
+        s1: { type: 'SAFETY', text: 'Reset the breaker and check again.', next: 'q1' },
+      });
+
+      expect(codes(flow)).toEqual([['/nodes/q1', 'unmarked_loop']]);
+    });
+
+    it('should accept a loop marked with an iteration limit', () => {
+      const flow = loopFlow({
+        q1: {
+          type: 'QUESTION',
+          text: 'Fixed?',
+          answers: { yes: 't1', no: 's1' },
+          loop: { maxIterations: 3, onExhausted: 't1' },
+        },
+        s1: { type: 'SAFETY', text: 'Reset the breaker and check again.', next: 'q1' },
+      });
+
+      expect(() => FlowValidator.validateSync(flow)).not.toThrow();
+    });
+
+    it('should treat onExhausted as the exit of an otherwise closed loop', () => {
+      const flow = loopFlow({
+        q1: { type: 'QUESTION', text: 'Ready?', answers: { yes: 't1', no: 'q2' } },
+        q2: {
+          type: 'QUESTION',
+          text: 'Still waiting?',
+          answers: { yes: 'q2', no: 'q2' },
+          loop: { maxIterations: 2, onExhausted: 't1' },
+        },
+      });
+
+      expect(codes(flow)).toEqual([]);
+    });
+
+    it('should require every cycle in a component to pass a marked node', () => {
+      const flow = loopFlow({
+        q1: {
+          type: 'QUESTION',
+          text: 'Fixed?',
+          answers: { yes: 't1', no: 'q2' },
+          loop: { maxIterations: 3, onExhausted: 't1' },
+        },
+        q2: { type: 'QUESTION', text: 'Try again?', answers: { yes: 'q1', no: 'q3' } },
+        q3: { type: 'QUESTION', text: 'Check the fuse?', answers: { yes: 'q2', no: 'q2' } },
+      });
+
+      expect(codes(flow)).toEqual([['/nodes/q2', 'unmarked_loop']]);
+    });
+
+    it('should validate the loop policy itself', () => {
+      const flow = loopFlow({
+        q1: {
+          type: 'QUESTION',
+          text: 'Fixed?',
+          answers: { yes: 't1', no: 'q1' },
+          loop: { maxIterations: 0, onExhausted: 'q1' },
+        },
+      });
+
+      expect(codes(flow)).toEqual(
+        expect.arrayContaining([
+          ['/nodes/q1/loop/maxIterations', 'invalid_loop'],
+          ['/nodes/q1/loop/onExhausted', 'invalid_loop'],
+        ])
+      );
+    });
+  });
+
+  describe('Field Mappings', () => {
+    const mappedFlow = (fieldMappings: unknown[]): RawFlow => ({
+      ...validFlow,
+      nodes: {
+        q1: { type: 'QUESTION', text: 'Pump running?', answers: { yes: 'm1', no: 't1' } },
+        m1: {
+          type: 'MEASURE',
+          text: 'Battery voltage',
+          unit: 'volts',
+          validRange: { min: 10, max: 15 },
+          branches: [{ condition: '>= 10', next: 't1' }],
+        },
+        t1: {
+          ...validFlow.nodes.t1,
+          artifact: {
+            ...(validFlow.nodes.t1.artifact as object),
+            pump_sound: 'Unknown',
+            voltage_value: null,
+          },
+        },
+      },
+      fieldMappings: fieldMappings as RawFlow['fieldMappings'],
+    });
+    const findings = (flow: RawFlow) =>
+      FlowValidator.lint(flow).map(d => [d.severity, d.path, d.code]);
+
+    it('should accept mappings from answers and measurements', () => {
+      const flow = mappedFlow([
+        {
+          artifact_field: 'pump_sound',
+          source_node_id: 'q1',
+          field_type: 'enum',
+          values: { yes: 'Runs', no: 'Silent' },
+        },
+        { artifact_field: 'voltage_value', source_node_id: 'm1', field_type: 'number' },
+      ]);
+
+      expect(findings(flow)).toEqual([]);
+    });
+
+    it('should reject unknown sources, answers and incompatible types', () => {
+      const flow = mappedFlow([
+        { artifact_field: 'pump_sound', source_node_id: 'q9', field_type: 'enum' },
+        { artifact_field: 'voltage_value', source_node_id: 'q1', field_type: 'number' },
+        {
+          artifact_field: 'pump_sound',
+          source_node_id: 'q1',
+          field_type: 'enum',
+          values: { yes: 'Runs', maybe: 'Unknown' },
+        },
+        { artifact_field: 'issue', source_node_id: 'q1', field_type: 'string' },
+      ]);
+
+      expect(findings(flow)).toEqual([
+        ['error', '/fieldMappings/0/source_node_id', 'unknown_node'],
+        ['error', '/fieldMappings/1/field_type', 'incompatible_field_type'],
+        ['error', '/fieldMappings/2/artifact_field', 'duplicate_mapping'],
+        ['error', '/fieldMappings/2/values/maybe', 'unknown_answer'],
+        ['warning', '/fieldMappings/2/values', 'incomplete_mapping'],
+        ['error', '/fieldMappings/3/artifact_field', 'reserved_field'],
+      ]);
+    });
+
+    it('should require a values table for enum fields', () => {
+      const flow = mappedFlow([
+        { artifact_field: 'pump_sound', source_node_id: 'q1', field_type: 'enum' },
+      ]);
+
+      expect(findings(flow)).toEqual([['error', '/fieldMappings/0/values', 'missing_field']]);
+    });
+
+    it('should warn about fields no terminal artifact carries', () => {
+      const flow = mappedFlow([
+        { artifact_field: 'pump_model', source_node_id: 'q1', field_type: 'string' },
+      ]);
+
+      expect(findings(flow)).toEqual([['warning', '/fieldMappings/0/artifact_field', 'unused_mapping']]);
+      expect(() => FlowValidator.validateSync(flow)).not.toThrow();
+    });
+  });
+
+  describe('Per-flow Enums', () => {
+    const slidesFlow = (overrides: Partial<RawFlow>, systemType = 'Slide'): RawFlow => ({
+      ...validFlow,
+      flowId: 'flow_4_slides_leveling_issue',
+      flowVersion: '2.0',
+      nodes: {
+        q1: validFlow.nodes.q1,
+        t1: {
+          ...validFlow.nodes.t1,
+          artifact: {
+            ...(validFlow.nodes.t1.artifact as object),
+            flow_id: 'flow_4_slides_leveling_issue',
+            flow_version: '2.0',
+            system_type: systemType,
+            interlock_present: 'unknown',
+          },
+        },
+      },
+      ...overrides,
+    });
+    const errors = (flow: RawFlow) =>
+      FlowValidator.lint(flow).filter(d => d.severity === 'error').map(d => [d.path, d.code]);
+
+    it('should check terminal templates against the flow enums', () => {
+      expect(errors(slidesFlow({ artifactEnumsVersion: '1.2' }))).toEqual([]);
+      expect(errors(slidesFlow({ artifactEnumsVersion: '1.2' }, 'Awning'))).toEqual([
+        ['/nodes/t1/artifact/system_type', 'invalid_enum'],
+      ]);
+    });
+
+    it('should use the latest enums when the flow declares none', () => {
+      expect(errors(slidesFlow({}, 'Awning'))).toEqual([
+        ['/nodes/t1/artifact/system_type', 'invalid_enum'],
+      ]);
+    });
+
+    it('should only apply the enums of the declared version', () => {
+      expect(errors(slidesFlow({ artifactEnumsVersion: '1.1' }, 'Awning'))).toEqual([]);
+    });
+
+    it('should reject enum versions that are unknown or do not cover the flow version', () => {
+      expect(errors(slidesFlow({ artifactEnumsVersion: '9.0' }))).toEqual([
+        ['/artifactEnumsVersion', 'incompatible_enum_version'],
+      ]);
+
+      const flow = slidesFlow({ artifactEnumsVersion: '1.2', flowVersion: '3.0' });
+      const nodes = flow.nodes as Record<string, any>;
+      nodes.t1 = { ...nodes.t1, artifact: { ...nodes.t1.artifact, flow_version: '3.0' } };
+      const [diagnostic] = FlowValidator.lint(flow).filter(d => d.severity === 'error');
+
+      expect(diagnostic.code).toBe('incompatible_enum_version');
+      expect(diagnostic.message).toContain('not v3.0');
+    });
+
+    it('should check field mapping values against the enums', () => {
+      const flow = slidesFlow({
+        artifactEnumsVersion: '1.2',
+        fieldMappings: [
+          {
+            artifact_field: 'interlock_present',
+            source_node_id: 'q1',
+            field_type: 'enum',
+            values: { Yes: 'Yes', No: 'Maybe' },
+          },
+        ],
+      });
+
+      expect(errors(flow)).toEqual([['/fieldMappings/0/values/No', 'invalid_enum']]);
+    });
+  });
+
+  describe('Answer Semantics', () => {
+    const semanticsFlow = (answerSemantics: unknown): RawFlow => ({
+      ...validFlow,
+      flowId: 'test_answer_semantics',
+      nodes: { ...validFlow.nodes, q1: { ...validFlow.nodes.q1, answerSemantics } },
+    });
+    const errors = (flow: RawFlow) =>
+      FlowValidator.lint(flow).filter(d => d.severity === 'error').map(d => [d.path, d.code]);
+
+    it('should accept a semantic for every answer', () => {
+      expect(errors(semanticsFlow({ Yes: 'affirmative', No: 'negative' }))).toEqual([]);
+    });
+
+    it('should reject unknown answers, unknown semantics and undeclared answers', () => {
+      expect(errors(semanticsFlow({ Yes: 'maybe', Unsure: 'uncertain' }))).toEqual([
+        ['/nodes/q1/answerSemantics/Yes', 'invalid_answer_semantics'],
+        ['/nodes/q1/answerSemantics/Unsure', 'unknown_answer'],
+        ['/nodes/q1/answerSemantics/No', 'missing_answer_semantics'],
+      ]);
+      expect(errors(semanticsFlow(['affirmative']))).toEqual([
+        ['/nodes/q1/answerSemantics', 'invalid_answer_semantics'],
+      ]);
+    });
+  });
+
+  describe('Stop Terminals', () => {
+    const stopFlow = (fields: Record<string, unknown>): RawFlow => ({
+      ...validFlow,
+      flowId: 'test_stop_terminal',
+      nodes: { ...validFlow.nodes, t1: { ...validFlow.nodes.t1, ...fields } as RawFlow['nodes'][string] },
+    });
+    const errors = (flow: RawFlow) =>
+      FlowValidator.lint(flow).filter(d => d.severity === 'error').map(d => [d.path, d.code]);
+
+    it('should accept a stop terminal with a known stop code', () => {
+      expect(errors(stopFlow({ severity: 'stop', stopCode: 'safety_hazard' }))).toEqual([]);
+    });
+
+    it('should reject stop codes without severity, unknown severities and unknown codes', () => {
+      expect(errors(stopFlow({ stopCode: 'safety_hazard' }))).toEqual([['/nodes/t1/stopCode', 'invalid_field']]);
+      expect(errors(stopFlow({ severity: 'fatal', stopCode: 'safety_hazard' }))).toEqual([
+        ['/nodes/t1/severity', 'invalid_field'],
+      ]);
+      expect(errors(stopFlow({ severity: 'stop' }))).toEqual([['/nodes/t1/stopCode', 'missing_field']]);
+      expect(errors(stopFlow({ severity: 'stop', stopCode: 'gave_up' }))).toEqual([
+        ['/nodes/t1/stopCode', 'invalid_field'],
+      ]);
+    });
+  });
 });
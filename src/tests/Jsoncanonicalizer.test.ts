@@ -0,0 +1,59 @@
+import { JsonCanonicalizer, CanonicalizationError } from '../utils/JsonCanonicalizer';
+
+// Vectors from RFC 8785 sections 3.2.2 and 3.2.3
+describe('JsonCanonicalizer', () => {
+  it('should drop whitespace and sort keys', () => {
+    expect(JsonCanonicalizer.canonicalizeText('{ "b": [1, 2], "a": { "d": true, "c": null } }')).toBe(
+      '{"a":{"c":null,"d":true},"b":[1,2]}'
+    );
+  });
+
+  it('should serialize numbers in ECMAScript shortest form', () => {
+    expect(JsonCanonicalizer.canonicalizeText('[333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001]')).toBe(
+      '[333333333.3333333,1e+30,4.5,0.002,1e-27]'
+    );
+    expect(JsonCanonicalizer.canonicalize([10.0, -0])).toBe('[10,0]');
+  });
+
+  it('should apply only the mandatory string escapes', () => {
+    const input = '{"string": "\\u20ac$\\u000F\\u000aA\'\\u0042\\u0022\\u005c\\\\\\"\\/"}';
+
+    expect(JsonCanonicalizer.canonicalizeText(input)).toBe(
+      '{"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    );
+  });
+
+  it('should sort keys by UTF-16 code units', () => {
+    const input = {
+      '€': 'Euro Sign',
+      '\r': 'Carriage Return',
+      'דּ': 'Hebrew Letter Dalet With Dagesh',
+      '1': 'One',
+      '😀': 'Emoji: Grinning Face',
+      '\u0080': 'Control',
+      'ö': 'Latin Small Letter O With Diaeresis',
+    };
+
+    const canonical = JsonCanonicalizer.canonicalize(input);
+    const positions = [
+      'Carriage Return',
+      'One',
+      'Control',
+      'Latin Small Letter O With Diaeresis',
+      'Euro Sign',
+      'Emoji: Grinning Face',
+      'Hebrew Letter Dalet With Dagesh',
+    ].map(value => canonical.indexOf(value));
+
+    expect(positions).toEqual([...positions].sort((a, b) => a - b));
+  });
+
+  it('should reject values that are not I-JSON', () => {
+    expect(() => JsonCanonicalizer.canonicalize({ a: Infinity })).toThrow(CanonicalizationError);
+    expect(() => JsonCanonicalizer.canonicalize({ a: '\ud800' })).toThrow('Lone surrogate in string at /a');
+
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+    expect(() => JsonCanonicalizer.canonicalize(cyclic)).toThrow('Circular reference');
+  });
+});
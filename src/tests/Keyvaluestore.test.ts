@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryKeyValueStore } from '../storage/InMemoryKeyValueStore';
+import { FileKeyValueStore } from '../storage/FileKeyValueStore';
+
+describe('KeyValueStore implementations', () => {
+  describe('InMemoryKeyValueStore', () => {
+    it('should store and return strings and booleans by type', () => {
+      const store = new InMemoryKeyValueStore();
+      store.set('name', 'rig');
+      store.set('flag', true);
+
+      expect(store.getString('name')).toBe('rig');
+      expect(store.getBoolean('flag')).toBe(true);
+      expect(store.getString('flag')).toBeUndefined();
+      expect(store.getBoolean('name')).toBeUndefined();
+    });
+
+    it('should remove single keys and clear everything', () => {
+      const store = new InMemoryKeyValueStore();
+      store.set('a', '1');
+      store.set('b', '2');
+
+      store.remove('a');
+      expect(store.getString('a')).toBeUndefined();
+      expect(store.getString('b')).toBe('2');
+
+      store.clearAll();
+      expect(store.getString('b')).toBeUndefined();
+    });
+  });
+
+  describe('FileKeyValueStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kv-store-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should persist values across instances', () => {
+      const filePath = path.join(dir, 'store.json');
+      const first = new FileKeyValueStore(filePath);
+      first.set('session_state', '{"flow_id":"f1"}');
+      first.set('rv_profile_completed', true);
+
+      const second = new FileKeyValueStore(filePath);
+      expect(second.getString('session_state')).toBe('{"flow_id":"f1"}');
+      expect(second.getBoolean('rv_profile_completed')).toBe(true);
+    });
+
+    it('should persist removals', () => {
+      const filePath = path.join(dir, 'nested', 'store.json');
+      const first = new FileKeyValueStore(filePath);
+      first.set('a', '1');
+      first.remove('a');
+
+      expect(new FileKeyValueStore(filePath).getString('a')).toBeUndefined();
+      expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  TierClassificationDocument,
+  TierClassificationError,
+  TierClassificationValidator,
+} from '../validators/TierClassificationValidator';
+import { RawFlow } from '../validators/FlowValidator';
+import { FlowRegistry } from '../services/FlowRegistry';
+import { ArtifactGenerator, artifactGenerator } from '../utils/ArtifactGenerator';
+
+describe('TierClassificationValidator', () => {
+  const flow: RawFlow = {
+    flowId: 'tier_test_flow',
+    flowVersion: '1.0',
+    startNode: 'scope_check',
+    nodes: {
+      scope_check: {
+        type: 'QUESTION',
+        text: 'Is the pump running?',
+        answers: { yes: 's1', no: 'm1', not_sure: 'm1' },
+      },
+      s1: { type: 'SAFETY', text: 'Turn the pump off.', next: 'm1' },
+      m1: {
+        type: 'MEASURE',
+        text: 'Measure battery voltage.',
+        unit: 'volts',
+        validRange: { min: 0, max: 16 },
+        branches: [{ condition: '>= 0', next: 't1' }],
+      },
+      t1: { type: 'TERMINAL', result: 'Done.' },
+    },
+  };
+
+  const entry = (tier: number, value: string, findingKey: string) => ({
+    tier,
+    condition: { value },
+    description: `Finding ${findingKey}`,
+    finding_key: findingKey,
+    subsystem: 'test_system',
+    recommendation: `Fix ${findingKey}`,
+  });
+
+  const doc = (nodes: TierClassificationDocument['nodes']): TierClassificationDocument => ({
+    flow_id: 'tier_test_flow',
+    flow_version: '1.0',
+    nodes,
+  });
+
+  const codes = (classification: TierClassificationDocument) =>
+    TierClassificationValidator.lint(classification, flow).map(d => d.code);
+
+  it('should accept the shipped classifications against the registered flows', () => {
+    FlowRegistry.reset();
+    for (const registration of FlowRegistry.list()) {
+      const shipped = artifactGenerator.getTierClassification(registration.flowId, registration.flowVersion);
+
+      expect(shipped).toBeDefined();
+      expect(TierClassificationValidator.lint(shipped!, registration.flow as unknown as RawFlow)).toEqual([]);
+    }
+  });
+
+  it('should accept several conditions on one node', () => {
+    expect(codes(doc({
+      scope_check: [entry(1, 'no', 'pump_off'), entry(3, 'not_sure', 'pump_unknown')],
+      m1: [entry(2, '< 11.8', 'voltage_low')],
+    }))).toEqual([]);
+  });
+
+  it('should reject nodes the flow does not have', () => {
+    const diagnostics = TierClassificationValidator.lint(doc({ capability_gate: [entry(1, 'no', 'x')] }), flow);
+
+    expect(diagnostics.map(d => [d.path, d.code])).toEqual([['/nodes/capability_gate', 'unknown_node']]);
+  });
+
+  it('should reject answer keys the QUESTION node does not have', () => {
+    const diagnostics = TierClassificationValidator.lint(
+      doc({ scope_check: [entry(1, 'no', 'pump_off'), entry(3, 'Not sure', 'pump_unknown')] }),
+      flow
+    );
+
+    expect(diagnostics.map(d => [d.path, d.code])).toEqual([
+      ['/nodes/scope_check/1/condition', 'unknown_answer'],
+    ]);
+  });
+
+  it('should reject invalid MEASURE conditions and unclassifiable node types', () => {
+    expect(codes(doc({ m1: [entry(2, 'low', 'voltage_low')] }))).toEqual(['invalid_condition']);
+    expect(codes(doc({ s1: [entry(2, 'yes', 'x')] }))).toEqual(['invalid_node_type']);
+  });
+
+  it('should reject duplicate conditions, bad tiers and missing fields', () => {
+    expect(codes(doc({ scope_check: [entry(1, 'no', 'a'), entry(2, 'no', 'b')] }))).toEqual([
+      'duplicate_condition',
+    ]);
+    expect(codes(doc({ scope_check: [entry(5, 'no', 'a')] }))).toEqual(['invalid_tier']);
+    expect(codes(doc({ scope_check: [] }))).toEqual(['missing_field']);
+  });
+
+  it('should reject a document for another flow version', () => {
+    const classification = { ...doc({}), flow_version: '2.0' };
+
+    expect(codes(classification)).toEqual(['flow_mismatch']);
+    expect(() => TierClassificationValidator.validate(classification, flow)).toThrow(TierClassificationError);
+  });
+
+  describe('measurements', () => {
+    const band = (label: string, condition: string, extra: Record<string, unknown> = {}) => ({
+      label,
+      condition,
+      explanation: `Reading ({value}) is ${label.toLowerCase()}.`,
+      ...extra,
+    });
+    const measured = (measurements: TierClassificationDocument['measurements']) => ({
+      ...doc({}),
+      measurements,
+    });
+
+    it('should accept labeled bands with tier effects', () => {
+      expect(codes(measured({
+        m1: {
+          unit_label: 'V',
+          bands: [
+            band('Low', '<= 12.0', {
+              finding: {
+                tier: 2,
+                description: 'Low',
+                finding_key: 'low_battery',
+                subsystem: 'battery',
+                recommendation: 'Charge',
+              },
+            }),
+            band('Normal', '12.6 - 12.8', { normal: true }),
+          ],
+        },
+      }))).toEqual([]);
+    });
+
+    it('should reject bands on nodes that are not MEASURE nodes', () => {
+      expect(codes(measured({ scope_check: { bands: [band('Low', '< 1')] } }))).toEqual(['invalid_node_type']);
+      expect(codes(measured({ m2: { bands: [band('Low', '< 1')] } }))).toEqual(['unknown_node']);
+    });
+
+    it('should reject invalid conditions, repeated labels and bad findings', () => {
+      const diagnostics = TierClassificationValidator.lint(
+        measured({
+          m1: {
+            bands: [
+              band('Low', 'low'),
+              band('Low', '> 12', {
+                finding: { tier: 7, description: 'x', finding_key: 'y', subsystem: 's', recommendation: 'z' },
+              }),
+            ],
+          },
+        }),
+        flow
+      );
+
+      expect(diagnostics.map(d => [d.path, d.code])).toEqual([
+        ['/measurements/m1/bands/0/condition', 'invalid_condition'],
+        ['/measurements/m1/bands/1/label', 'duplicate_band'],
+        ['/measurements/m1/bands/1/finding/tier', 'invalid_tier'],
+      ]);
+    });
+  });
+
+  describe('ArtifactGenerator classification', () => {
+    const diagnosticFlow = (flowId: string) => ({
+      flow_id: flowId,
+      flow_version: '1.0',
+      flow_name: flowId,
+      nodes: {},
+    });
+    const session = (flowId: string, answer: string) => ({
+      sessionId: 'session-1',
+      flowId,
+      flowVersion: '1.0',
+      currentNodeId: 't1',
+      events: [{ node_id: 'scope_check', type: 'QUESTION' as const, value: answer, timestamp: '' }],
+      startTime: '',
+      lastUpdateTime: '',
+      isComplete: true,
+    });
+
+    const generator = new ArtifactGenerator(undefined, [
+      doc({ scope_check: [entry(1, 'no', 'pump_off'), entry(3, 'not_sure', 'pump_unknown')] }),
+      { flow_id: 'other_flow', flow_version: '1.0', nodes: { scope_check: [entry(2, 'yes', 'other_scope')] } },
+    ]);
+    const primaryFinding = (flowId: string, answer: string) =>
+      generator.generate(session(flowId, answer), diagnosticFlow(flowId)).result.primary_finding;
+
+    it('should pick the condition that matches the answer', () => {
+      expect(primaryFinding('tier_test_flow', 'no')).toBe('Finding pump_off');
+      expect(primaryFinding('tier_test_flow', 'not_sure')).toBe('Finding pump_unknown');
+    });
+
+    it('should only apply a classification to its own flow', () => {
+      expect(primaryFinding('tier_test_flow', 'yes')).toBe('Unable to determine cause');
+      expect(primaryFinding('other_flow', 'yes')).toBe('Finding other_scope');
+      expect(primaryFinding('other_flow', 'no')).toBe('Unable to determine cause');
+    });
+
+    it('should interpret every reading by band and apply the band tier effect', () => {
+      const measuring = new ArtifactGenerator(undefined, [{
+        ...doc({}),
+        measurements: {
+          m1: {
+            unit_label: ' PSI',
+            decimals: 0,
+            bands: [
+              {
+                label: 'Low',
+                condition: '< 20',
+                explanation: 'Water pressure ({value}) is low.',
+                finding: {
+                  tier: 2,
+                  description: 'Low water pressure',
+                  finding_key: 'low_pressure',
+                  subsystem: 'city_water',
+                  recommendation: 'Check the regulator',
+                },
+              },
+              { label: 'Normal', condition: '>= 20', explanation: 'Water pressure ({value}) is normal.' },
+            ],
+          },
+        },
+      }]);
+      const measure = (value: string) => measuring.generate(
+        {
+          ...session('tier_test_flow', 'yes'),
+          events: [{ node_id: 'm1', type: 'MEASURE' as const, value, timestamp: '' }],
+        },
+        diagnosticFlow('tier_test_flow')
+      ).result;
+
+      const low = measure('12.4');
+      expect(low.primary_finding).toBe('Low water pressure');
+      expect(low.explanation).toContain('Water pressure (12 PSI) is low.');
+      expect(low.measurements).toEqual([
+        { node_id: 'm1', value: 12.4, label: 'Low', explanation: 'Water pressure (12 PSI) is low.' },
+      ]);
+
+      const normal = measure('45');
+      expect(normal.primary_finding).toBe('Unable to determine cause');
+      expect(normal.measurements![0].label).toBe('Normal');
+    });
+
+    it('should not classify flow versions without a document', () => {
+      const result = generator.generate(
+        session('tier_test_flow', 'no'),
+        { ...diagnosticFlow('tier_test_flow'), flow_version: '1.1' }
+      ).result;
+
+      expect(result.primary_finding).toBe('Unable to determine cause');
+    });
+  });
+});
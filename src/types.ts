@@ -2,10 +2,16 @@
 
 export type NodeType = 'QUESTION' | 'SAFETY' | 'MEASURE' | 'TERMINAL';
 
+/** What an answer means for artifact generation, independent of its key. */
+export type AnswerSemantic = 'affirmative' | 'negative' | 'uncertain' | 'other';
+
+export const ANSWER_SEMANTICS: AnswerSemantic[] = ['affirmative', 'negative', 'uncertain', 'other'];
+
 export interface QuestionNode {
   type: 'QUESTION';
   text: string;
   answers: Record<string, string>; // arbitrary answer key → next node id
+  answerSemantics?: Record<string, AnswerSemantic>; // undeclared answers are 'other'
 }
 
 export interface SafetyNode {
@@ -48,14 +54,88 @@ export interface FlowArtifact {
   confidence_level?: string;
   primary_finding?: string;
   explanation?: string;
+  measurement_interpretations?: InterpretedMeasurement[];
+  evidence?: ConfidenceEvidence;
+  differential?: DifferentialCause[];
+}
+
+/**
+ * Why the artifact has its confidence level: the weighted findings and the
+ * penalties (negative weights) that add up to `score`.
+ */
+export interface ConfidenceEvidence {
+  score: number;
+  findings: EvidenceFinding[];
+  penalties: EvidencePenalty[];
+}
+
+export interface EvidenceFinding {
+  node_id: string;
+  finding_key: string;
+  description: string;
+  tier: number;
+  weight: number;
+}
+
+export interface EvidencePenalty {
+  reason: 'not_sure' | 'conflicting_signals';
+  node_id?: string; // the not-sure answer
+  weight: number;
+}
+
+/**
+ * A candidate cause, ranked by tier, then score. The first candidate is the
+ * primary finding.
+ */
+export interface DifferentialCause {
+  finding_key: string;
+  description: string;
+  tier: number; // strongest supporting finding
+  score: number; // supporting minus contradicting weights
+  supporting: EvidenceFinding[];
+  contradicting: ContradictingEvidence[];
+  recommendation?: string;
+}
+
+/** An answer or reading at a node that can produce the cause, but did not. */
+export interface ContradictingEvidence {
+  node_id: string;
+  value: string;
+  weight: number; // negative
+}
+
+/** A MEASURE reading placed in one of the bands its flow declares. */
+export interface InterpretedMeasurement {
+  node_id: string;
+  value: number;
+  label: string;
+  explanation: string;
 }
 
 export interface TerminalNode {
   type: 'TERMINAL';
   result: string;
   artifact: FlowArtifact;
+  severity?: 'stop'; // reaching the node stops the diagnostic
+  stopCode?: StopReasonCode; // required with severity "stop"
 }
 
+/** Why a diagnostic was stopped; recorded as the value of its STOP event. */
+export type StopReasonCode =
+  | 'user_abort'
+  | 'safety_hazard'
+  | 'capability_declined'
+  | 'flow_unavailable'
+  | 'abandoned';
+
+export const STOP_REASON_CODES: StopReasonCode[] = [
+  'user_abort',
+  'safety_hazard',
+  'capability_declined',
+  'flow_unavailable',
+  'abandoned',
+];
+
 export type FlowNode = QuestionNode | SafetyNode | MeasureNode | TerminalNode;
 
 // ─── Flow Definition ──────────────────────────────────────────────────────────
@@ -66,6 +146,8 @@ export interface FlowDefinition {
   startNode: string;
   title?: string;
   nodes: Record<string, FlowNode> | FlowNode[]; // dict (F1/F2) or array (F3/F4)
+  fieldMappings?: FieldMapping[];
+  artifactEnumsVersion?: string;
 }
 
 // ─── Session ──────────────────────────────────────────────────────────────────
@@ -73,12 +155,26 @@ export interface FlowDefinition {
 export interface SessionEvent {
   node_id: string;
   node_text: string;
-  type: NodeType;
+  type: NodeType | 'STOP'; // STOP carries the StopReasonCode as its value
   value: string | number | boolean;
   result_text: string;
   timestamp: string;
 }
 
+export interface RewindRecord {
+  from_node_id: string;
+  to_node_id: string;
+  discarded_events: SessionEvent[];
+  rewound_at: string;
+}
+
+/** Another diagnostic worth running next, from the cross-system rules. */
+export interface FollowUpRecommendation {
+  rule_id: string;
+  flow_id: string;
+  recommendation: string;
+}
+
 export interface SessionState {
   flow_id: string;
   flow_version: string;
@@ -95,18 +191,39 @@ export interface SessionState {
   answers: Record<string, any>;
   measurements: Record<string, number | null>;
 
+  // Audit trail of goBack / rewindTo calls
+  rewinds?: RewindRecord[];
+
+  // Set when the session was moved to a newer flow version on resume
+  migrated_from_version?: string;
+
   // Set on normal completion
   completed_at?: string;
   terminal_node_id?: string;
   result?: string;
   artifact?: FlowArtifact;
+  artifact_canonical_json?: string; // byte-exact artifact from finalization
+  artifact_sha256?: string;
+  follow_up?: FollowUpRecommendation;
 
-  // Set on STOP
+  // Set on STOP, including stop terminals (which also complete the session)
   stopped_at?: string;
   stop_node_id?: string;
+  stop_code?: StopReasonCode;
   partial_artifact?: FlowArtifact;
 }
 
+/** Index entry for an in-progress session, enough to list it without loading it. */
+export interface OpenSessionInfo {
+  session_id: string;
+  flow_id: string;
+  flow_version: string;
+  started_at: string;
+  updated_at: string;
+  current_node_id: string;
+  step_count: number;
+}
+
 export interface SessionSummary {
   flow_id: string;
   flow_version: string;
@@ -118,6 +235,13 @@ export interface SessionSummary {
   result: string;
   artifact?: FlowArtifact;
   stopped: boolean;
+  stop_code?: StopReasonCode;
+  rewinds?: RewindRecord[];
+
+  // Finalized artifact as serialized; exports are verified against it
+  artifact_canonical_json?: string;
+  artifact_sha256?: string;
+  follow_up?: FollowUpRecommendation;
 
   creator_name: string;
   creator_type: 'OWNER';
@@ -184,10 +308,16 @@ export interface TerminalArtifactTemplate {
   recommendations?: string[];
   notes?: string;
 }
+/**
+ * Fills an artifact field from the session. QUESTION answers go through the
+ * optional `values` table (answer key → artifact value); answers missing
+ * from the table, and nodes the session never reached, become Unknown.
+ */
 export interface FieldMapping {
   artifact_field: string;
   source_node_id: string;
   field_type: 'string' | 'number' | 'enum' | 'array';
+  values?: Record<string, string>;
 }
 export interface FinalizationResult {
   final_artifact: Record<string, any>;
@@ -62,24 +62,23 @@ export class ArtifactFinalizer {
     artifact.stop_reason = sessionState.stop_reason;
     artifact.last_confirmed_state = sessionState.last_confirmed_state;
 
-    if (fieldMappings) {
-      for (const mapping of fieldMappings) {
-        artifact[mapping.artifact_field] = this.getFieldValue(
-          mapping,
-          sessionState,
-        );
-      }
-    } else {
-      for (const [key, value] of Object.entries(template)) {
-        if (
-          !REQUIRED_BASE_FIELDS.includes(key as any) &&
-          !REQUIRED_SUFFIX_FIELDS.includes(key as any)
-        ) {
-          artifact[key] = value;
-        }
+    for (const [key, value] of Object.entries(template)) {
+      if (
+        !REQUIRED_BASE_FIELDS.includes(key as any) &&
+        !REQUIRED_SUFFIX_FIELDS.includes(key as any)
+      ) {
+        artifact[key] = value;
       }
     }
 
+    // Mapped fields reflect what the session observed, not the template
+    for (const mapping of fieldMappings ?? []) {
+      artifact[mapping.artifact_field] = this.getFieldValue(
+        mapping,
+        sessionState,
+      );
+    }
+
     artifact.safety_notes = [...(template.safety_notes || [])];
     artifact.stabilization_actions = [
       ...(template.stabilization_actions || []),
@@ -103,7 +102,12 @@ export class ArtifactFinalizer {
     }
 
     if (mapping.source_node_id in sessionState.answers) {
-      return sessionState.answers[mapping.source_node_id];
+      const answer = sessionState.answers[mapping.source_node_id];
+      if (!mapping.values) return answer;
+      return (
+        mapping.values[String(answer)] ??
+        this.getUnknownValue(mapping.field_type)
+      );
     }
 
     if (mapping.source_node_id in sessionState.measurements) {
@@ -1,5 +1,30 @@
-import tierClassificationData from './tier-classification.json';
+import { ConditionExpression } from './ConditionExpression';
+import { ExplanationTemplate, TemplateVariables } from './ExplanationTemplate';
+import {
+  AnswerSemantic,
+  ConfidenceEvidence,
+  ContradictingEvidence,
+  DifferentialCause,
+  EvidenceFinding,
+  EvidencePenalty,
+  FollowUpRecommendation,
+  InterpretedMeasurement,
+  StopReasonCode,
+} from '../types';
+import { CrossSystemRuleSet } from '../validators/CrossSystemRuleValidator';
+import {
+  MeasurementBand,
+  MeasurementInterpretation,
+  TierClassificationDocument,
+  TierClassificationEntry,
+} from '../validators/TierClassificationValidator';
+import no_power_tiers_v2 from './tier-classification/flow_1_no_power_inside_rv_v2.json';
+import water_system_tiers_v2 from './tier-classification/flow_2_water_system_issue_v2.json';
+import propane_system_tiers_v2 from './tier-classification/flow_3_propane_system_issue_v2.json';
+import slides_leveling_tiers_v2 from './tier-classification/flow_4_slides_leveling_issue_v2.json';
 import explanationTemplates from './explanation-templates.json';
+import crossSystemRules from './cross-system-rules.json';
+import confidenceModel from './confidence-model.json';
 
 enum PriorityTier {
   DIRECT_FAILURE = 1,
@@ -19,24 +44,34 @@ interface Finding {
   description: string;
   value: string;
   findingKey: string;
+  subsystem: string;
   recommendation?: string;
 }
 
-interface VoltageInterpretation {
-  voltage: number;
-  isNormal: boolean;
-  isLow: boolean;
-  interpretation: string;
+/** Findings sharing a finding key, strongest first, with the evidence against them. */
+interface Cause {
+  findingKey: string;
+  findings: Finding[];
+  contradicting: ContradictingEvidence[];
+  score: number;
 }
 
-interface TierClassificationEntry {
-  tier: number;
-  condition: {
-    value: string;
-  };
-  description: string;
-  finding_key: string;
-  recommendation: string;
+/** Weights that turn findings and not-sure answers into a confidence score. */
+export interface ConfidenceModel {
+  model_version: string;
+  notes?: string;
+  tier_weights: Record<string, number>; // keyed by tier
+  not_sure_penalty: number;
+  conflict_penalty: number;
+  related_subsystems?: string[][]; // subsystems on one causal chain, which never conflict
+  labels: { confidence_level: string; min_score: number }[]; // highest first
+}
+
+interface MeasurementReading {
+  nodeId: string;
+  value: number;
+  interpretation: MeasurementInterpretation;
+  band: MeasurementBand;
 }
 
 interface SessionEvent {
@@ -74,6 +109,8 @@ interface FlowNode {
   answers?: string[];
   next?: Record<string, string>;
   safety_notes?: string;
+  unit?: string;
+  answerSemantics?: Record<string, AnswerSemantic>;
 }
 
 interface Artifact {
@@ -87,46 +124,141 @@ interface Artifact {
     primary_finding: string;
     explanation: string;
     recommended_next_step: string;
+    follow_up?: FollowUpRecommendation;
+    measurements?: InterpretedMeasurement[];
+    evidence?: ConfidenceEvidence;
+    differential?: DifferentialCause[];
   };
 }
 
+const MAX_SUPPORTING_FINDINGS = 2;
+
+const STOP_OUTCOMES: Record<StopReasonCode, { explanation: string; next_step: string }> = {
+  safety_hazard: {
+    explanation: "Do not continue. A potential safety concern was identified during this diagnostic. Further inspection is recommended before continuing.",
+    next_step: "Contact a qualified RV technician immediately",
+  },
+  capability_declined: {
+    explanation: "The diagnostic was stopped because its checks could not be performed. Findings up to that point are listed.",
+    next_step: "Contact a qualified RV technician for further diagnosis and repair",
+  },
+  user_abort: {
+    explanation: "The diagnostic was stopped before it finished. Findings up to that point are listed.",
+    next_step: "Resume the diagnostic or contact a qualified RV technician",
+  },
+  flow_unavailable: {
+    explanation: "The diagnostic was stopped because its flow version is no longer available. Findings up to that point are listed.",
+    next_step: "Start a new diagnostic",
+  },
+  abandoned: {
+    explanation: "The diagnostic was stopped after a long period without activity. Findings up to that point are listed.",
+    next_step: "Start a new diagnostic",
+  },
+};
+
+// Answers treated as uncertain on QUESTION nodes without answerSemantics
+const UNDECLARED_UNCERTAIN_ANSWERS = ["not_sure", "Not sure"];
+
+const TIER_CLASSIFICATIONS: TierClassificationDocument[] = [
+  no_power_tiers_v2,
+  water_system_tiers_v2,
+  propane_system_tiers_v2,
+  slides_leveling_tiers_v2,
+];
+
+const classificationKey = (flowId: string, flowVersion: string) => `${flowId}@${flowVersion}`;
+
 export class ArtifactGenerator {
   
-  private tierClassifications: Record<string, TierClassificationEntry>;
+  private tierClassifications: Map<string, TierClassificationDocument>;
   private explanations: Record<string, string>;
+  private crossSystemRules: CrossSystemRuleSet;
+  private confidenceModel: ConfidenceModel;
   
-  constructor() {
-    this.tierClassifications = tierClassificationData as Record<string, TierClassificationEntry>;
+  constructor(
+    rules: CrossSystemRuleSet = crossSystemRules,
+    classifications: TierClassificationDocument[] = TIER_CLASSIFICATIONS,
+    model: ConfidenceModel = confidenceModel
+  ) {
+    this.tierClassifications = new Map(
+      classifications.map(doc => [classificationKey(doc.flow_id, doc.flow_version), doc])
+    );
     this.explanations = explanationTemplates as Record<string, string>;
+    this.crossSystemRules = rules;
+    this.confidenceModel = model;
   }
 
-  public generate(sessionState: SessionState, flowData: Flow): Artifact {
-    
-    if (this.checkStopCondition(sessionState)) {
-      return this.buildStopArtifact(sessionState, flowData);
-    }
+  /** Classification for exactly this flow version; other versions never apply. */
+  public getTierClassification(
+    flowId: string,
+    flowVersion: string
+  ): TierClassificationDocument | undefined {
+    return this.tierClassifications.get(classificationKey(flowId, flowVersion));
+  }
 
-    const findings = this.classifyFindings(sessionState, flowData);
-    const primaryFinding = this.selectPrimaryFinding(findings);
+  public getTierClassifications(): TierClassificationDocument[] {
+    return [...this.tierClassifications.values()];
+  }
 
-    if (!primaryFinding) {
-      return this.buildNoFindingArtifact(sessionState, flowData);
+  /** Finding keys each flow can produce (flow ID → finding key → node ID). */
+  public getFindingSources(): Record<string, Record<string, string>> {
+    const sources: Record<string, Record<string, string>> = {};
+    for (const doc of this.tierClassifications.values()) {
+      const flowSources = (sources[doc.flow_id] ??= {});
+      for (const [nodeId, entries] of Object.entries(doc.nodes)) {
+        entries.forEach(entry => { flowSources[entry.finding_key] = nodeId; });
+      }
+      for (const [nodeId, interpretation] of Object.entries(doc.measurements ?? {})) {
+        interpretation.bands.forEach(band => {
+          if (band.finding) flowSources[band.finding.finding_key] = nodeId;
+        });
+      }
     }
+    return sources;
+  }
 
-    const confidence = this.assignConfidence(primaryFinding, findings, sessionState);
+  public getExplanationTemplates(): Record<string, string> {
+    return this.explanations;
+  }
+
+  public getCrossSystemRules(): CrossSystemRuleSet {
+    return this.crossSystemRules;
+  }
+
+  public generate(sessionState: SessionState, flowData: Flow): Artifact {
+    const readings = this.interpretMeasurements(sessionState, flowData);
+    const findings = this.classifyFindings(sessionState, flowData, readings);
+    const causes = this.rankCauses(findings, sessionState, flowData, readings);
+    const primaryFinding = causes.length > 0 ? causes[0].findings[0] : null;
+    const { confidence, evidence } = this.scoreConfidence(findings, sessionState, flowData, readings);
+
+    const stopEvent = this.findStopEvent(sessionState);
+    if (stopEvent) {
+      return this.buildStopArtifact(
+        sessionState,
+        flowData,
+        stopEvent.value as StopReasonCode,
+        confidence,
+        readings,
+        evidence,
+        causes
+      );
+    }
 
-    const voltage = this.extractBatteryVoltage(sessionState);
-    const voltageInterpretation = voltage !== null
-      ? this.interpretBatteryVoltage(voltage, primaryFinding)
-      : null;
+    if (!primaryFinding) {
+      return this.buildNoFindingArtifact(sessionState, flowData, readings, evidence);
+    }
 
     const explanation = this.buildExplanation(
+      sessionState,
+      flowData,
       primaryFinding,
-      voltageInterpretation,
+      readings,
       findings
     );
 
-    const nextStep = this.getCrossSystemRecommendation(primaryFinding, flowData)
+    const followUp = this.getCrossSystemRecommendation(primaryFinding, flowData, sessionState);
+    const nextStep = followUp?.recommendation
       || primaryFinding.recommendation
       || "Contact a qualified RV technician for further diagnosis and repair";
 
@@ -136,283 +268,416 @@ export class ArtifactGenerator {
       primaryFinding,
       confidence,
       explanation,
-      nextStep
+      nextStep,
+      followUp,
+      readings,
+      evidence,
+      causes
     );
   }
 
-  private classifyFindings(sessionState: SessionState, flowData: Flow): Finding[] {
+  private classifyFindings(
+    sessionState: SessionState,
+    flowData: Flow,
+    readings: MeasurementReading[]
+  ): Finding[] {
     const findings: Finding[] = [];
+    const doc = this.getTierClassification(flowData.flow_id, flowData.flow_version);
 
     for (const event of sessionState.events) {
-      if (event.type !== 'QUESTION' && event.type !== 'MEASURE') {
+      if (!doc || (event.type !== 'QUESTION' && event.type !== 'MEASURE')) {
         continue;
       }
 
-      const tier = this.getTierForResponse(event.node_id, event.value);
+      const classification = this.classifyResponse(doc.nodes[event.node_id], event.value);
       
-      if (tier === null || tier === PriorityTier.UNKNOWN) {
+      if (!classification || classification.tier === PriorityTier.UNKNOWN) {
         continue;
       }
 
-      const classification = this.tierClassifications[event.node_id];
-      
       findings.push({
-        tier,
+        tier: classification.tier as PriorityTier,
         nodeId: event.node_id,
         description: classification.description,
         value: event.value,
         findingKey: classification.finding_key,
+        subsystem: classification.subsystem,
         recommendation: classification.recommendation
       });
     }
 
-    const voltage = this.extractBatteryVoltage(sessionState);
-    if (voltage !== null && voltage <= 12.0) {
+    for (const { nodeId, value, band } of readings) {
+      if (!band.finding || band.finding.tier === PriorityTier.UNKNOWN) {
+        continue;
+      }
+
       findings.push({
-        tier: PriorityTier.STRONG_INDICATOR,
-        nodeId: 'battery_voltage',
-        description: 'Low battery condition',
-        value: voltage.toString(),
-        findingKey: 'low_battery',
-        recommendation: 'Charge or replace the house battery and retest systems'
+        tier: band.finding.tier as PriorityTier,
+        nodeId,
+        description: band.finding.description,
+        value: value.toString(),
+        findingKey: band.finding.finding_key,
+        subsystem: band.finding.subsystem,
+        recommendation: band.finding.recommendation
       });
     }
 
     return findings;
   }
 
-  private selectPrimaryFinding(findings: Finding[]): Finding | null {
-    if (findings.length === 0) {
-      return null;
+  /**
+   * Groups findings into candidate causes by finding key and ranks them by
+   * their strongest tier, then score, then the order the classification
+   * document lists them in, so ties never depend on the order the questions
+   * were answered in.
+   */
+  private rankCauses(
+    findings: Finding[],
+    sessionState: SessionState,
+    flowData: Flow,
+    readings: MeasurementReading[]
+  ): Cause[] {
+    const byKey = new Map<string, Finding[]>();
+    for (const finding of findings) {
+      byKey.set(finding.findingKey, [...(byKey.get(finding.findingKey) ?? []), finding]);
     }
 
-    const sorted = [...findings].sort((a, b) => a.tier - b.tier);
+    const causes = [...byKey].map(([findingKey, keyFindings]) => {
+      const contradicting = this.findContradictions(findingKey, sessionState, flowData, readings);
+      const total = [
+        ...keyFindings.map(f => this.weightOf(f.tier)),
+        ...contradicting.map(c => c.weight),
+      ].reduce((sum, weight) => sum + weight, 0);
+      return {
+        findingKey,
+        findings: [...keyFindings].sort((a, b) => a.tier - b.tier),
+        contradicting,
+        score: Math.round(total * 100) / 100,
+      };
+    });
+
+    const order = this.findingOrder(flowData);
+    return causes.sort((a, b) =>
+      a.findings[0].tier - b.findings[0].tier ||
+      b.score - a.score ||
+      (order.get(a.findingKey) ?? order.size) - (order.get(b.findingKey) ?? order.size) ||
+      a.findingKey.localeCompare(b.findingKey)
+    );
+  }
 
-    return sorted[0];
+  /** Position of each finding key in the flow's classification document. */
+  private findingOrder(flowData: Flow): Map<string, number> {
+    const doc = this.getTierClassification(flowData.flow_id, flowData.flow_version);
+    const keys = [
+      ...Object.values(doc?.nodes ?? {}).flat().map(entry => entry.finding_key),
+      ...Object.values(doc?.measurements ?? {}).flatMap(m => m.bands.map(b => b.finding?.finding_key)),
+    ];
+
+    const order = new Map<string, number>();
+    keys.forEach(key => {
+      if (key && !order.has(key)) order.set(key, order.size);
+    });
+    return order;
   }
 
-  private getTierForResponse(nodeId: string, value: string): PriorityTier | null {
-    
-    if (value === "Not sure" || value === "not_sure") {
-      return PriorityTier.UNKNOWN;
+  /** Answers and readings at nodes that can produce the finding key but did not. */
+  private findContradictions(
+    findingKey: string,
+    sessionState: SessionState,
+    flowData: Flow,
+    readings: MeasurementReading[]
+  ): ContradictingEvidence[] {
+    const doc = this.getTierClassification(flowData.flow_id, flowData.flow_version);
+    if (!doc) {
+      return [];
     }
 
-    const classification = this.tierClassifications[nodeId];
-    
-    if (!classification) {
-      return null;
+    const contradicting: ContradictingEvidence[] = [];
+    for (const event of sessionState.events) {
+      const entries = doc.nodes[event.node_id];
+      const source = entries?.find(entry => entry.finding_key === findingKey);
+      if (!source || (event.type !== 'QUESTION' && event.type !== 'MEASURE')) {
+        continue;
+      }
+      if (this.classifyResponse(entries, event.value)?.finding_key !== findingKey) {
+        contradicting.push({
+          node_id: event.node_id,
+          value: event.value,
+          weight: -this.weightOf(source.tier)
+        });
+      }
     }
 
-    if (classification.condition.value.includes('<') || 
-        classification.condition.value.includes('>') ||
-        classification.condition.value.includes('-')) {
-      const numValue = parseFloat(value);
-      if (isNaN(numValue)) return null;
-      
-      return this.evaluateMeasureCondition(classification.condition.value, numValue) 
-        ? classification.tier as PriorityTier 
-        : null;
+    for (const { nodeId, value, interpretation, band } of readings) {
+      const source = interpretation.bands.find(b => b.finding?.finding_key === findingKey);
+      if (source?.finding && band.finding?.finding_key !== findingKey) {
+        contradicting.push({
+          node_id: nodeId,
+          value: value.toString(),
+          weight: -this.weightOf(source.finding.tier)
+        });
+      }
     }
 
-    if (classification.condition.value === value) {
-      return classification.tier as PriorityTier;
-    }
+    return contradicting;
+  }
 
-    return null;
+  private weightOf(tier: number): number {
+    return this.confidenceModel.tier_weights[tier] ?? 0;
   }
 
-  private evaluateMeasureCondition(condition: string, value: number): boolean {
-    const ltMatch = condition.match(/^<\s*([\d.]+)$/);
-    if (ltMatch) return value < parseFloat(ltMatch[1]);
-    
-    const lteMatch = condition.match(/^<=\s*([\d.]+)$/);
-    if (lteMatch) return value <= parseFloat(lteMatch[1]);
-    
-    const gtMatch = condition.match(/^>\s*([\d.]+)$/);
-    if (gtMatch) return value > parseFloat(gtMatch[1]);
-    
-    const gteMatch = condition.match(/^>=\s*([\d.]+)$/);
-    if (gteMatch) return value >= parseFloat(gteMatch[1]);
-    
-    const rangeMatch = condition.match(/^([\d.]+)\s*-\s*([\d.]+)$/);
-    if (rangeMatch) {
-      const min = parseFloat(rangeMatch[1]);
-      const max = parseFloat(rangeMatch[2]);
-      return value >= min && value <= max;
-    }
-    
-    return false;
+  private toEvidenceFinding(finding: Finding): EvidenceFinding {
+    return {
+      node_id: finding.nodeId,
+      finding_key: finding.findingKey,
+      description: finding.description,
+      tier: finding.tier,
+      weight: this.weightOf(finding.tier)
+    };
   }
 
-  private assignConfidence(
-    primaryFinding: Finding,
-    allFindings: Finding[],
-    sessionState: SessionState
-  ): ConfidenceLevel {
+  private toDifferential(causes: Cause[]): DifferentialCause[] {
+    return causes.map(({ findingKey, findings, contradicting, score }) => ({
+      finding_key: findingKey,
+      description: findings[0].description,
+      tier: findings[0].tier,
+      score,
+      supporting: findings.map(f => this.toEvidenceFinding(f)),
+      contradicting,
+      ...(findings[0].recommendation && { recommendation: findings[0].recommendation })
+    }));
+  }
+
+  /** First of the node's classifications whose condition holds for the response. */
+  private classifyResponse(
+    classifications: TierClassificationEntry[] | undefined,
+    value: string
+  ): TierClassificationEntry | null {
     
-    if (allFindings.length === 0) {
-      return "Could not identify a clear cause";
+    for (const classification of classifications ?? []) {
+      const condition = classification.condition.value;
+
+      if (ConditionExpression.isExpression(condition)) {
+        const numValue = parseFloat(value);
+        if (!isNaN(numValue) && ConditionExpression.evaluate(condition, numValue)) {
+          return classification;
+        }
+      } else if (condition === value) {
+        return classification;
+      }
     }
 
-    const notSureCount = this.countNotSureResponses(sessionState);
-    const hasConflicts = this.hasConflictingSignals(allFindings, sessionState);
-
-    if (notSureCount >= 3) {
-      return "Could not identify a clear cause";
-    }
+    return null;
+  }
 
-    if (primaryFinding.tier === PriorityTier.UNKNOWN) {
-      return "Could not identify a clear cause";
-    }
+  /**
+   * Weighted findings minus penalties, mapped onto the confidence labels.
+   * The evidence lists every term of the score for the artifact.
+   */
+  private scoreConfidence(
+    findings: Finding[],
+    sessionState: SessionState,
+    flowData: Flow,
+    readings: MeasurementReading[]
+  ): { confidence: ConfidenceLevel; evidence: ConfidenceEvidence } {
+    const model = this.confidenceModel;
+    const evidenceFindings = findings.map(f => this.toEvidenceFinding(f));
 
-    const strongFindings = allFindings.filter(
-      f => f.tier <= PriorityTier.STRONG_INDICATOR
-    );
+    const penalties: EvidencePenalty[] = sessionState.events
+      .filter(event => this.answerSemantic(event, flowData) === 'uncertain')
+      .map(event => ({ reason: 'not_sure', node_id: event.node_id, weight: -model.not_sure_penalty }));
 
-    if (strongFindings.length >= 2 && !hasConflicts && notSureCount === 0) {
-      return "Strongly suggests";
+    if (this.hasConflictingSignals(findings, readings)) {
+      penalties.push({ reason: 'conflicting_signals', weight: -model.conflict_penalty });
     }
 
-    if (hasConflicts || notSureCount >= 1) {
-      return "Suggests";
-    }
+    const total = [...evidenceFindings, ...penalties].reduce((sum, item) => sum + item.weight, 0);
+    const score = Math.round(total * 100) / 100;
+    const label = findings.length > 0
+      ? model.labels.find(l => score >= l.min_score)
+      : undefined;
 
-    return "Suggests";
+    return {
+      confidence: (label?.confidence_level ?? "Could not identify a clear cause") as ConfidenceLevel,
+      evidence: { score, findings: evidenceFindings, penalties }
+    };
   }
 
-  private countNotSureResponses(sessionState: SessionState): number {
-    return sessionState.events.filter(
-      event => event.value === "Not sure" || event.value === "not_sure"
-    ).length;
+  /**
+   * The flow's declared meaning of a QUESTION answer. Nodes that declare no
+   * semantics keep the conventional not-sure keys as 'uncertain'; any other
+   * undeclared answer is 'other'.
+   */
+  private answerSemantic(event: SessionEvent, flowData: Flow): AnswerSemantic {
+    if (event.type !== 'QUESTION') {
+      return 'other';
+    }
+    const semantics = flowData.nodes[event.node_id]?.answerSemantics;
+    if (!semantics) {
+      return UNDECLARED_UNCERTAIN_ANSWERS.includes(event.value) ? 'uncertain' : 'other';
+    }
+    return semantics[event.value] ?? 'other';
   }
 
-  private hasConflictingSignals(findings: Finding[], sessionState: SessionState): boolean {
+  /**
+   * Signals conflict when a normal reading sits alongside symptom-only
+   * findings, or strong findings point at unrelated subsystems.
+   */
+  private hasConflictingSignals(findings: Finding[], readings: MeasurementReading[]): boolean {
     
-    const voltage = this.extractBatteryVoltage(sessionState);
-    if (voltage !== null && voltage >= 12.6 && voltage <= 12.8) {
+    if (readings.some(reading => reading.band.normal)) {
       const hasSymptoms = findings.some(f => f.tier === PriorityTier.SUPPORTING_SYMPTOM);
       if (hasSymptoms) {
         return true;
       }
     }
 
-    const strongFindings = findings.filter(f => f.tier <= PriorityTier.STRONG_INDICATOR);
-    if (strongFindings.length > 1) {
-      const uniqueKeys = new Set(strongFindings.map(f => f.findingKey.split('_')[0]));
-      if (uniqueKeys.size > 1) {
-        return true;
-      }
-    }
+    const strongSubsystems = new Set(
+      findings.filter(f => f.tier <= PriorityTier.STRONG_INDICATOR).map(f => this.subsystemGroup(f.subsystem))
+    );
+    return strongSubsystems.size > 1;
+  }
 
-    return false;
+  /** The first subsystem of the related group it belongs to, or itself. */
+  private subsystemGroup(subsystem: string): string {
+    const group = this.confidenceModel.related_subsystems?.find(g => g.includes(subsystem));
+    return group ? group[0] : subsystem;
   }
 
+  /** First rule in cross-system-rules.json that matches the primary finding. */
   private getCrossSystemRecommendation(
     primaryFinding: Finding,
-    flowData: Flow
-  ): string | null {
+    flowData: Flow,
+    sessionState: SessionState
+  ): FollowUpRecommendation | undefined {
     
-    const flowId = flowData.flow_id;
-    const findingKey = primaryFinding.findingKey;
-
-    // Water → Electrical
-    if (flowId === 'flow_2_water_system_issue' && findingKey.includes('pump_no_power')) {
-      return "Run the Electrical diagnostic to check power supply to the pump";
-    }
-
-    // Propane → Electrical
-    if (flowId === 'flow_3_propane_system_issue' && findingKey.includes('no_control_power')) {
-      return "Run the Electrical diagnostic to check control power";
-    }
-
-    // Slides → Electrical
-    if (flowId === 'flow_4_slides_leveling_issue' && findingKey.includes('weak_power')) {
-      return "Run the Electrical diagnostic to check system power";
-    }
-
-    // Slides → Leveling
-    if (flowId === 'flow_4_slides_leveling_issue' && findingKey.includes('not_level')) {
-      return "Run the Leveling diagnostic to verify RV is level";
-    }
-
-    // Water → Heating
-    if (flowId === 'flow_2_water_system_issue' && findingKey.includes('freeze')) {
-      return "Check heating system for freeze protection";
+    const answers: Record<string, string> = {};
+    for (const event of sessionState.events) {
+      if (event.type === 'QUESTION') answers[event.node_id] = event.value;
     }
 
-    return null;
-  }
-
-  private extractBatteryVoltage(sessionState: SessionState): number | null {
-    const voltageEvent = sessionState.events.find(
-      event => event.type === 'MEASURE' && event.node_id === 'measure_battery_voltage'
+    const rule = this.crossSystemRules.rules.find(({ match }) =>
+      match.flow_id === flowData.flow_id &&
+      match.finding_keys.includes(primaryFinding.findingKey) &&
+      Object.entries(match.answers ?? {}).every(
+        ([nodeId, accepted]) => accepted.includes(answers[nodeId])
+      )
     );
 
-    if (!voltageEvent) {
-      return null;
-    }
-
-    const voltage = parseFloat(voltageEvent.value);
-    return isNaN(voltage) ? null : voltage;
+    return rule && {
+      rule_id: rule.rule_id,
+      flow_id: rule.follow_up_flow_id,
+      recommendation: rule.recommendation,
+    };
   }
 
-  private interpretBatteryVoltage(
-    voltage: number,
-    primaryFinding: Finding
-  ): VoltageInterpretation {
-    
-    const isNormal = voltage >= 12.6 && voltage <= 12.8;
-    const isLow = voltage <= 12.0;
-
-    let interpretation = "";
+  /**
+   * Latest reading of every MEASURE node the flow's classification
+   * interprets, placed in the first band whose condition holds.
+   */
+  private interpretMeasurements(sessionState: SessionState, flowData: Flow): MeasurementReading[] {
+    const measurements = this.getTierClassification(flowData.flow_id, flowData.flow_version)
+      ?.measurements ?? {};
 
-    if (isNormal) {
-      interpretation = `Battery voltage (${voltage.toFixed(1)}V) appears normal.`;
-      
-      if (primaryFinding.tier === PriorityTier.SUPPORTING_SYMPTOM) {
-        interpretation += " However, symptoms suggest investigating further.";
+    const latest = new Map<string, number>();
+    for (const event of sessionState.events) {
+      const value = parseFloat(event.value);
+      if (event.type === 'MEASURE' && measurements[event.node_id] && !isNaN(value)) {
+        latest.set(event.node_id, value);
       }
     }
 
-    if (isLow) {
-      interpretation = `Battery voltage (${voltage.toFixed(1)}V) is below normal range, indicating a low battery condition.`;
+    const readings: MeasurementReading[] = [];
+    for (const [nodeId, value] of latest) {
+      const interpretation = measurements[nodeId];
+      const band = interpretation.bands.find(b => ConditionExpression.evaluate(b.condition, value));
+      if (band) {
+        readings.push({ nodeId, value, interpretation, band });
+      }
     }
+    return readings;
+  }
 
-    if (!isNormal && !isLow) {
-      interpretation = `Battery voltage (${voltage.toFixed(1)}V) is below optimal range.`;
-    }
+  private describeReading({ value, interpretation, band }: MeasurementReading): string {
+    const formatted = `${value.toFixed(interpretation.decimals ?? 1)}${interpretation.unit_label ?? ''}`;
+    return band.explanation.replace(/\{value\}/g, formatted);
+  }
 
-    return {
-      voltage,
-      isNormal,
-      isLow,
-      interpretation
-    };
+  private toInterpretedMeasurements(readings: MeasurementReading[]): InterpretedMeasurement[] {
+    return readings.map(reading => ({
+      node_id: reading.nodeId,
+      value: reading.value,
+      label: reading.band.label,
+      explanation: this.describeReading(reading)
+    }));
   }
 
   private buildExplanation(
+    sessionState: SessionState,
+    flowData: Flow,
     primaryFinding: Finding,
-    voltageInterpretation: VoltageInterpretation | null,
+    readings: MeasurementReading[],
     allFindings: Finding[]
   ): string {
     
-    const baseExplanation = this.explanations[primaryFinding.findingKey] 
-      || primaryFinding.description;
+    const template = this.explanations[primaryFinding.findingKey];
+    const sentences = [
+      template
+        ? ExplanationTemplate.render(
+            template,
+            this.templateVariables(sessionState, flowData, primaryFinding, allFindings)
+          ).trim()
+        : primaryFinding.description,
+    ];
+
+    for (const reading of readings) {
+      sentences.push(this.describeReading(reading));
+      if (reading.band.normal && primaryFinding.tier === PriorityTier.SUPPORTING_SYMPTOM) {
+        sentences.push("However, symptoms suggest investigating further.");
+      }
+    }
 
-    let explanation = baseExplanation;
+    // Finding descriptions carry no closing period of their own
+    return sentences
+      .map(sentence => (/[.!?]$/.test(sentence) ? sentence : `${sentence}.`))
+      .join(' ');
+  }
 
-    if (voltageInterpretation) {
-      explanation += ` ${voltageInterpretation.interpretation}`;
-    }
+  /** Values explanation templates can read; see ExplanationTemplate for the syntax. */
+  private templateVariables(
+    sessionState: SessionState,
+    flowData: Flow,
+    primaryFinding: Finding,
+    allFindings: Finding[]
+  ): TemplateVariables {
+    const variables: TemplateVariables = {};
 
-    const supportingFindings = allFindings.filter(
-      f => f.nodeId !== primaryFinding.nodeId && f.tier <= PriorityTier.SUPPORTING_SYMPTOM
-    );
+    for (const event of sessionState.events) {
+      if (event.type === 'QUESTION') {
+        variables[`answer.${event.node_id}`] = event.value.replace(/_/g, ' ');
+      } else if (event.type === 'MEASURE') {
+        const unit = flowData.nodes[event.node_id]?.unit;
+        variables[`measure.${event.node_id}`] = unit ? `${event.value} ${unit}` : event.value;
+        variables[`unit.${event.node_id}`] = unit;
+      }
+    }
 
-    if (supportingFindings.length > 0 && supportingFindings.length <= 2) {
+    const supporting = allFindings
+      .filter(f =>
+        f.nodeId !== primaryFinding.nodeId &&
+        f.findingKey !== primaryFinding.findingKey &&
+        f.tier <= PriorityTier.SUPPORTING_SYMPTOM
+      )
+      .sort((a, b) => a.tier - b.tier)
+      .slice(0, MAX_SUPPORTING_FINDINGS)
+      .map(f => /^[A-Z][a-z]/.test(f.description)
+        ? f.description[0].toLowerCase() + f.description.slice(1)
+        : f.description);
+    if (supporting.length > 0) {
+      variables.supporting = supporting.join('; ');
     }
 
-    return explanation;
+    return variables;
   }
 
   private buildArtifactOutput(
@@ -421,7 +686,11 @@ export class ArtifactGenerator {
     primaryFinding: Finding,
     confidence: ConfidenceLevel,
     explanation: string,
-    nextStep: string
+    nextStep: string,
+    followUp: FollowUpRecommendation | undefined,
+    readings: MeasurementReading[],
+    evidence: ConfidenceEvidence,
+    causes: Cause[]
   ): Artifact {
     
     return {
@@ -435,12 +704,21 @@ export class ArtifactGenerator {
         confidence_level: confidence,
         primary_finding: primaryFinding.description,
         explanation: explanation,
-        recommended_next_step: nextStep
+        recommended_next_step: nextStep,
+        follow_up: followUp,
+        measurements: this.toInterpretedMeasurements(readings),
+        evidence,
+        differential: this.toDifferential(causes)
       }
     };
   }
 
-  private buildNoFindingArtifact(sessionState: SessionState, flowData: Flow): Artifact {
+  private buildNoFindingArtifact(
+    sessionState: SessionState,
+    flowData: Flow,
+    readings: MeasurementReading[],
+    evidence: ConfidenceEvidence
+  ): Artifact {
     return {
       artifact_schema_version: "1.0",
       flow_id: flowData.flow_id,
@@ -452,16 +730,31 @@ export class ArtifactGenerator {
         confidence_level: "Could not identify a clear cause",
         primary_finding: "Unable to determine cause",
         explanation: "The diagnostic was unable to identify a clear cause based on the responses provided.",
-        recommended_next_step: "Contact a qualified RV technician for further diagnosis and repair"
+        recommended_next_step: "Contact a qualified RV technician for further diagnosis and repair",
+        measurements: this.toInterpretedMeasurements(readings),
+        evidence
       }
     };
   }
 
-  private checkStopCondition(sessionState: SessionState): boolean {
-    return sessionState.events.some(event => event.type === 'STOP');
+  private findStopEvent(sessionState: SessionState): SessionEvent | undefined {
+    return [...sessionState.events].reverse().find(event => event.type === 'STOP');
   }
 
-  private buildStopArtifact(sessionState: SessionState, flowData: Flow): Artifact {
+  /**
+   * The STOP event's reason code decides the explanation and next step; the
+   * findings gathered before the stop keep their confidence and ranking.
+   */
+  private buildStopArtifact(
+    sessionState: SessionState,
+    flowData: Flow,
+    stopCode: StopReasonCode,
+    confidence: ConfidenceLevel,
+    readings: MeasurementReading[],
+    evidence: ConfidenceEvidence,
+    causes: Cause[]
+  ): Artifact {
+    const outcome = STOP_OUTCOMES[stopCode] ?? STOP_OUTCOMES.user_abort;
     return {
       artifact_schema_version: "1.0",
       flow_id: flowData.flow_id,
@@ -470,10 +763,13 @@ export class ArtifactGenerator {
       timestamp: new Date().toISOString(),
       
       result: {
-        confidence_level: "Strongly suggests",
-        primary_finding: "Diagnostic stopped",
-        explanation: "Do not continue. A potential safety concern was identified during this diagnostic. Further inspection is recommended before continuing.",
-        recommended_next_step: "Contact a qualified RV technician immediately"
+        confidence_level: confidence,
+        primary_finding: causes.length > 0 ? causes[0].findings[0].description : "Diagnostic stopped",
+        explanation: outcome.explanation,
+        recommended_next_step: outcome.next_step,
+        measurements: this.toInterpretedMeasurements(readings),
+        evidence,
+        differential: this.toDifferential(causes)
       }
     };
   }
@@ -1,8 +1,8 @@
-import * as Crypto from 'expo-crypto';
+import { CryptoService } from './CryptoProvider';
 
 export class ArtifactIdGenerator {
   static generate(): string {
-    return Crypto.randomUUID();
+    return CryptoService.randomUUID();
   }
 
   static isValid(id: string): boolean {
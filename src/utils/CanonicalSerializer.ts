@@ -1,4 +1,5 @@
-import * as Crypto from 'expo-crypto';
+import { CryptoService } from './CryptoProvider';
+import { JsonCanonicalizer } from './JsonCanonicalizer';
 
 import {
   CanonicalSerializationResult,
@@ -21,16 +22,19 @@ export class CanonicalSerializer {
       throw new SerializationError('Field order must be a non-empty array');
     }
 
+    // canonical_json is the RFC 8785 form and sha256_hash is taken over
+    // exactly that string, so the stored JSON verifies against its hash
+    this.checkFields(artifact, fieldOrder);
+
     let finalArtifact = artifact;
     if (computeArtifactHash && 'artifact_hash' in artifact) {
       const artifactWithEmptyHash = { ...artifact, artifact_hash: '' };
-      const pass1Json = this.serializeWithOrder(artifactWithEmptyHash, fieldOrder);
-      const pass1Hash = await this.computeSHA256(pass1Json);
+      const pass1Hash = await this.computeSHA256(this.canonicalize(artifactWithEmptyHash));
 
       finalArtifact = { ...artifact, artifact_hash: pass1Hash };
     }
 
-    const canonicalJson = this.serializeWithOrder(finalArtifact, fieldOrder);
+    const canonicalJson = this.canonicalize(finalArtifact);
     const sha256Hash = await this.computeSHA256(canonicalJson);
 
     return {
@@ -39,37 +43,26 @@ export class CanonicalSerializer {
     };
   }
 
-  private static serializeWithOrder(
-    obj: Record<string, any>,
-    fieldOrder: string[]
-  ): string {
-    const orderedObj: Record<string, any> = {};
-
-    for (const key of fieldOrder) {
-      if (key in obj) {
-        orderedObj[key] = obj[key];
-      }
-    }
-
-    const objKeys = Object.keys(obj);
-    const missingKeys = objKeys.filter(k => !fieldOrder.includes(k));
+  /** Every artifact field must be one the template declares. */
+  private static checkFields(obj: Record<string, any>, fieldOrder: string[]): void {
+    const missingKeys = Object.keys(obj).filter(k => !fieldOrder.includes(k));
     if (missingKeys.length > 0) {
       throw new SerializationError(
         `Fields not in canonical order: ${missingKeys.join(', ')}`
       );
     }
-    const canonicalJson = JSON.stringify(orderedObj);
+  }
 
-    return canonicalJson;
+  private static canonicalize(artifact: Record<string, any>): string {
+    try {
+      return JsonCanonicalizer.canonicalize(artifact);
+    } catch (error) {
+      throw new SerializationError((error as Error).message);
+    }
   }
 
   private static async computeSHA256(input: string): Promise<string> {
-    const hash = await Crypto.digestStringAsync(
-      Crypto.CryptoDigestAlgorithm.SHA256,
-      input
-    );
-
-    return hash;
+    return await CryptoService.sha256(input);
   }
 
   static async validateDeterminism(
@@ -116,7 +109,8 @@ export class CanonicalSerializer {
     fieldOrder: string[]
   ): Promise<string> {
     // Serialize artifact for export (no hash recomputation needed)
-    const exportedJson = this.serializeWithOrder(artifact, fieldOrder);
+    this.checkFields(artifact, fieldOrder);
+    const exportedJson = this.canonicalize(artifact);
 
     await this.verifyByteIdentical(storedJson, exportedJson);
 
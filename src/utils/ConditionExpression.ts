@@ -0,0 +1,421 @@
+import {
+  Interval,
+  closedInterval,
+  intersectIntervals,
+  normalizeIntervals,
+} from './ConditionIntervals';
+
+/**
+ * Measurement condition language shared by flow validation, branch
+ * resolution, result text and tier classification.
+ *
+ *   < 11.8            comparison (<, <=, >, >=, ==, !=)
+ *   >= -5 psi         negative numbers and unit suffixes
+ *   12 - 12.6         inclusive range (legacy form), also 12..12.6
+ *   12 ..< 12.6       range excluding the upper bound
+ *   [12, 12.6)        interval notation, any bracket mix
+ *   > 10 and < 12     conjunction / disjunction, with ( ) grouping
+ */
+
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export type ConditionNode =
+  | { kind: 'compare'; op: ComparisonOperator; value: number; unit?: string }
+  | {
+      kind: 'range';
+      min: number;
+      max: number;
+      minInclusive: boolean;
+      maxInclusive: boolean;
+      unit?: string;
+    }
+  | { kind: 'and'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'or'; left: ConditionNode; right: ConditionNode };
+
+export class ConditionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly condition: string,
+    public readonly position: number,
+  ) {
+    super(`${message} in condition "${condition}" at position ${position}`);
+    this.name = 'ConditionSyntaxError';
+  }
+}
+
+// ─── Tokenizer ────────────────────────────────────────────────────────────────
+
+type TokenType =
+  | 'number'
+  | 'ident'
+  | 'op'
+  | 'dash'
+  | 'dotdot'
+  | 'dotdotlt'
+  | 'and'
+  | 'or'
+  | 'lparen'
+  | 'rparen'
+  | 'lbrack'
+  | 'rbrack'
+  | 'comma';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+  value?: number;
+}
+
+// After these tokens a '-' can only start a negative number
+const SIGN_CONTEXT: (TokenType | undefined)[] = [
+  undefined, 'op', 'dash', 'dotdot', 'dotdotlt', 'and', 'or', 'lparen', 'lbrack', 'comma',
+];
+
+function tokenize(condition: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < condition.length) {
+    const rest = condition.slice(i);
+    const ws = rest.match(/^\s+/);
+    if (ws) {
+      i += ws[0].length;
+      continue;
+    }
+
+    const previous = tokens[tokens.length - 1]?.type;
+    const number = rest.match(/^-?(?:\d+(?:\.\d+)?|\.\d+)/);
+    if (number && (number[0][0] !== '-' || SIGN_CONTEXT.includes(previous))) {
+      tokens.push({ type: 'number', text: number[0], position: i, value: parseFloat(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+
+    const symbol = rest.match(/^(<=|>=|==|!=|<|>|\.\.<|\.\.|&&|\|\||-|\(|\)|\[|\]|,)/);
+    if (symbol) {
+      const text = symbol[0];
+      const type: TokenType =
+        text === '..<' ? 'dotdotlt'
+        : text === '..' ? 'dotdot'
+        : text === '&&' ? 'and'
+        : text === '||' ? 'or'
+        : text === '-' ? 'dash'
+        : text === '(' ? 'lparen'
+        : text === ')' ? 'rparen'
+        : text === '[' ? 'lbrack'
+        : text === ']' ? 'rbrack'
+        : text === ',' ? 'comma'
+        : 'op';
+      tokens.push({ type, text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z%"°][A-Za-z0-9_%"°]*/);
+    if (word) {
+      const lower = word[0].toLowerCase();
+      const type: TokenType = lower === 'and' ? 'and' : lower === 'or' ? 'or' : 'ident';
+      tokens.push({ type, text: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new ConditionSyntaxError(`Unexpected character "${condition[i]}"`, condition, i);
+  }
+
+  return tokens;
+}
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly condition: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): ConditionNode {
+    if (this.tokens.length === 0) {
+      throw new ConditionSyntaxError('Empty expression', this.condition, 0);
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw this.error(`Unexpected "${extra.text}"`, extra);
+    }
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.peek()?.type === 'or') {
+      this.pos++;
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parsePrimary();
+    while (this.peek()?.type === 'and') {
+      this.pos++;
+      left = { kind: 'and', left, right: this.parsePrimary() };
+    }
+    return left;
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.peek();
+    if (!token) {
+      throw new ConditionSyntaxError('Unexpected end of expression', this.condition, this.condition.length);
+    }
+
+    switch (token.type) {
+      case 'op': {
+        this.pos++;
+        const { value, unit } = this.parseLiteral();
+        return { kind: 'compare', op: token.text as ComparisonOperator, value, unit };
+      }
+      case 'lbrack':
+        return this.parseInterval();
+      case 'lparen': {
+        if (this.isIntervalAhead()) return this.parseInterval();
+        this.pos++;
+        const inner = this.parseOr();
+        this.expect('rparen', '")"');
+        return inner;
+      }
+      case 'number':
+        return this.parseRange();
+      default:
+        throw this.error(`Unexpected "${token.text}"`, token);
+    }
+  }
+
+  private parseRange(): ConditionNode {
+    const lower = this.parseLiteral();
+    const separator = this.peek();
+    if (!separator || !['dash', 'dotdot', 'dotdotlt'].includes(separator.type)) {
+      throw this.error('Expected a comparison operator before the number', separator);
+    }
+    this.pos++;
+    const upper = this.parseLiteral();
+    return this.makeRange(lower, upper, true, separator.type !== 'dotdotlt', separator);
+  }
+
+  private parseInterval(): ConditionNode {
+    const open = this.tokens[this.pos++];
+    const lower = this.parseLiteral();
+    this.expect('comma', '","');
+    const upper = this.parseLiteral();
+    const close = this.peek();
+    if (!close || (close.type !== 'rbrack' && close.type !== 'rparen')) {
+      throw this.error('Expected "]" or ")" to close interval', close);
+    }
+    this.pos++;
+    return this.makeRange(lower, upper, open.type === 'lbrack', close.type === 'rbrack', open);
+  }
+
+  private makeRange(
+    lower: { value: number; unit?: string },
+    upper: { value: number; unit?: string },
+    minInclusive: boolean,
+    maxInclusive: boolean,
+    at: Token,
+  ): ConditionNode {
+    if (lower.value > upper.value) {
+      throw this.error(`Range lower bound ${lower.value} exceeds upper bound ${upper.value}`, at);
+    }
+    if (lower.unit && upper.unit && lower.unit !== upper.unit) {
+      throw this.error(`Range mixes units "${lower.unit}" and "${upper.unit}"`, at);
+    }
+    return {
+      kind: 'range',
+      min: lower.value,
+      max: upper.value,
+      minInclusive,
+      maxInclusive,
+      unit: lower.unit ?? upper.unit,
+    };
+  }
+
+  private parseLiteral(): { value: number; unit?: string } {
+    const token = this.peek();
+    if (!token || token.type !== 'number') {
+      throw this.error('Expected a number', token);
+    }
+    this.pos++;
+    const unitToken = this.peek();
+    if (unitToken?.type === 'ident') {
+      this.pos++;
+      return { value: token.value!, unit: unitToken.text };
+    }
+    return { value: token.value! };
+  }
+
+  // "(" number [unit] "," starts an interval rather than a group
+  private isIntervalAhead(): boolean {
+    const next = this.tokens[this.pos + 1];
+    const after = this.tokens[this.pos + 2];
+    if (next?.type !== 'number') return false;
+    if (after?.type === 'comma') return true;
+    return after?.type === 'ident' && this.tokens[this.pos + 3]?.type === 'comma';
+  }
+
+  private expect(type: TokenType, label: string): void {
+    const token = this.peek();
+    if (token?.type !== type) {
+      throw this.error(`Expected ${label}`, token);
+    }
+    this.pos++;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private error(message: string, token: Token | undefined): ConditionSyntaxError {
+    return new ConditionSyntaxError(message, this.condition, token?.position ?? this.condition.length);
+  }
+}
+
+// ─── Units ────────────────────────────────────────────────────────────────────
+
+const UNIT_ALIASES: Record<string, string> = {
+  v: 'V', volt: 'V', volts: 'V', vdc: 'V', vac: 'V',
+  a: 'A', amp: 'A', amps: 'A',
+  psi: 'psi',
+  inwc: 'inWC', in_wc: 'inWC', '"wc': 'inWC', wc: 'inWC', inches_wc: 'inWC',
+  f: '°F', '°f': '°F', c: '°C', '°c': '°C',
+  '%': '%', percent: '%',
+};
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export class ConditionExpression {
+  private static cache = new Map<string, ConditionNode>();
+
+  static parse(condition: string): ConditionNode {
+    const cached = this.cache.get(condition);
+    if (cached) return cached;
+    const node = new Parser(condition, tokenize(condition)).parse();
+    this.cache.set(condition, node);
+    return node;
+  }
+
+  static isExpression(text: string): boolean {
+    try {
+      this.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static evaluate(condition: string | ConditionNode, value: number): boolean {
+    const node = typeof condition === 'string' ? this.parse(condition) : condition;
+    switch (node.kind) {
+      case 'compare':
+        switch (node.op) {
+          case '<':  return value < node.value;
+          case '<=': return value <= node.value;
+          case '>':  return value > node.value;
+          case '>=': return value >= node.value;
+          case '==': return value === node.value;
+          case '!=': return value !== node.value;
+        }
+        return false;
+      case 'range':
+        return (
+          (node.minInclusive ? value >= node.min : value > node.min) &&
+          (node.maxInclusive ? value <= node.max : value < node.max)
+        );
+      case 'and':
+        return this.evaluate(node.left, value) && this.evaluate(node.right, value);
+      case 'or':
+        return this.evaluate(node.left, value) || this.evaluate(node.right, value);
+    }
+  }
+
+  /**
+   * The set of values a condition accepts, as intervals on the real line.
+   */
+  static toIntervals(condition: string | ConditionNode): Interval[] {
+    const node = typeof condition === 'string' ? this.parse(condition) : condition;
+    switch (node.kind) {
+      case 'compare': {
+        const t = node.value;
+        switch (node.op) {
+          case '<':  return [{ min: -Infinity, max: t, minInclusive: false, maxInclusive: false }];
+          case '<=': return [{ min: -Infinity, max: t, minInclusive: false, maxInclusive: true }];
+          case '>':  return [{ min: t, max: Infinity, minInclusive: false, maxInclusive: false }];
+          case '>=': return [{ min: t, max: Infinity, minInclusive: true, maxInclusive: false }];
+          case '==': return [closedInterval(t, t)];
+          case '!=': return [
+            { min: -Infinity, max: t, minInclusive: false, maxInclusive: false },
+            { min: t, max: Infinity, minInclusive: false, maxInclusive: false },
+          ];
+        }
+        return [];
+      }
+      case 'range':
+        return [{ min: node.min, max: node.max, minInclusive: node.minInclusive, maxInclusive: node.maxInclusive }];
+      case 'and':
+        return intersectIntervals(this.toIntervals(node.left), this.toIntervals(node.right));
+      case 'or':
+        return normalizeIntervals([...this.toIntervals(node.left), ...this.toIntervals(node.right)]);
+    }
+  }
+
+  /**
+   * Every numeric literal in the condition, e.g. branch thresholds.
+   */
+  static literals(condition: string | ConditionNode): number[] {
+    const node = typeof condition === 'string' ? this.parse(condition) : condition;
+    switch (node.kind) {
+      case 'compare': return [node.value];
+      case 'range':   return [node.min, node.max];
+      default:        return [...this.literals(node.left), ...this.literals(node.right)];
+    }
+  }
+
+  static units(condition: string | ConditionNode): string[] {
+    const node = typeof condition === 'string' ? this.parse(condition) : condition;
+    switch (node.kind) {
+      case 'compare':
+      case 'range':
+        return node.unit ? [node.unit] : [];
+      default:
+        return [...this.units(node.left), ...this.units(node.right)];
+    }
+  }
+
+  /**
+   * Canonical spelling of a unit so "12V", "12 volts" and unit "volts"
+   * compare equal. Unknown units are compared case-insensitively.
+   */
+  static normalizeUnit(unit: string): string {
+    const key = unit.trim().toLowerCase();
+    return UNIT_ALIASES[key] ?? key;
+  }
+
+  /**
+   * Short human reading of a condition, used in MEASURE result text.
+   */
+  static describe(condition: string | ConditionNode): string {
+    const node = typeof condition === 'string' ? this.parse(condition) : condition;
+    switch (node.kind) {
+      case 'compare':
+        if (node.op === '<' || node.op === '<=') return 'Below threshold';
+        if (node.op === '>' || node.op === '>=') return 'Above threshold';
+        return 'Condition met';
+      case 'range':
+        return 'Within normal range';
+      default:
+        return 'Condition met';
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Interval arithmetic over the real line, used to reason about which
+ * measurement values a MEASURE branch condition accepts.
+ */
+export interface Interval {
+  min: number;
+  max: number;
+  minInclusive: boolean;
+  maxInclusive: boolean;
+}
+
+export function isEmptyInterval(interval: Interval): boolean {
+  if (interval.min > interval.max) return true;
+  if (interval.min === interval.max) {
+    return !(interval.minInclusive && interval.maxInclusive);
+  }
+  return false;
+}
+
+export function closedInterval(min: number, max: number): Interval {
+  return { min, max, minInclusive: true, maxInclusive: true };
+}
+
+export function intersectInterval(a: Interval, b: Interval): Interval | null {
+  const min = Math.max(a.min, b.min);
+  const max = Math.min(a.max, b.max);
+  const minInclusive =
+    a.min === b.min ? a.minInclusive && b.minInclusive : a.min > b.min ? a.minInclusive : b.minInclusive;
+  const maxInclusive =
+    a.max === b.max ? a.maxInclusive && b.maxInclusive : a.max < b.max ? a.maxInclusive : b.maxInclusive;
+  const result = { min, max, minInclusive, maxInclusive };
+  return isEmptyInterval(result) ? null : result;
+}
+
+export function intersectIntervals(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  for (const x of a) {
+    for (const y of b) {
+      const overlap = intersectInterval(x, y);
+      if (overlap) result.push(overlap);
+    }
+  }
+  return normalizeIntervals(result);
+}
+
+export function subtractInterval(a: Interval, b: Interval): Interval[] {
+  const below = intersectInterval(a, {
+    min: -Infinity,
+    max: b.min,
+    minInclusive: false,
+    maxInclusive: !b.minInclusive,
+  });
+  const above = intersectInterval(a, {
+    min: b.max,
+    max: Infinity,
+    minInclusive: !b.maxInclusive,
+    maxInclusive: false,
+  });
+  return [below, above].filter((i): i is Interval => i !== null);
+}
+
+export function subtractIntervals(a: Interval[], b: Interval[]): Interval[] {
+  let remaining = a;
+  for (const y of b) {
+    remaining = remaining.flatMap(x => subtractInterval(x, y));
+  }
+  return normalizeIntervals(remaining);
+}
+
+/**
+ * Sort and merge touching or overlapping intervals.
+ */
+export function normalizeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals
+    .filter(i => !isEmptyInterval(i))
+    .sort((a, b) => a.min - b.min || Number(b.minInclusive) - Number(a.minInclusive));
+
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    const touches =
+      last &&
+      (interval.min < last.max ||
+        (interval.min === last.max && (last.maxInclusive || interval.minInclusive)));
+    if (!touches) {
+      merged.push({ ...interval });
+      continue;
+    }
+    if (interval.max > last.max) {
+      last.max = interval.max;
+      last.maxInclusive = interval.maxInclusive;
+    } else if (interval.max === last.max) {
+      last.maxInclusive = last.maxInclusive || interval.maxInclusive;
+    }
+  }
+  return merged;
+}
+
+export function formatInterval(interval: Interval): string {
+  if (interval.min === interval.max) {
+    return `${interval.min}`;
+  }
+  const open = interval.minInclusive ? '[' : '(';
+  const close = interval.maxInclusive ? ']' : ')';
+  return `${open}${interval.min}, ${interval.max}${close}`;
+}
+
+export function formatIntervals(intervals: Interval[]): string {
+  return intervals.map(formatInterval).join(' ∪ ');
+}
@@ -0,0 +1,47 @@
+export interface CryptoProvider {
+  sha256(input: string): Promise<string>;
+  randomUUID(): string;
+  /** Ed25519 signature check; publicKey is the raw 32-byte key */
+  verifyEd25519(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean;
+}
+
+export class CryptoProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CryptoProviderError';
+  }
+}
+
+/**
+ * Hashing, signature checks and UUID generation for the engine core. The platform
+ * implementation (expo-crypto on device, node:crypto for the CLI) is
+ * registered at startup so the core never imports a native module.
+ */
+export class CryptoService {
+  private static provider: CryptoProvider | null = null;
+
+  static configure(provider: CryptoProvider): void {
+    this.provider = provider;
+  }
+
+  static sha256(input: string): Promise<string> {
+    return this.getProvider().sha256(input);
+  }
+
+  static randomUUID(): string {
+    return this.getProvider().randomUUID();
+  }
+
+  static verifyEd25519(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+    return this.getProvider().verifyEd25519(publicKey, message, signature);
+  }
+
+  private static getProvider(): CryptoProvider {
+    if (!this.provider) {
+      throw new CryptoProviderError(
+        'No CryptoProvider configured. Call CryptoService.configure() at startup.'
+      );
+    }
+    return this.provider;
+  }
+}
@@ -0,0 +1,104 @@
+// ─── Template syntax ──────────────────────────────────────────────────────────
+//
+//   {measure.node_id}   reading with its unit, e.g. "11.4 volts"
+//   {unit.node_id}      unit of a MEASURE node
+//   {answer.node_id}    answer given to a QUESTION node
+//   {supporting}        other findings, e.g. "battery cables appear loose"
+//   {#name}…{/name}     section rendered only when `name` has a value
+//   {^name}…{/name}     section rendered only when it does not
+//
+// Anything else in braces is left as literal text.
+
+export type TemplateVariables = Record<string, string | undefined>;
+
+type TemplatePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'section'; name: string; inverted: boolean; body: TemplatePart[] };
+
+export class ExplanationTemplateError extends Error {
+  constructor(message: string, public readonly template: string) {
+    super(message);
+    this.name = 'ExplanationTemplateError';
+  }
+}
+
+const TAG = /\{([#^/]?)([a-z_][a-z0-9_]*(?:\.[a-z0-9_]+)?)\}/gi;
+
+export class ExplanationTemplate {
+  private static cache = new Map<string, TemplatePart[]>();
+
+  static parse(template: string): TemplatePart[] {
+    const cached = this.cache.get(template);
+    if (cached) return cached;
+
+    const root: TemplatePart[] = [];
+    const stack: { name: string; parts: TemplatePart[] }[] = [{ name: '', parts: root }];
+    let last = 0;
+
+    for (const match of template.matchAll(TAG)) {
+      const [tag, sigil, name] = match;
+      const parts = stack[stack.length - 1].parts;
+      if (match.index! > last) {
+        parts.push({ kind: 'text', text: template.slice(last, match.index) });
+      }
+      last = match.index! + tag.length;
+
+      if (sigil === '/') {
+        if (stack.length === 1 || stack[stack.length - 1].name !== name) {
+          throw new ExplanationTemplateError(`Unexpected closing tag {/${name}}`, template);
+        }
+        stack.pop();
+      } else if (sigil === '#' || sigil === '^') {
+        const body: TemplatePart[] = [];
+        parts.push({ kind: 'section', name, inverted: sigil === '^', body });
+        stack.push({ name, parts: body });
+      } else {
+        parts.push({ kind: 'variable', name });
+      }
+    }
+
+    if (stack.length > 1) {
+      throw new ExplanationTemplateError(`Section {#${stack[stack.length - 1].name}} is never closed`, template);
+    }
+    if (last < template.length) {
+      root.push({ kind: 'text', text: template.slice(last) });
+    }
+
+    this.cache.set(template, root);
+    return root;
+  }
+
+  /** Every variable the template reads, including section names. */
+  static variables(template: string): string[] {
+    const names = new Set<string>();
+    const walk = (parts: TemplatePart[]) => {
+      for (const part of parts) {
+        if (part.kind === 'text') continue;
+        names.add(part.name);
+        if (part.kind === 'section') walk(part.body);
+      }
+    };
+    walk(this.parse(template));
+    return [...names];
+  }
+
+  /** Missing variables render as empty text. */
+  static render(template: string, variables: TemplateVariables): string {
+    const renderParts = (parts: TemplatePart[]): string =>
+      parts.map(part => {
+        switch (part.kind) {
+          case 'text':
+            return part.text;
+          case 'variable':
+            return variables[part.name] ?? '';
+          case 'section': {
+            const present = (variables[part.name] ?? '') !== '';
+            return present !== part.inverted ? renderParts(part.body) : '';
+          }
+        }
+      }).join('');
+
+    return renderParts(this.parse(template));
+  }
+}
@@ -0,0 +1,17 @@
+import * as Crypto from 'expo-crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { CryptoProvider } from './CryptoProvider';
+
+// expo-crypto has no Ed25519, so signatures are checked in pure JS
+export const ExpoCryptoProvider: CryptoProvider = {
+  sha256: (input: string) =>
+    Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, input),
+  randomUUID: () => Crypto.randomUUID(),
+  verifyEd25519: (publicKey, message, signature) => {
+    try {
+      return ed25519.verify(signature, message, publicKey);
+    } catch {
+      return false;
+    }
+  },
+};
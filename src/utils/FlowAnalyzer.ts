@@ -0,0 +1,227 @@
+import {
+  RawFlow,
+  RawFlowNode,
+  QuestionNode,
+  SafetyNode,
+  MeasureNode,
+  MeasureBranch,
+  LoopPolicy,
+} from '../validators/FlowValidator';
+import { ConditionExpression } from './ConditionExpression';
+
+export interface FlowPathStep {
+  node_id: string;
+  type: string;
+  answer: string | number | boolean;
+  condition?: string; // MEASURE only: the branch the representative value selects
+  exhausted?: boolean; // loop heads only: the engine's redirect once maxIterations is spent
+}
+
+export interface FlowPath {
+  steps: FlowPathStep[];
+  terminal_node_id: string;
+  depth: number;
+}
+
+export interface UnreachableBranch {
+  node_id: string;
+  branch_index: number;
+  condition: string;
+}
+
+export interface FlowCoverageReport {
+  flow_id: string;
+  flow_version: string;
+  path_count: number;
+  min_depth: number;
+  max_depth: number;
+  terminals: string[];
+  terminals_reached: string[];
+  unreached_terminals: string[];
+  terminal_coverage: number; // 0..1
+  paths_per_terminal: Record<string, number>;
+  unreachable_branches: UnreachableBranch[];
+  cyclic_paths_skipped: number;
+  paths: FlowPath[];
+}
+
+export class FlowAnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlowAnalysisError';
+  }
+}
+
+interface Edge {
+  answer: string | number | boolean;
+  next: string;
+  condition?: string;
+  exhausted?: boolean;
+}
+
+/**
+ * Static analysis of flow definitions. Enumerates every simple
+ * start-to-terminal path, using one representative value per MEASURE
+ * branch, so coverage can be asserted without running the app. A loop head
+ * also leads to its onExhausted node, as the engine redirects there once
+ * the loop's visits are spent.
+ */
+export class FlowAnalyzer {
+  static readonly DEFAULT_MAX_PATHS = 10000;
+
+  static analyze(raw: RawFlow, maxPaths: number = this.DEFAULT_MAX_PATHS): FlowCoverageReport {
+    const unreachableBranches: UnreachableBranch[] = [];
+    const edges = this.buildEdges(raw.nodes, unreachableBranches);
+    const paths: FlowPath[] = [];
+    let cyclicPathsSkipped = 0;
+
+    const walk = (nodeId: string, steps: FlowPathStep[], onPath: Set<string>): void => {
+      const node = raw.nodes[nodeId];
+      if (node.type === 'TERMINAL') {
+        if (paths.length >= maxPaths) {
+          throw new FlowAnalysisError(
+            `Flow "${raw.flowId}" has more than ${maxPaths} paths; refusing to enumerate further`
+          );
+        }
+        paths.push({ steps, terminal_node_id: nodeId, depth: steps.length });
+        return;
+      }
+
+      onPath.add(nodeId);
+      for (const edge of edges[nodeId] ?? []) {
+        if (onPath.has(edge.next)) {
+          cyclicPathsSkipped++;
+          continue;
+        }
+        const step: FlowPathStep = { node_id: nodeId, type: node.type, answer: edge.answer };
+        if (edge.condition !== undefined) step.condition = edge.condition;
+        if (edge.exhausted) step.exhausted = true;
+        walk(edge.next, [...steps, step], onPath);
+      }
+      onPath.delete(nodeId);
+    };
+
+    walk(raw.startNode, [], new Set());
+
+    const terminals = Object.keys(raw.nodes).filter(id => raw.nodes[id].type === 'TERMINAL');
+    const pathsPerTerminal: Record<string, number> = {};
+    for (const path of paths) {
+      pathsPerTerminal[path.terminal_node_id] = (pathsPerTerminal[path.terminal_node_id] ?? 0) + 1;
+    }
+    const terminalsReached = terminals.filter(id => pathsPerTerminal[id] !== undefined);
+    const depths = paths.map(p => p.depth);
+
+    return {
+      flow_id: raw.flowId,
+      flow_version: raw.flowVersion,
+      path_count: paths.length,
+      min_depth: depths.length > 0 ? Math.min(...depths) : 0,
+      max_depth: depths.length > 0 ? Math.max(...depths) : 0,
+      terminals,
+      terminals_reached: terminalsReached,
+      unreached_terminals: terminals.filter(id => pathsPerTerminal[id] === undefined),
+      terminal_coverage: terminals.length > 0 ? terminalsReached.length / terminals.length : 0,
+      paths_per_terminal: pathsPerTerminal,
+      unreachable_branches: unreachableBranches,
+      cyclic_paths_skipped: cyclicPathsSkipped,
+      paths,
+    };
+  }
+
+  // ── Edges ──────────────────────────────────────────────────────────────────
+
+  private static buildEdges(
+    nodes: Record<string, RawFlowNode>,
+    unreachableBranches: UnreachableBranch[]
+  ): Record<string, Edge[]> {
+    const edges: Record<string, Edge[]> = {};
+
+    for (const [nodeId, node] of Object.entries(nodes)) {
+      switch (node.type) {
+        case 'QUESTION':
+          edges[nodeId] = Object.entries((node as QuestionNode).answers).map(
+            ([answerKey, next]) => ({ answer: answerKey, next })
+          );
+          break;
+        case 'SAFETY':
+          edges[nodeId] = [{ answer: true, next: (node as SafetyNode).next }];
+          break;
+        case 'MEASURE': {
+          const m = node as MeasureNode;
+          edges[nodeId] = [];
+          m.branches.forEach((branch, index) => {
+            const value = this.representativeValue(m, index);
+            if (value === null) {
+              unreachableBranches.push({ node_id: nodeId, branch_index: index, condition: branch.condition });
+              return;
+            }
+            edges[nodeId].push({ answer: value, next: branch.next, condition: branch.condition });
+          });
+          break;
+        }
+        default:
+          edges[nodeId] = [];
+      }
+
+      const loop = node.loop as LoopPolicy | undefined;
+      if (loop) {
+        edges[nodeId].push({ answer: 'exhausted', next: loop.onExhausted, exhausted: true });
+      }
+    }
+
+    return edges;
+  }
+
+  // ── MEASURE representatives ────────────────────────────────────────────────
+
+  /**
+   * Pick a value inside validRange that the engine would route to the given
+   * branch under first-match semantics, or null if no such value exists.
+   */
+  static representativeValue(node: MeasureNode, branchIndex: number): number | null {
+    for (const candidate of this.candidateValues(node)) {
+      if (this.firstMatchingBranch(node.branches, candidate) === branchIndex) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  private static candidateValues(node: MeasureNode): number[] {
+    const { min, max } = node.validRange;
+    const thresholds = new Set<number>();
+    for (const branch of node.branches) {
+      if (!ConditionExpression.isExpression(branch.condition)) continue;
+      for (const value of ConditionExpression.literals(branch.condition)) {
+        if (value >= min && value <= max) thresholds.add(value);
+      }
+    }
+
+    const points = [...new Set([min, ...thresholds, max])].sort((a, b) => a - b);
+    const epsilon = (max - min) / 1000;
+    const midpoints: number[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+      midpoints.push(this.round((points[i] + points[i + 1]) / 2));
+    }
+    const nudged = [...thresholds].flatMap(t => [t - epsilon, t + epsilon]).filter(v => v >= min && v <= max);
+
+    // Interval midpoints read best in reports; exact thresholds and nudged
+    // values catch equality branches and very narrow intervals.
+    return [...midpoints, ...thresholds, ...nudged, min, max];
+  }
+
+  private static firstMatchingBranch(branches: MeasureBranch[], value: number): number {
+    for (let i = 0; i < branches.length; i++) {
+      try {
+        if (ConditionExpression.evaluate(branches[i].condition, value)) return i;
+      } catch {
+        // Unparseable conditions are reported by FlowValidator, not here
+      }
+    }
+    return -1;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
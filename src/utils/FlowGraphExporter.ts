@@ -0,0 +1,261 @@
+import { SessionEvent } from '../types';
+import { ConditionExpression } from './ConditionExpression';
+import {
+  RawFlow,
+  RawFlowNode,
+  QuestionNode,
+  SafetyNode,
+  MeasureNode,
+  TerminalNode,
+  LoopPolicy,
+} from '../validators/FlowValidator';
+
+export interface FlowGraphExportOptions {
+  /** Session events (e.g. SessionSummary.events) whose path is highlighted */
+  highlight?: SessionEvent[];
+  /** Node labels are cut to this many characters of node text; 0 keeps all */
+  maxLabelLength?: number;
+}
+
+type EdgeKind = 'answer' | 'branch' | 'next' | 'exhausted';
+
+interface GraphNode {
+  id: string;
+  type: string;
+  text: string;
+}
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  kind: EdgeKind;
+  label?: string;
+}
+
+interface FlowGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+interface TakenPath {
+  nodes: Set<string>;
+  edges: Set<number>;
+}
+
+const DEFAULT_MAX_LABEL_LENGTH = 80;
+
+const HIGHLIGHT_FILL = '#fde68a';
+const HIGHLIGHT_STROKE = '#b45309';
+
+/**
+ * Renders flow definitions as Mermaid flowcharts or Graphviz DOT for review.
+ * QUESTION nodes are diamonds, SAFETY hexagons, MEASURE parallelograms and
+ * TERMINAL stadiums (rounded boxes in DOT); answer keys and branch
+ * conditions label the edges.
+ */
+export class FlowGraphExporter {
+  static toMermaid(raw: RawFlow, options: FlowGraphExportOptions = {}): string {
+    const graph = this.buildGraph(raw);
+    const taken = this.tracePath(raw, graph, options.highlight);
+    const maxLength = options.maxLabelLength ?? DEFAULT_MAX_LABEL_LENGTH;
+    const lines = [`%% ${raw.flowId} v${raw.flowVersion}`, 'flowchart TD'];
+
+    for (const node of graph.nodes) {
+      const label = mermaidText(`${node.id}\n${truncate(node.text, maxLength)}`);
+      lines.push(`  ${mermaidId(node.id)}${mermaidShape(node.type, `"${label}"`)}`);
+    }
+
+    for (const edge of graph.edges) {
+      const arrow = edge.kind === 'exhausted' ? '-.->' : '-->';
+      const label = edge.label ? `|"${mermaidText(edge.label)}"|` : '';
+      lines.push(`  ${mermaidId(edge.from)} ${arrow}${label} ${mermaidId(edge.to)}`);
+    }
+
+    if (taken) {
+      lines.push(`  classDef taken fill:${HIGHLIGHT_FILL},stroke:${HIGHLIGHT_STROKE},stroke-width:2px`);
+      lines.push(`  class ${[...taken.nodes].map(mermaidId).join(',')} taken`);
+      if (taken.edges.size > 0) {
+        const indexes = [...taken.edges].sort((a, b) => a - b).join(',');
+        lines.push(`  linkStyle ${indexes} stroke:${HIGHLIGHT_STROKE},stroke-width:3px`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  static toDot(raw: RawFlow, options: FlowGraphExportOptions = {}): string {
+    const graph = this.buildGraph(raw);
+    const taken = this.tracePath(raw, graph, options.highlight);
+    const maxLength = options.maxLabelLength ?? DEFAULT_MAX_LABEL_LENGTH;
+    const lines = [
+      `digraph ${dotString(raw.flowId)} {`,
+      `  label=${dotString(`${raw.flowId} v${raw.flowVersion}`)};`,
+      '  rankdir=TB;',
+      '  node [fontname="Helvetica"];',
+      '  edge [fontname="Helvetica"];',
+    ];
+
+    for (const node of graph.nodes) {
+      const attrs = [
+        `label=${dotString(`${node.id}\n${truncate(node.text, maxLength)}`)}`,
+        `shape=${dotShape(node.type)}`,
+      ];
+      const styles = node.type === 'TERMINAL' ? ['rounded'] : [];
+      if (taken?.nodes.has(node.id)) {
+        styles.push('filled');
+        attrs.push(`fillcolor="${HIGHLIGHT_FILL}"`, `color="${HIGHLIGHT_STROKE}"`, 'penwidth=2');
+      }
+      if (styles.length > 0) attrs.push(`style="${styles.join(',')}"`);
+      lines.push(`  ${dotString(node.id)} [${attrs.join(', ')}];`);
+    }
+
+    graph.edges.forEach((edge, index) => {
+      const attrs: string[] = [];
+      if (edge.label) attrs.push(`label=${dotString(edge.label)}`);
+      if (edge.kind === 'exhausted') attrs.push('style=dashed');
+      if (taken?.edges.has(index)) attrs.push(`color="${HIGHLIGHT_STROKE}"`, 'penwidth=3');
+      const suffix = attrs.length > 0 ? ` [${attrs.join(', ')}]` : '';
+      lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)}${suffix};`);
+    });
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  // ── Graph model ────────────────────────────────────────────────────────────
+
+  private static buildGraph(raw: RawFlow): FlowGraph {
+    const nodes: GraphNode[] = [];
+    const edges: GraphEdge[] = [];
+
+    for (const [id, node] of Object.entries(raw.nodes)) {
+      nodes.push({ id, type: node.type, text: this.nodeText(node) });
+
+      switch (node.type) {
+        case 'QUESTION':
+          for (const [answerKey, next] of Object.entries((node as QuestionNode).answers)) {
+            edges.push({ from: id, to: next, kind: 'answer', label: answerKey });
+          }
+          break;
+        case 'SAFETY':
+          edges.push({ from: id, to: (node as SafetyNode).next, kind: 'next' });
+          break;
+        case 'MEASURE':
+          for (const branch of (node as MeasureNode).branches) {
+            edges.push({ from: id, to: branch.next, kind: 'branch', label: branch.condition });
+          }
+          break;
+      }
+
+      const loop = node.loop as LoopPolicy | undefined;
+      if (loop) {
+        edges.push({
+          from: id,
+          to: loop.onExhausted,
+          kind: 'exhausted',
+          label: `after ${loop.maxIterations} visits`,
+        });
+      }
+    }
+
+    return { nodes, edges };
+  }
+
+  private static nodeText(node: RawFlowNode): string {
+    if (node.type === 'TERMINAL') return (node as TerminalNode).result;
+    const text = String(node.text ?? '');
+    const unit = (node as MeasureNode).unit;
+    return node.type === 'MEASURE' && unit ? `${text} (${unit})` : text;
+  }
+
+  /**
+   * Map consecutive events to the edges the engine followed. Where several
+   * edges join the same pair of nodes, the recorded answer or measurement
+   * picks the right one.
+   */
+  private static tracePath(
+    raw: RawFlow,
+    graph: FlowGraph,
+    events: SessionEvent[] | undefined
+  ): TakenPath | null {
+    if (!events || events.length === 0) return null;
+
+    const taken: TakenPath = { nodes: new Set(), edges: new Set() };
+    events.forEach((event, i) => {
+      if (!raw.nodes[event.node_id]) return;
+      taken.nodes.add(event.node_id);
+
+      const next = events[i + 1];
+      if (!next) return;
+      const candidates = graph.edges
+        .map((edge, index) => ({ edge, index }))
+        .filter(({ edge }) => edge.from === event.node_id && edge.to === next.node_id);
+      const match =
+        candidates.find(({ edge }) => this.edgeMatchesValue(edge, event.value)) ?? candidates[0];
+      if (match) taken.edges.add(match.index);
+    });
+
+    return taken;
+  }
+
+  private static edgeMatchesValue(edge: GraphEdge, value: SessionEvent['value']): boolean {
+    switch (edge.kind) {
+      case 'answer':
+        return edge.label === String(value);
+      case 'branch':
+        try {
+          return ConditionExpression.evaluate(edge.label!, Number(value));
+        } catch {
+          return false;
+        }
+      case 'next':
+        return true;
+      default:
+        return false;
+    }
+  }
+}
+
+// ─── Formatting helpers ───────────────────────────────────────────────────────
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  if (maxLength <= 0 || singleLine.length <= maxLength) return singleLine;
+  return `${singleLine.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+function mermaidId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+/** Mermaid entity codes for characters that break quoted labels. */
+function mermaidText(text: string): string {
+  return text
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/\n/g, '<br/>');
+}
+
+function mermaidShape(type: string, label: string): string {
+  switch (type) {
+    case 'QUESTION': return `{${label}}`;
+    case 'SAFETY':   return `{{${label}}}`;
+    case 'MEASURE':  return `[/${label}/]`;
+    case 'TERMINAL': return `([${label}])`;
+    default:         return `[${label}]`;
+  }
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function dotShape(type: string): string {
+  switch (type) {
+    case 'QUESTION': return 'diamond';
+    case 'SAFETY':   return 'hexagon';
+    case 'MEASURE':  return 'parallelogram';
+    default:         return 'box'; // TERMINAL is a rounded box, DOT has no stadium
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * JSON Canonicalization Scheme (RFC 8785).
+ *
+ * Produces one byte sequence per JSON value regardless of how the source
+ * was formatted: no insignificant whitespace, object keys sorted by UTF-16
+ * code units, numbers in ECMAScript shortest form (10.0 → 10, 1e30 → 1e+30)
+ * and strings with only the mandatory escapes. Hashes of the canonical form
+ * therefore match those of any other conforming JCS implementation.
+ */
+
+export class CanonicalizationError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(`${message} at ${path || '/'}`);
+    this.name = 'CanonicalizationError';
+  }
+}
+
+export class JsonCanonicalizer {
+  static canonicalize(value: unknown): string {
+    return this.serialize(value, '', new Set());
+  }
+
+  /** Parse JSON text and return its canonical form. */
+  static canonicalizeText(json: string): string {
+    return this.canonicalize(JSON.parse(json));
+  }
+
+  private static serialize(value: unknown, path: string, ancestors: Set<object>): string {
+    if (value === null) return 'null';
+
+    switch (typeof value) {
+      case 'boolean':
+        return value ? 'true' : 'false';
+      case 'number':
+        if (!Number.isFinite(value)) {
+          throw new CanonicalizationError(`Non-finite number ${value} is not valid JSON`, path);
+        }
+        // ECMAScript Number-to-String is the serialization RFC 8785 mandates; -0 becomes "0"
+        return String(value);
+      case 'string':
+        if (/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/.test(value)) {
+          throw new CanonicalizationError('Lone surrogate in string', path);
+        }
+        return JSON.stringify(value);
+      case 'object':
+        break;
+      default:
+        throw new CanonicalizationError(`Unsupported ${typeof value} value`, path);
+    }
+
+    const object = value as object;
+    if (ancestors.has(object)) {
+      throw new CanonicalizationError('Circular reference', path);
+    }
+    ancestors.add(object);
+
+    let result: string;
+    if (Array.isArray(object)) {
+      result = `[${object
+        .map((item, i) => this.serialize(item === undefined ? null : item, `${path}/${i}`, ancestors))
+        .join(',')}]`;
+    } else {
+      const record = object as Record<string, unknown>;
+      // Default string sort compares UTF-16 code units, as the RFC requires
+      const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+      result = `{${keys
+        .map(key => `${this.serialize(key, path, ancestors)}:${this.serialize(record[key], `${path}/${key}`, ancestors)}`)
+        .join(',')}}`;
+    }
+
+    ancestors.delete(object);
+    return result;
+  }
+}
@@ -0,0 +1,19 @@
+import { createHash, createPublicKey, randomUUID, verify } from 'node:crypto';
+import { CryptoProvider } from './CryptoProvider';
+
+export const NodeCryptoProvider: CryptoProvider = {
+  sha256: async (input: string) =>
+    createHash('sha256').update(input, 'utf8').digest('hex'),
+  randomUUID: () => randomUUID(),
+  verifyEd25519: (publicKey, message, signature) => {
+    try {
+      const key = createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey).toString('base64url') },
+        format: 'jwk',
+      });
+      return verify(null, message, key, signature);
+    } catch {
+      return false;
+    }
+  },
+};
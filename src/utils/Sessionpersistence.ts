@@ -1,6 +1,6 @@
-import { MMKV } from 'react-native-mmkv';
 import { SessionState } from '../types';
 import { ArtifactIdGenerator } from './ArtifactIdGenerator';
+import { KeyValueStore } from '../storage/KeyValueStore';
 
 const STORAGE_KEYS = {
   SESSION_STATE: 'diagnostic_session_state',
@@ -8,9 +8,9 @@ const STORAGE_KEYS = {
 } as const;
 
 export class SessionPersistence {
-  private storage: MMKV;
+  private storage: KeyValueStore;
 
-  constructor(storage: MMKV) {
+  constructor(storage: KeyValueStore) {
     this.storage = storage;
   }
 
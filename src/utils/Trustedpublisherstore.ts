@@ -0,0 +1,30 @@
+import { TrustedPublisherKey } from '../validators/FlowBundleVerifier';
+
+// Pinned publisher keys for signed flow bundles. Revoke a key by setting
+// `revoked: true` rather than deleting it, so bundles it signed are refused
+// instead of reported as unknown. Generate keys with `npm run flow:bundle -- keygen`.
+export const TRUSTED_PUBLISHERS: TrustedPublisherKey[] = [];
+
+export class TrustedPublisherStore {
+  static getKeys(): TrustedPublisherKey[] {
+    return [...TRUSTED_PUBLISHERS];
+  }
+
+  static findKey(keyId: string): TrustedPublisherKey | undefined {
+    return TRUSTED_PUBLISHERS.find(k => k.key_id === keyId);
+  }
+
+  static registerKey(key: TrustedPublisherKey): void {
+    const index = TRUSTED_PUBLISHERS.findIndex(k => k.key_id === key.key_id);
+    if (index >= 0) {
+      TRUSTED_PUBLISHERS[index] = key;
+    } else {
+      TRUSTED_PUBLISHERS.push(key);
+    }
+  }
+
+  static revokeKey(keyId: string): void {
+    const key = this.findKey(keyId);
+    if (key) key.revoked = true;
+  }
+}
@@ -1,10 +1,26 @@
 import { artifactGenerator } from './ArtifactGenerator';
-import { SessionState, SessionEvent, SessionSummary } from '../types';
-import { StorageService } from '../services/StorageService';
-import { ArtifactFinalizationService } from '../services/Artifactfinalizationservice';
+import {
+  SessionState,
+  SessionEvent,
+  SessionSummary,
+  ExecutedNode,
+  RewindRecord,
+  RigIdentity,
+  OpenSessionInfo,
+  FinalizationError,
+  StopReasonCode,
+} from '../types';
 import { ArtifactIdGenerator } from './ArtifactIdGenerator';
+import { ConditionExpression } from './ConditionExpression';
 import { FlowChecksumValidator, ChecksumVerificationError } from '../validators/Flowchecksumvalidator';
-import { createMMKV } from 'react-native-mmkv';
+import {
+  FlowBundleVerifier,
+  BundleVerificationError,
+  TrustedPublisherKey,
+} from '../validators/FlowBundleVerifier';
+import { TrustedPublisherStore } from './Trustedpublisherstore';
+import { FlowRegistry } from '../services/FlowRegistry';
+import type { ArtifactFinalizationService } from '../services/Artifactfinalizationservice';
 import {
   RawFlow,
   RawFlowNode,
@@ -15,11 +31,11 @@ import {
   FlowArtifact,
   FlowValidator,
   FlowValidationError,
+  LoopPolicy,
   resolveMeasureBranch,
 } from '../validators/FlowValidator';
-import { RigIdentityService } from '../services/RigIdentityService';
 
-export { FlowValidationError, ChecksumVerificationError };
+export { FlowValidationError, ChecksumVerificationError, BundleVerificationError };
 
 export class FlowEngineError extends Error {
   constructor(message: string) {
@@ -28,42 +44,123 @@ export class FlowEngineError extends Error {
   }
 }
 
+/**
+ * Persistence the engine needs. StorageService satisfies this on device;
+ * the CLI and tests can supply their own implementation.
+ */
+export interface FlowEngineStorage {
+  saveSessionState(state: SessionState): void;
+  /** By id, or the most recently touched open session when omitted */
+  loadSessionState(sessionId?: string): SessionState | null;
+  clearSessionState(sessionId: string): void;
+  getOpenSessions(): OpenSessionInfo[];
+  saveSessionSummary(summary: SessionSummary): void;
+  getSessionHistory(): SessionSummary[];
+}
+
+/** When open sessions are given up on and stopped. */
+export interface SessionAbandonmentPolicy {
+  /** Sessions untouched for longer than this are abandoned */
+  maxIdleMs: number;
+  /** Starting a session beyond this many open ones abandons the oldest */
+  maxOpenSessions: number;
+}
+
+export const DEFAULT_ABANDONMENT_POLICY: SessionAbandonmentPolicy = {
+  maxIdleMs: 30 * 24 * 60 * 60 * 1000,
+  maxOpenSessions: 5,
+};
+
+/** stop_reason recorded when a stop is not given one. */
+const DEFAULT_STOP_REASONS: Record<StopReasonCode, string> = {
+  user_abort: 'User stopped',
+  safety_hazard: 'Safety hazard reported',
+  capability_declined: 'Capability declined',
+  flow_unavailable: 'Flow version no longer available',
+  abandoned: 'Abandoned without activity',
+};
+
+export interface FlowEngineEnvironment {
+  storage: FlowEngineStorage;
+  identity: { getOrCreate(): RigIdentity };
+  finalizer: Pick<ArtifactFinalizationService, 'finalizeArtifact'>;
+  abandonment?: SessionAbandonmentPolicy;
+}
+
+export interface ResumedSession {
+  engine: FlowEngine | null; // null when the session was stopped instead of resumed
+  session: SessionState;
+}
+
 export class FlowEngine {
+  private static defaultEnvironment: FlowEngineEnvironment | null = null;
+
   private flow: RawFlow;
   private nodes: Record<string, RawFlowNode>;
-  // private artifactService: ArtifactFinalizationService;
+  private environment: FlowEngineEnvironment;
 
-  private constructor(rawFlow: unknown) {
+  private constructor(rawFlow: unknown, environment?: FlowEngineEnvironment) {
+    this.environment = environment ?? FlowEngine.getDefaultEnvironment();
     try {
-      FlowValidator.validate(rawFlow as RawFlow);
+      FlowValidator.validateSync(rawFlow as RawFlow);
       this.flow = rawFlow as RawFlow;
       this.nodes = this.flow.nodes;
-      const storage = createMMKV({ id: 'rv-diagnostic-engine' });
-      // this.artifactService = new ArtifactFinalizationService(storage);
     } catch (error) {
       if (error instanceof FlowValidationError) throw error;
       throw new FlowEngineError(`Invalid flow definition: ${error}`);
     }
   }
 
+  static configure(environment: FlowEngineEnvironment): void {
+    FlowEngine.defaultEnvironment = environment;
+  }
+
+  private static getDefaultEnvironment(): FlowEngineEnvironment {
+    if (!FlowEngine.defaultEnvironment) {
+      throw new FlowEngineError(
+        'FlowEngine has no storage configured. Call FlowEngine.configure() at startup.'
+      );
+    }
+    return FlowEngine.defaultEnvironment;
+  }
+
+  private get storage(): FlowEngineStorage {
+    return this.environment.storage;
+  }
+
   static async createWithChecksum(
     rawFlow: unknown,
-    expectedChecksum: string
+    expectedChecksum: string,
+    environment?: FlowEngineEnvironment
   ): Promise<FlowEngine> {
     const flow = rawFlow as RawFlow;
-    const flowJsonString = JSON.stringify(rawFlow);
     
     await FlowChecksumValidator.verifyChecksumOrThrow(
-      flowJsonString,
+      flow,
       expectedChecksum,
       flow.flowId,
       flow.flowVersion
     );
 
-    return new FlowEngine(rawFlow);
+    return new FlowEngine(rawFlow, environment);
   }
 
-  static createUnsafe(rawFlow: unknown): FlowEngine {
+  /**
+   * Load a flow from a signed bundle. The manifest signature must verify
+   * against a pinned, unrevoked publisher key and the flow must match its
+   * signed content hash. Needs no network access.
+   */
+  static async createFromSignedBundle(
+    bundle: unknown,
+    flowId: string,
+    trustedKeys: TrustedPublisherKey[] = TrustedPublisherStore.getKeys(),
+    environment?: FlowEngineEnvironment
+  ): Promise<FlowEngine> {
+    const flow = await FlowBundleVerifier.verifyFlow(bundle, flowId, trustedKeys);
+    return new FlowEngine(flow, environment);
+  }
+
+  static createUnsafe(rawFlow: unknown, environment?: FlowEngineEnvironment): FlowEngine {
     const flow = rawFlow as RawFlow;
     console.warn(
       '[UNSAFE_FLOW_CREATION]',
@@ -71,7 +168,115 @@ export class FlowEngine {
       'This should only be used for testing.',
       { flow_id: flow.flowId, flow_version: flow.flowVersion }
     );
-    return new FlowEngine(rawFlow);
+    return new FlowEngine(rawFlow, environment);
+  }
+
+  // ── Open sessions ──────────────────────────────────────────────────────────
+
+  /** In-progress sessions, most recently touched first, after idle ones are abandoned. */
+  static listOpenSessions(environment?: FlowEngineEnvironment): OpenSessionInfo[] {
+    const env = environment ?? FlowEngine.getDefaultEnvironment();
+    const { maxIdleMs } = env.abandonment ?? DEFAULT_ABANDONMENT_POLICY;
+    const cutoff = Date.now() - maxIdleMs;
+    const days = Math.round(maxIdleMs / (24 * 60 * 60 * 1000));
+
+    for (const info of env.storage.getOpenSessions()) {
+      if (Date.parse(info.updated_at) < cutoff) {
+        FlowEngine.abandonSession(env, info, `Abandoned after ${days} days without activity`);
+      }
+    }
+    return env.storage.getOpenSessions();
+  }
+
+  /** Stop an open session without its flow loaded and record it in history. */
+  private static abandonSession(
+    env: FlowEngineEnvironment,
+    info: OpenSessionInfo,
+    stopReason: string
+  ): void {
+    const session = env.storage.loadSessionState(info.session_id);
+    if (!session) {
+      env.storage.clearSessionState(info.session_id);
+      return;
+    }
+    FlowEngine.stopStoredSession(env, session, 'abandoned', stopReason);
+  }
+
+  /**
+   * Stop a stored session on its own flow version, without loading that
+   * flow (it may no longer be registered), and record it in history.
+   */
+  private static stopStoredSession(
+    env: FlowEngineEnvironment,
+    session: SessionState,
+    stopCode: StopReasonCode,
+    stopReason: string
+  ): SessionState {
+    const stopped: SessionState = {
+      ...session,
+      events: [...session.events, FlowEngine.stopEvent(session.current_node_id, '', stopCode, stopReason)],
+      stopped: true,
+      stopped_at: new Date().toISOString(),
+      stop_node_id: session.current_node_id,
+      stop_code: stopCode,
+      stop_reason: stopReason,
+      partial_artifact: FlowEngine.stopArtifact(session.flow_id, session.flow_version, stopReason),
+    };
+    env.storage.saveSessionState(stopped);
+    FlowEngine.recordSummary(env, stopped);
+    return stopped;
+  }
+
+  /**
+   * Resume a stored in-progress session (by id, or the most recently
+   * touched one) on the flow version it was started on. If that version is
+   * no longer registered, a registered migration moves the session to a
+   * newer version; without one, when the migration gives up, or when no
+   * version of the flow is registered, the session is stopped with the
+   * reason and returned without an engine.
+   */
+  static async resumeStoredSession(
+    sessionId?: string,
+    environment?: FlowEngineEnvironment
+  ): Promise<ResumedSession | null> {
+    const env = environment ?? FlowEngine.getDefaultEnvironment();
+    const session = env.storage.loadSessionState(sessionId);
+    if (!session || session.completed || session.stopped) return null;
+
+    const exact = FlowRegistry.find(session.flow_id, session.flow_version);
+    if (exact) {
+      const engine = await FlowEngine.createWithChecksum(exact.flow, exact.checksum, env);
+      return { engine, session };
+    }
+
+    const stop = (stopReason: string): ResumedSession => ({
+      engine: null,
+      session: FlowEngine.stopStoredSession(env, session, 'flow_unavailable', stopReason),
+    });
+
+    const migration = FlowRegistry.findMigration(session.flow_id, session.flow_version);
+    const target = FlowRegistry.find(session.flow_id, migration?.toVersion);
+    if (!target) {
+      return stop(`Flow "${session.flow_id}" v${session.flow_version} is no longer available`);
+    }
+    if (!migration) {
+      return stop(
+        `Flow version ${session.flow_version} is no longer available and has no ` +
+        `migration to v${target.flowVersion}`
+      );
+    }
+
+    const result = migration.migrate(session);
+    if (result.action === 'stop') {
+      return stop(result.stop_reason);
+    }
+    const engine = await FlowEngine.createWithChecksum(target.flow, target.checksum, env);
+    try {
+      return { engine, session: engine.migrateSession(session, result.node_map) };
+    } catch (error) {
+      if (!(error instanceof FlowEngineError)) throw error;
+      return stop(error.message);
+    }
   }
 
   startSession(): SessionState {
@@ -93,20 +298,35 @@ export class FlowEngine {
         last_confirmed_state: '',
         answers: {},
         measurements: {},
+        rewinds: [],
       };
       
-      StorageService.saveSessionState(sessionState);
+      this.storage.saveSessionState(sessionState);
+      this.enforceOpenSessionLimit();
       return sessionState;
     } catch (error) {
       throw new FlowEngineError(`Failed to start session: ${error}`);
     }
   }
 
-  resumeSession(): SessionState | null {
+  private enforceOpenSessionLimit(): void {
+    const { maxOpenSessions } = this.environment.abandonment ?? DEFAULT_ABANDONMENT_POLICY;
+    const stale = this.storage.getOpenSessions().slice(maxOpenSessions);
+    for (const info of stale) {
+      FlowEngine.abandonSession(
+        this.environment,
+        info,
+        `Abandoned when more than ${maxOpenSessions} diagnostics were open`
+      );
+    }
+  }
+
+  resumeSession(sessionId?: string): SessionState | null {
     try {
-      const session = StorageService.loadSessionState();
+      const session = this.storage.loadSessionState(sessionId);
       if (!session) return null;
       if (session.flow_id !== this.flow.flowId) return null;
+      if (session.flow_version !== this.flow.flowVersion) return null;
       if (session.completed || session.stopped) return null;
       return session;
     } catch {
@@ -114,8 +334,8 @@ export class FlowEngine {
     }
   }
 
-  clearSession(): void {
-    StorageService.clearSessionState();
+  clearSession(sessionId: string): void {
+    this.storage.clearSessionState(sessionId);
   }
 
   private deriveResultText(
@@ -143,12 +363,12 @@ export class FlowEngine {
         const numValue = Number(value);
         const unit = m.unit || '';
         
-        const matchedBranch = m.branches.find(branch => {
-          return this.evaluateMeasureCondition(branch.condition, numValue);
-        });
+        const matchedBranch = m.branches.find(branch =>
+          ConditionExpression.evaluate(branch.condition, numValue)
+        );
         
         if (matchedBranch) {
-          return `Measured ${numValue}${unit}: ${this.interpretCondition(matchedBranch.condition)}`;
+          return `Measured ${numValue}${unit}: ${ConditionExpression.describe(matchedBranch.condition)}`;
         }
         
         return `Measured ${numValue}${unit}`;
@@ -207,42 +427,6 @@ export class FlowEngine {
     }
   }
 
-  private evaluateMeasureCondition(condition: string, value: number): boolean {
-    const ltMatch = condition.match(/^<\s*([\d.]+)$/);
-    if (ltMatch) return value < parseFloat(ltMatch[1]);
-    
-    const lteMatch = condition.match(/^<=\s*([\d.]+)$/);
-    if (lteMatch) return value <= parseFloat(lteMatch[1]);
-    
-    const gtMatch = condition.match(/^>\s*([\d.]+)$/);
-    if (gtMatch) return value > parseFloat(gtMatch[1]);
-    
-    const gteMatch = condition.match(/^>=\s*([\d.]+)$/);
-    if (gteMatch) return value >= parseFloat(gteMatch[1]);
-    
-    const rangeMatch = condition.match(/^([\d.]+)\s*-\s*([\d.]+)$/);
-    if (rangeMatch) {
-      const min = parseFloat(rangeMatch[1]);
-      const max = parseFloat(rangeMatch[2]);
-      return value >= min && value <= max;
-    }
-    
-    return false;
-  }
-
-  private interpretCondition(condition: string): string {
-    if (condition.includes('<')) {
-      return 'Below threshold';
-    }
-    if (condition.includes('>')) {
-      return 'Above threshold';
-    }
-    if (condition.includes('-')) {
-      return 'Within normal range';
-    }
-    return 'Condition met';
-  }
-
   async processResponse(
     sessionState: SessionState,
     value: string | number | boolean
@@ -323,14 +507,17 @@ export class FlowEngine {
         value,
       };
 
+      const executedNodes = [...sessionState.executed_nodes, executedNode];
+      nextNodeId = this.applyLoopLimits(nextNodeId, executedNodes);
+
       const updatedState: SessionState = {
         ...sessionState,
         current_node_id: nextNodeId,
         events: [...sessionState.events, event],
-        executed_nodes: [...sessionState.executed_nodes, executedNode],
+        executed_nodes: executedNodes,
       };
       
-      StorageService.saveSessionState(updatedState);
+      this.storage.saveSessionState(updatedState);
 
       const nextNode = this.nodes[nextNodeId];
       if (nextNode?.type === 'TERMINAL') {
@@ -344,69 +531,139 @@ export class FlowEngine {
     }
   }
 
+  /**
+   * A node with a loop policy is entered at most maxIterations times; once
+   * spent, the transition goes to its onExhausted node instead.
+   */
+  private applyLoopLimits(nextNodeId: string, executedNodes: ExecutedNode[]): string {
+    const redirected = new Set<string>();
+    let target = nextNodeId;
+    let loop = this.nodes[target]?.loop as LoopPolicy | undefined;
+
+    while (loop && !redirected.has(target)) {
+      const visits = executedNodes.filter(n => n.node_id === target).length;
+      if (visits < loop.maxIterations) break;
+      redirected.add(target);
+      target = loop.onExhausted;
+      loop = this.nodes[target]?.loop as LoopPolicy | undefined;
+    }
+    return target;
+  }
+
   private async processTerminalNode(
     sessionState: SessionState,
     terminalNode: TerminalNode,
     incomingEvent?: SessionEvent
   ): Promise<SessionState> {
     
-    const event: SessionEvent = incomingEvent ?? {
-      node_id: sessionState.current_node_id,
-      node_text: terminalNode.result,
-      type: 'TERMINAL',
-      value: true,
-      result_text: 'Diagnostic completed',
-      timestamp: new Date().toISOString(),
-    };
+    // A stop terminal records a STOP event in place of the TERMINAL one
+    const stopCode = terminalNode.severity === 'stop' ? terminalNode.stopCode : undefined;
+    const event: SessionEvent = stopCode
+      ? FlowEngine.stopEvent(
+          sessionState.current_node_id,
+          terminalNode.result,
+          stopCode,
+          terminalNode.artifact?.stop_reason || DEFAULT_STOP_REASONS[stopCode]
+        )
+      : incomingEvent ?? {
+          node_id: sessionState.current_node_id,
+          node_text: terminalNode.result,
+          type: 'TERMINAL',
+          value: true,
+          result_text: 'Diagnostic completed',
+          timestamp: new Date().toISOString(),
+        };
 
-    sessionState.stop_reason = 'User completed diagnostic';
-    sessionState.last_confirmed_state = terminalNode.result;
+    const template = terminalNode.artifact;
+    const hasTemplate = template !== undefined && template !== null && Object.keys(template).length > 0;
+
+    // The authored template knows why this terminal ends the diagnostic
+    sessionState.stop_reason = hasTemplate && template.stop_reason
+      ? template.stop_reason
+      : 'User completed diagnostic';
+    sessionState.last_confirmed_state = hasTemplate && template.last_confirmed_state
+      ? template.last_confirmed_state
+      : terminalNode.result;
 
-    // AUTO-DETECT: Does terminal node have an artifact template?
-    // const hasTemplate = terminalNode.artifact !== undefined && 
-    //                     terminalNode.artifact !== null &&
-    //                     Object.keys(terminalNode.artifact).length > 0;
-    
     let artifact: FlowArtifact;
-    // let finalizationResult: any = undefined;
-
-    // if (hasTemplate) {
-    //   finalizationResult = await this.artifactService.finalizeArtifact(
-    //     sessionState,
-    //     terminalNode
-    //   );
-    //   artifact = finalizationResult.finalization_result.final_artifact as FlowArtifact;
-      
-    // } else {
-      artifact = this.generateDiagnosticArtifact(sessionState, terminalNode);
-    // }
+    let canonicalJson: string | undefined;
+    let artifactSha256: string | undefined;
 
+    const diagnostic = this.runArtifactGenerator({
+      ...sessionState,
+      events: [...sessionState.events, event],
+    });
+    if (hasTemplate) {
+      try {
+        const { finalization_result } = await this.environment.finalizer.finalizeArtifact(
+          sessionState,
+          terminalNode,
+          {
+            enrichment: {
+              vertical_id:
+                template.vertical_id ??
+                FlowRegistry.find(this.flow.flowId, this.flow.flowVersion)?.vertical ??
+                'RV',
+              confidence_level: diagnostic.result.confidence_level,
+              primary_finding: diagnostic.result.primary_finding,
+              explanation: diagnostic.result.explanation,
+              ...this.diagnosticDetails(diagnostic),
+            },
+            fieldMappings: this.flow.fieldMappings,
+            enumsVersion: this.flow.artifactEnumsVersion,
+          }
+        );
+        artifact = finalization_result.final_artifact as FlowArtifact;
+        canonicalJson = finalization_result.canonical_json;
+        artifactSha256 = finalization_result.sha256_hash;
+      } catch (error) {
+        if (!(error instanceof FinalizationError)) throw error;
+        throw new FlowEngineError(
+          `Artifact finalization failed at "${sessionState.current_node_id}": ` +
+          `${error.message} (${error.validation_errors.join('; ')})`
+        );
+      }
+    } else {
+      artifact = this.generateDiagnosticArtifact(sessionState, diagnostic);
+    }
+
+    const completedAt = new Date().toISOString();
     const completedState: SessionState = {
       ...sessionState,
       events: [...sessionState.events, event],
       completed: true,
-      stopped: false,
-      completed_at: new Date().toISOString(),
+      stopped: stopCode !== undefined,
+      ...(stopCode && {
+        stopped_at: completedAt,
+        stop_node_id: sessionState.current_node_id,
+        stop_code: stopCode,
+      }),
+      completed_at: completedAt,
       terminal_node_id: sessionState.current_node_id,
       result: terminalNode.result,
       artifact: artifact,
+      artifact_canonical_json: canonicalJson,
+      artifact_sha256: artifactSha256,
+      follow_up: diagnostic.result.follow_up,
     };
 
-    StorageService.saveSessionState(completedState);
+    this.storage.saveSessionState(completedState);
     this.generateSummary(completedState);
     return completedState;
   }
 
+  private runArtifactGenerator(sessionState: SessionState) {
+    return artifactGenerator.generate(
+      this.convertToDiagnosticSessionState(sessionState),
+      this.convertToDiagnosticFlow()
+    );
+  }
+
   private generateDiagnosticArtifact(
     sessionState: SessionState,
-    terminalNode: TerminalNode
+    diagnosticArtifact: ReturnType<FlowEngine['runArtifactGenerator']>
   ): FlowArtifact {
     
-    const diagnosticSessionState = this.convertToDiagnosticSessionState(sessionState);
-    const diagnosticFlowData = this.convertToDiagnosticFlow();
-    
-    const diagnosticArtifact = artifactGenerator.generate(diagnosticSessionState, diagnosticFlowData);
-    
     const flowArtifact: FlowArtifact = {
       artifact_id: sessionState.artifact_id,
       artifact_hash: '',
@@ -426,11 +683,27 @@ export class FlowEngine {
       stabilization_actions: [],
       recommendations: [diagnosticArtifact.result.recommended_next_step],
       notes: diagnosticArtifact.result.explanation,
+      ...this.diagnosticDetails(diagnosticArtifact),
     };
     
     return flowArtifact;
   }
 
+  /**
+   * Confidence evidence, ranked differential and interpreted readings for
+   * the artifact; readings and the differential are omitted when empty.
+   */
+  private diagnosticDetails(
+    diagnosticArtifact: ReturnType<FlowEngine['runArtifactGenerator']>
+  ): Partial<Pick<FlowArtifact, 'measurement_interpretations' | 'evidence' | 'differential'>> {
+    const { measurements = [], evidence, differential = [] } = diagnosticArtifact.result;
+    return {
+      ...(measurements.length > 0 && { measurement_interpretations: measurements }),
+      ...(evidence && { evidence }),
+      ...(differential.length > 0 && { differential }),
+    };
+  }
+
   private convertToDiagnosticSessionState(sessionState: SessionState): any {
     return {
       sessionId: sessionState.session_id,
@@ -469,35 +742,189 @@ export class FlowEngine {
     return {
       flow_id: this.flow.flowId,
       flow_version: this.flow.flowVersion,
-      flow_name: this.getFlowDisplayName(),
+      flow_name: FlowRegistry.getDisplayName(this.flow.flowId),
       nodes: this.nodes
     };
   }
 
-  private getFlowDisplayName(): string {
-    const names: Record<string, string> = {
-      'electrical_system': 'Electrical System',
-      'water_system': 'Water System',
-      'propane_system': 'Propane System',
-      'slides_leveling': 'Slides and Leveling'
+  goBack(sessionState: SessionState): SessionState {
+    const lastEvent = sessionState.events[sessionState.events.length - 1];
+    if (!lastEvent) {
+      throw new FlowEngineError('Cannot go back: no steps have been taken yet');
+    }
+    return this.rewindTo(sessionState, lastEvent.node_id);
+  }
+
+  rewindTo(sessionState: SessionState, nodeId: string): SessionState {
+    if (sessionState.completed || sessionState.stopped) {
+      throw new FlowEngineError('Cannot rewind a session that has already ended');
+    }
+
+    let targetIndex = -1;
+    for (let i = sessionState.events.length - 1; i >= 0; i--) {
+      if (sessionState.events[i].node_id === nodeId) {
+        targetIndex = i;
+        break;
+      }
+    }
+    if (targetIndex === -1) {
+      throw new FlowEngineError(
+        `Cannot rewind to "${nodeId}": node was not visited in this session`
+      );
+    }
+
+    const keptExecutedNodes = sessionState.executed_nodes.slice(0, targetIndex);
+    const { answers, measurements } = this.rebuildResponses(keptExecutedNodes);
+
+    const rewind: RewindRecord = {
+      from_node_id: sessionState.current_node_id,
+      to_node_id: nodeId,
+      discarded_events: sessionState.events.slice(targetIndex),
+      rewound_at: new Date().toISOString(),
     };
-    return names[this.flow.flowId] || this.flow.flowId;
+
+    const rewoundState: SessionState = {
+      ...sessionState,
+      current_node_id: nodeId,
+      events: sessionState.events.slice(0, targetIndex),
+      executed_nodes: keptExecutedNodes,
+      answers,
+      measurements,
+      rewinds: [...(sessionState.rewinds ?? []), rewind],
+    };
+
+    this.storage.saveSessionState(rewoundState);
+    return rewoundState;
   }
 
-  stopSession(sessionState: SessionState): SessionState {
+  private rebuildResponses(executedNodes: ExecutedNode[]): {
+    answers: Record<string, any>;
+    measurements: Record<string, number | null>;
+  } {
+    const answers: Record<string, any> = {};
+    const measurements: Record<string, number | null> = {};
+
+    for (const executed of executedNodes) {
+      if (executed.node_type === 'QUESTION') {
+        answers[executed.node_id] = String(executed.value);
+      } else if (executed.node_type === 'MEASURE') {
+        measurements[executed.node_id] = Number(executed.value);
+      }
+    }
+
+    return { answers, measurements };
+  }
+
+  /**
+   * Stop the session where it is. The STOP event carries the reason code,
+   * and the partial artifact gets the generator's stop outcome with the
+   * confidence of whatever was found before the stop.
+   */
+  stopSession(
+    sessionState: SessionState,
+    stopCode: StopReasonCode = 'user_abort',
+    stopReason: string = DEFAULT_STOP_REASONS[stopCode]
+  ): SessionState {
+    const node = this.nodes[sessionState.current_node_id];
+    const event = FlowEngine.stopEvent(
+      sessionState.current_node_id,
+      node ? this.extractKeyNodeText(node) : '',
+      stopCode,
+      stopReason
+    );
+    const events = [...sessionState.events, event];
+    const diagnostic = this.runArtifactGenerator({ ...sessionState, events });
+    const template = this.getTemplateArtifact(sessionState.current_node_id);
+    const partialArtifact: FlowArtifact | undefined = template && {
+      ...template,
+      stop_reason: stopReason,
+      confidence_level: diagnostic.result.confidence_level,
+      primary_finding: diagnostic.result.primary_finding,
+      explanation: diagnostic.result.explanation,
+      ...this.diagnosticDetails(diagnostic),
+    };
+
     const stopped: SessionState = {
       ...sessionState,
+      events,
       stopped: true,
-      stopped_at: new Date().toISOString(),
+      stopped_at: event.timestamp,
       stop_node_id: sessionState.current_node_id,
-      partial_artifact: this.getTemplateArtifact(sessionState.current_node_id),
+      stop_code: stopCode,
+      stop_reason: stopReason,
+      partial_artifact: partialArtifact,
     };
     
-    StorageService.saveSessionState(stopped);
+    this.storage.saveSessionState(stopped);
     this.generateSummary(stopped);
     return stopped;
   }
 
+  private static stopEvent(
+    nodeId: string,
+    nodeText: string,
+    stopCode: StopReasonCode,
+    stopReason: string
+  ): SessionEvent {
+    return {
+      node_id: nodeId,
+      node_text: nodeText,
+      type: 'STOP',
+      value: stopCode,
+      result_text: stopReason,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Move a session from an older version of this flow onto this one,
+   * renaming node ids through `nodeMap`. Every visited node and recorded
+   * answer must still exist afterwards, otherwise nothing is saved.
+   */
+  migrateSession(sessionState: SessionState, nodeMap: Record<string, string>): SessionState {
+    const mapId = (nodeId: string) => nodeMap[nodeId] ?? nodeId;
+    const mapEvent = (event: SessionEvent): SessionEvent => ({ ...event, node_id: mapId(event.node_id) });
+    const mapKeys = <T>(record: Record<string, T>): Record<string, T> =>
+      Object.fromEntries(Object.entries(record).map(([nodeId, value]) => [mapId(nodeId), value]));
+
+    const migrated: SessionState = {
+      ...sessionState,
+      flow_version: this.flow.flowVersion,
+      migrated_from_version: sessionState.flow_version,
+      current_node_id: mapId(sessionState.current_node_id),
+      events: sessionState.events.map(mapEvent),
+      executed_nodes: sessionState.executed_nodes.map(n => ({ ...n, node_id: mapId(n.node_id) })),
+      answers: mapKeys(sessionState.answers),
+      measurements: mapKeys(sessionState.measurements),
+      rewinds: sessionState.rewinds?.map(rewind => ({
+        ...rewind,
+        from_node_id: mapId(rewind.from_node_id),
+        to_node_id: mapId(rewind.to_node_id),
+        discarded_events: rewind.discarded_events.map(mapEvent),
+      })),
+    };
+
+    const target = `${this.flow.flowId} v${this.flow.flowVersion}`;
+    for (const nodeId of [migrated.current_node_id, ...migrated.events.map(e => e.node_id)]) {
+      if (!this.nodes[nodeId]) {
+        throw new FlowEngineError(
+          `Cannot migrate session to ${target}: node "${nodeId}" does not exist`
+        );
+      }
+    }
+    for (const event of migrated.events) {
+      const node = this.nodes[event.node_id];
+      if (node.type === 'QUESTION' && !(node as QuestionNode).answers[String(event.value)]) {
+        throw new FlowEngineError(
+          `Cannot migrate session to ${target}: answer "${event.value}" is not offered by "${event.node_id}"`
+        );
+      }
+    }
+
+    this.storage.saveSessionState(migrated);
+    return migrated;
+  }
+
   getCurrentNode(sessionState: SessionState): RawFlowNode {
     const node = this.nodes[sessionState.current_node_id];
     if (!node) {
@@ -535,13 +962,17 @@ export class FlowEngine {
     if (node?.type === 'TERMINAL') {
       return (node as TerminalNode).artifact;
     }
+    return FlowEngine.stopArtifact(this.flow.flowId, this.flow.flowVersion, 'User stopped');
+  }
+
+  private static stopArtifact(flowId: string, flowVersion: string, stopReason: string): FlowArtifact {
     return {
       vertical_id: 'RV',
-      flow_id: this.flow.flowId,
-      flow_version: this.flow.flowVersion,
+      flow_id: flowId,
+      flow_version: flowVersion,
       artifact_schema_version: '1.0',
       issue: 'Diagnostic stopped',
-      stop_reason: 'User stopped',
+      stop_reason: stopReason,
       last_confirmed_state: 'Unknown',
       safety_notes: [],
       stabilization_actions: [],
@@ -551,7 +982,11 @@ export class FlowEngine {
   }
 
   private generateSummary(sessionState: SessionState): void {
-    const rigIdentity = RigIdentityService.getOrCreate();
+    FlowEngine.recordSummary(this.environment, sessionState);
+  }
+
+  private static recordSummary(env: FlowEngineEnvironment, sessionState: SessionState): void {
+    const rigIdentity = env.identity.getOrCreate();
 
     const summary: SessionSummary = {
       flow_id: sessionState.flow_id,
@@ -564,6 +999,11 @@ export class FlowEngine {
       result: sessionState.result || '',
       artifact: sessionState.artifact || sessionState.partial_artifact,
       stopped: sessionState.stopped,
+      stop_code: sessionState.stop_code,
+      rewinds: sessionState.rewinds ?? [],
+      artifact_canonical_json: sessionState.artifact_canonical_json,
+      artifact_sha256: sessionState.artifact_sha256,
+      follow_up: sessionState.follow_up,
 
       creator_name: rigIdentity.custom_name || 'Owner',
       creator_type: 'OWNER',
@@ -571,14 +1011,14 @@ export class FlowEngine {
       rig_identity: rigIdentity.id,
     };
     
-    StorageService.saveSessionSummary(summary);
+    env.storage.saveSessionSummary(summary);
   }
 
   private generateSessionId(): string {
     return `${Date.now()}_${Math.random().toString(36).substring(7)}`;
   }
 
-  static getHistory(): SessionSummary[] {
-    return StorageService.getSessionHistory();
+  static getHistory(environment?: FlowEngineEnvironment): SessionSummary[] {
+    return (environment ?? FlowEngine.getDefaultEnvironment()).storage.getSessionHistory();
   }
 }
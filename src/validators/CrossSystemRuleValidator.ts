@@ -0,0 +1,156 @@
+import { FlowDiagnostic, FlowValidationError, QuestionNode, RawFlow } from './FlowValidator';
+
+// ─── Rule format ──────────────────────────────────────────────────────────────
+
+export interface CrossSystemRuleMatch {
+  flow_id: string;
+  finding_keys: string[]; // the primary finding is any of these
+  answers?: Record<string, string[]>; // node ID → accepted answer keys
+}
+
+/**
+ * Points a finished diagnostic at another flow, e.g. a water pump with no
+ * power at the electrical flow. The UI launches follow_up_flow_id directly.
+ */
+export interface CrossSystemRule {
+  rule_id: string;
+  match: CrossSystemRuleMatch;
+  follow_up_flow_id: string;
+  recommendation: string;
+}
+
+export interface CrossSystemRuleSet {
+  rules_version: string;
+  notes?: string;
+  rules: CrossSystemRule[];
+}
+
+export class CrossSystemRuleError extends FlowValidationError {
+  constructor(public readonly diagnostics: FlowDiagnostic[]) {
+    super(
+      `Cross-system rules failed validation with ${diagnostics.length} error(s):\n` +
+      diagnostics.map(d => `  ${d.path || '/'} [${d.code}] ${d.message}`).join('\n')
+    );
+    this.name = 'CrossSystemRuleError';
+  }
+}
+
+// ─── Validator ────────────────────────────────────────────────────────────────
+
+/**
+ * Checks a rule set against the flows it can reference and the finding keys
+ * the ArtifactGenerator produces for each flow (flow ID → finding key → node).
+ */
+export class CrossSystemRuleValidator {
+  static lint(
+    ruleSet: CrossSystemRuleSet,
+    flows: RawFlow[],
+    findingSources: Record<string, Record<string, string>>
+  ): FlowDiagnostic[] {
+    const out: FlowDiagnostic[] = [];
+    const error = (path: string, code: string, message: string) =>
+      out.push({ severity: 'error', path, code, message });
+
+    if (!ruleSet.rules_version || typeof ruleSet.rules_version !== 'string') {
+      error('/rules_version', 'missing_field', 'Rule set must have a string "rules_version"');
+    }
+    if (!Array.isArray(ruleSet.rules)) {
+      error('/rules', 'missing_field', 'Rule set must have a "rules" array');
+      return out;
+    }
+
+    const flowsById = new Map(flows.map(flow => [flow.flowId, flow]));
+    const ruleIds = new Set<string>();
+
+    ruleSet.rules.forEach((rule, i) => {
+      const path = `/rules/${i}`;
+      if (!rule || typeof rule !== 'object' || !rule.match || typeof rule.match !== 'object') {
+        error(path, 'invalid_rule', `Rule ${i} must be an object with a "match" object`);
+        return;
+      }
+
+      if (!rule.rule_id || typeof rule.rule_id !== 'string') {
+        error(`${path}/rule_id`, 'missing_field', `Rule ${i} must have a string "rule_id"`);
+      } else if (ruleIds.has(rule.rule_id)) {
+        error(`${path}/rule_id`, 'duplicate_rule_id', `Rule ID "${rule.rule_id}" is used more than once`);
+      } else {
+        ruleIds.add(rule.rule_id);
+      }
+
+      if (!rule.recommendation || typeof rule.recommendation !== 'string') {
+        error(`${path}/recommendation`, 'missing_field', `Rule ${i} must have a string "recommendation"`);
+      }
+      if (!flowsById.has(rule.follow_up_flow_id)) {
+        error(
+          `${path}/follow_up_flow_id`,
+          'unknown_flow',
+          `Rule ${i} follows up with unknown flow "${rule.follow_up_flow_id}"`
+        );
+      }
+
+      const flow = flowsById.get(rule.match.flow_id);
+      if (!flow) {
+        error(`${path}/match/flow_id`, 'unknown_flow', `Rule ${i} matches unknown flow "${rule.match.flow_id}"`);
+        return;
+      }
+
+      const findingKeys = rule.match.finding_keys;
+      if (!Array.isArray(findingKeys) || findingKeys.length === 0) {
+        error(`${path}/match/finding_keys`, 'missing_field', `Rule ${i} must list at least one finding key`);
+      } else {
+        const flowSources = findingSources[flow.flowId] ?? {};
+        findingKeys.forEach((key, k) => {
+          const source = flowSources[key];
+          if (!source) {
+            const elsewhere = Object.keys(findingSources).filter(id => key in findingSources[id]);
+            if (elsewhere.length === 0) {
+              error(`${path}/match/finding_keys/${k}`, 'unknown_finding_key', `Unknown finding key "${key}"`);
+            } else {
+              error(
+                `${path}/match/finding_keys/${k}`,
+                'finding_not_in_flow',
+                `Finding "${key}" comes from ${elsewhere.join(', ')}, not flow "${flow.flowId}"`
+              );
+            }
+          } else if (!flow.nodes[source]) {
+            error(
+              `${path}/match/finding_keys/${k}`,
+              'finding_not_in_flow',
+              `Finding "${key}" comes from node "${source}", which flow "${flow.flowId}" does not have`
+            );
+          }
+        });
+      }
+
+      for (const [nodeId, accepted] of Object.entries(rule.match.answers ?? {})) {
+        const answerPath = `${path}/match/answers/${nodeId.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+        const node = flow.nodes[nodeId];
+        if (!node || node.type !== 'QUESTION') {
+          error(answerPath, 'unknown_node', `Flow "${flow.flowId}" has no QUESTION node "${nodeId}"`);
+          continue;
+        }
+        const answerKeys = Object.keys((node as QuestionNode).answers ?? {});
+        if (!Array.isArray(accepted) || accepted.length === 0) {
+          error(answerPath, 'missing_field', `Answer condition on "${nodeId}" must list at least one answer`);
+          continue;
+        }
+        for (const answer of accepted.filter(a => !answerKeys.includes(a))) {
+          error(answerPath, 'unknown_answer', `QUESTION node "${nodeId}" has no answer "${answer}"`);
+        }
+      }
+    });
+
+    return out;
+  }
+
+  static validate(
+    ruleSet: CrossSystemRuleSet,
+    flows: RawFlow[],
+    findingSources: Record<string, Record<string, string>>
+  ): void {
+    const diagnostics = this.lint(ruleSet, flows, findingSources);
+    if (diagnostics.length > 0) {
+      throw new CrossSystemRuleError(diagnostics);
+    }
+  }
+}
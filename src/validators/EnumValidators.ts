@@ -1,10 +1,39 @@
 import { EnumValidationError, EnumValidationResult } from '../types';
-import artifactEnums from './artifact_enums_v1_1.json';
+import artifactEnumsV1_1 from './artifact_enums_v1_1.json';
+import artifactEnumsV1_2 from './artifact_enums_v1_2.json';
+
+export interface FlowEnumSchema {
+  flow_versions: string[];
+  fields: Record<string, string[]>;
+}
+
+export interface ArtifactEnumSchema {
+  artifact_enums_version: string;
+  notes?: string;
+  fields: Record<string, string[]>; // shared by every flow
+  flows?: Record<string, FlowEnumSchema>; // keyed by flowId
+}
+
+/**
+ * Which enums apply: the shared fields of the schema version plus, when the
+ * schema covers the flow version, that flow's own fields. The version
+ * defaults to the latest schema.
+ */
+export interface EnumScope {
+  flowId?: string;
+  flowVersion?: string;
+  enumsVersion?: string;
+}
+
+const SCHEMAS: ArtifactEnumSchema[] = [artifactEnumsV1_1, artifactEnumsV1_2];
 
 export class EnumValidator {
-  private static enumDefinitions: Record<string, string[]> = artifactEnums.fields;
+  private static schemas = new Map<string, ArtifactEnumSchema>(
+    SCHEMAS.map(schema => [schema.artifact_enums_version, schema])
+  );
+  private static latestVersion = SCHEMAS[SCHEMAS.length - 1].artifact_enums_version;
 
-  static validate(field: string, value: string): EnumValidationResult {
+  static validate(field: string, value: string, scope: EnumScope = {}): EnumValidationResult {
     if (this.isUnknown(value)) {
       return {
         is_valid: true,
@@ -12,7 +41,7 @@ export class EnumValidator {
       };
     }
 
-    const allowedValues = this.enumDefinitions[field];
+    const allowedValues = this.enumDefinitions(scope)[field];
 
     if (!allowedValues) {
       return {
@@ -35,11 +64,11 @@ export class EnumValidator {
       error_message: `Invalid enum value "${value}" for field "${field}". Allowed values: ${allowedValues.join(', ')}, Unknown`,
     };
   }
-  static validateOrThrow(field: string, value: string): string {
-    const result = this.validate(field, value);
+  static validateOrThrow(field: string, value: string, scope: EnumScope = {}): string {
+    const result = this.validate(field, value, scope);
 
     if (!result.is_valid) {
-      const allowedValues = this.enumDefinitions[field] || [];
+      const allowedValues = this.enumDefinitions(scope)[field] || [];
       throw new EnumValidationError(
         result.error_message || 'Enum validation failed',
         field,
@@ -72,29 +101,34 @@ export class EnumValidator {
     return null;
   }
 
-  static getAllowedValues(field: string): string[] | null {
-    const values = this.enumDefinitions[field];
+  static getAllowedValues(field: string, scope: EnumScope = {}): string[] | null {
+    const values = this.enumDefinitions(scope)[field];
     return values ? [...values, 'Unknown'] : null;
   }
 
-  static isEnumField(field: string): boolean {
-    return field in this.enumDefinitions;
+  static isEnumField(field: string, scope: EnumScope = {}): boolean {
+    return field in this.enumDefinitions(scope);
   }
-  static validateArtifact(artifact: Record<string, any>): EnumValidationError[] {
+
+  /** Validate every enum field, using the artifact's own flow_id and flow_version. */
+  static validateArtifact(
+    artifact: Record<string, any>,
+    enumsVersion?: string
+  ): EnumValidationError[] {
     const errors: EnumValidationError[] = [];
+    const scope = this.artifactScope(artifact, enumsVersion);
 
     for (const [field, value] of Object.entries(artifact)) {
       // Only validate string values that are enum fields
-      if (typeof value === 'string' && this.isEnumField(field)) {
-        const result = this.validate(field, value);
+      if (typeof value === 'string' && this.isEnumField(field, scope)) {
+        const result = this.validate(field, value, scope);
         if (!result.is_valid) {
-          const allowedValues = this.enumDefinitions[field];
           errors.push(
             new EnumValidationError(
               result.error_message || 'Invalid enum value',
               field,
               value,
-              [...allowedValues, 'Unknown']
+              this.getAllowedValues(field, scope)!
             )
           );
         }
@@ -104,10 +138,14 @@ export class EnumValidator {
     return errors;
   }
 
-  static normalizeArtifact(artifact: Record<string, any>): Record<string, any> {
+  static normalizeArtifact(
+    artifact: Record<string, any>,
+    enumsVersion?: string
+  ): Record<string, any> {
+    const scope = this.artifactScope(artifact, enumsVersion);
     for (const [field, value] of Object.entries(artifact)) {
-      if (typeof value === 'string' && this.isEnumField(field)) {
-        const result = this.validate(field, value);
+      if (typeof value === 'string' && this.isEnumField(field, scope)) {
+        const result = this.validate(field, value, scope);
         if (result.is_valid && result.normalized_value) {
           artifact[field] = result.normalized_value;
         }
@@ -117,7 +155,59 @@ export class EnumValidator {
     return artifact;
   }
 
+  // ── Schema versions ────────────────────────────────────────────────────────
+
+  /** Latest artifact_enums version. */
   static getVersion(): string {
-    return artifactEnums.artifact_enums_version;
+    return this.latestVersion;
+  }
+
+  static getVersions(): string[] {
+    return [...this.schemas.keys()];
+  }
+
+  static getSchema(enumsVersion?: string): ArtifactEnumSchema | undefined {
+    return this.schemas.get(enumsVersion ?? this.latestVersion);
+  }
+
+  /**
+   * Why a flow cannot use the enum version it declares, or null when it
+   * can. A schema that lists the flow must list the flow's version too.
+   */
+  static checkCompatibility(
+    flowId: string,
+    flowVersion: string,
+    enumsVersion: string
+  ): string | null {
+    const schema = this.schemas.get(enumsVersion);
+    if (!schema) {
+      return `artifact_enums version "${enumsVersion}" is not available ` +
+        `(known: ${this.getVersions().join(', ')})`;
+    }
+    const flowSchema = schema.flows?.[flowId];
+    if (flowSchema && !flowSchema.flow_versions.includes(flowVersion)) {
+      return `artifact_enums version "${enumsVersion}" defines enums for ${flowId} ` +
+        `v${flowSchema.flow_versions.join(', v')}, not v${flowVersion}`;
+    }
+    return null;
+  }
+
+  private static enumDefinitions(scope: EnumScope): Record<string, string[]> {
+    const schema = this.getSchema(scope.enumsVersion);
+    if (!schema) return {};
+
+    const flowSchema = scope.flowId ? schema.flows?.[scope.flowId] : undefined;
+    const coversFlow =
+      flowSchema !== undefined &&
+      (scope.flowVersion === undefined || flowSchema.flow_versions.includes(scope.flowVersion));
+    return coversFlow ? { ...schema.fields, ...flowSchema!.fields } : schema.fields;
+  }
+
+  private static artifactScope(artifact: Record<string, any>, enumsVersion?: string): EnumScope {
+    return {
+      flowId: typeof artifact.flow_id === 'string' ? artifact.flow_id : undefined,
+      flowVersion: typeof artifact.flow_version === 'string' ? artifact.flow_version : undefined,
+      enumsVersion,
+    };
   }
 }
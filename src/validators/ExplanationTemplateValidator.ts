@@ -0,0 +1,92 @@
+import { ExplanationTemplate, ExplanationTemplateError } from '../utils/ExplanationTemplate';
+import { FlowDiagnostic, FlowValidationError, MeasureNode, RawFlow } from './FlowValidator';
+
+export class ExplanationTemplateValidationError extends FlowValidationError {
+  constructor(public readonly diagnostics: FlowDiagnostic[]) {
+    super(
+      `Explanation templates failed validation with ${diagnostics.length} error(s):\n` +
+      diagnostics.map(d => `  ${d.path || '/'} [${d.code}] ${d.message}`).join('\n')
+    );
+    this.name = 'ExplanationTemplateValidationError';
+  }
+}
+
+// ─── Validator ────────────────────────────────────────────────────────────────
+
+/**
+ * Checks explanation templates (finding key → template) against every flow
+ * that can produce the finding, using the ArtifactGenerator finding sources
+ * (flow ID → finding key → node). Templates for findings no flow produces
+ * are never rendered and only get a syntax check.
+ */
+export class ExplanationTemplateValidator {
+  static lint(
+    templates: Record<string, string>,
+    flows: RawFlow[],
+    findingSources: Record<string, Record<string, string>>
+  ): FlowDiagnostic[] {
+    const out: FlowDiagnostic[] = [];
+    const error = (path: string, code: string, message: string) =>
+      out.push({ severity: 'error', path, code, message });
+    const flowsById = new Map(flows.map(flow => [flow.flowId, flow]));
+
+    for (const [findingKey, template] of Object.entries(templates)) {
+      const path = `/${findingKey.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+      let variables: string[];
+      try {
+        variables = ExplanationTemplate.variables(template);
+      } catch (e) {
+        if (!(e instanceof ExplanationTemplateError)) throw e;
+        error(path, 'invalid_template', e.message);
+        continue;
+      }
+
+      const producers = Object.keys(findingSources)
+        .filter(flowId => findingKey in findingSources[flowId])
+        .map(flowId => flowsById.get(flowId))
+        .filter((flow): flow is RawFlow => flow !== undefined);
+
+      for (const variable of variables) {
+        if (variable === 'supporting') continue;
+
+        const [namespace, nodeId] = variable.split('.');
+        const expectedType =
+          namespace === 'measure' || namespace === 'unit' ? 'MEASURE' :
+          namespace === 'answer' ? 'QUESTION' :
+          undefined;
+
+        if (!expectedType || !nodeId) {
+          error(path, 'unknown_variable', `Unknown template variable "${variable}"`);
+          continue;
+        }
+
+        for (const flow of producers) {
+          const node = flow.nodes[nodeId];
+          const produced =
+            node?.type === expectedType &&
+            (namespace !== 'unit' || !!(node as MeasureNode).unit);
+          if (!produced) {
+            error(
+              path,
+              'unavailable_variable',
+              `"${variable}" can never be set in flow "${flow.flowId}", which produces "${findingKey}"`
+            );
+          }
+        }
+      }
+    }
+
+    return out;
+  }
+
+  static validate(
+    templates: Record<string, string>,
+    flows: RawFlow[],
+    findingSources: Record<string, Record<string, string>>
+  ): void {
+    const diagnostics = this.lint(templates, flows, findingSources);
+    if (diagnostics.length > 0) {
+      throw new ExplanationTemplateValidationError(diagnostics);
+    }
+  }
+}
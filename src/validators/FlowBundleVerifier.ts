@@ -0,0 +1,208 @@
+import { CryptoService } from '../utils/CryptoProvider';
+import { JsonCanonicalizer } from '../utils/JsonCanonicalizer';
+import { FlowChecksumValidator } from './Flowchecksumvalidator';
+import { RawFlow } from './FlowValidator';
+
+// ─── Bundle format ────────────────────────────────────────────────────────────
+
+export interface FlowBundleManifestEntry {
+  flow_id: string;
+  flow_version: string;
+  content_hash: string; // FlowChecksumValidator hash of the flow
+}
+
+export interface FlowBundleManifest {
+  bundle_id: string;
+  publisher_key_id: string;
+  issued_at: string;
+  flows: FlowBundleManifestEntry[];
+}
+
+/**
+ * A set of flows distributed together. The signature is Ed25519 over the
+ * UTF-8 bytes of the manifest's RFC 8785 canonical form, base64 encoded.
+ */
+export interface SignedFlowBundle {
+  manifest: FlowBundleManifest;
+  signature: string;
+  flows: Record<string, RawFlow>; // keyed by flow_id
+}
+
+export interface TrustedPublisherKey {
+  key_id: string;
+  publisher: string;
+  public_key: string; // base64 of the raw 32-byte Ed25519 key
+  revoked?: boolean;
+}
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export type BundleVerificationFailure =
+  | 'malformed_bundle'
+  | 'unknown_publisher'
+  | 'revoked_key'
+  | 'invalid_signature'
+  | 'flow_not_in_manifest'
+  | 'flow_missing'
+  | 'version_mismatch'
+  | 'content_hash_mismatch';
+
+export class BundleVerificationError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: BundleVerificationFailure,
+    public readonly key_id?: string,
+    public readonly flow_id?: string
+  ) {
+    super(message);
+    this.name = 'BundleVerificationError';
+  }
+}
+
+// ─── Verifier ─────────────────────────────────────────────────────────────────
+
+/**
+ * Offline verification of signed flow bundles against a pinned set of
+ * publisher keys. The manifest signature proves who published the bundle;
+ * each flow's content hash ties the flow to the signed manifest.
+ */
+export class FlowBundleVerifier {
+  static signingPayload(manifest: FlowBundleManifest): Uint8Array {
+    return new TextEncoder().encode(JsonCanonicalizer.canonicalize(manifest));
+  }
+
+  static verifyManifest(
+    rawBundle: unknown,
+    trustedKeys: TrustedPublisherKey[]
+  ): FlowBundleManifest {
+    const bundle = this.validateShape(rawBundle);
+    const { manifest } = bundle;
+    const keyId = manifest.publisher_key_id;
+
+    const key = trustedKeys.find(k => k.key_id === keyId);
+    if (!key) {
+      throw new BundleVerificationError(
+        `Bundle "${manifest.bundle_id}" is signed with unknown publisher key "${keyId}"`,
+        'unknown_publisher',
+        keyId
+      );
+    }
+    if (key.revoked) {
+      throw new BundleVerificationError(
+        `Bundle "${manifest.bundle_id}" is signed with revoked key "${keyId}" (${key.publisher})`,
+        'revoked_key',
+        keyId
+      );
+    }
+
+    const publicKey = decodeBase64(key.public_key);
+    const signature = decodeBase64(bundle.signature);
+    const valid =
+      publicKey !== null &&
+      signature !== null &&
+      CryptoService.verifyEd25519(publicKey, this.signingPayload(manifest), signature);
+    if (!valid) {
+      throw new BundleVerificationError(
+        `Bundle "${manifest.bundle_id}" signature does not verify against key "${keyId}"`,
+        'invalid_signature',
+        keyId
+      );
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Verify the bundle signature, then that the named flow is listed in the
+   * manifest and matches its content hash. Returns the verified flow.
+   */
+  static async verifyFlow(
+    rawBundle: unknown,
+    flowId: string,
+    trustedKeys: TrustedPublisherKey[]
+  ): Promise<RawFlow> {
+    const manifest = this.verifyManifest(rawBundle, trustedKeys);
+    const bundle = rawBundle as SignedFlowBundle;
+    const keyId = manifest.publisher_key_id;
+
+    const entry = manifest.flows.find(f => f.flow_id === flowId);
+    if (!entry) {
+      throw new BundleVerificationError(
+        `Flow "${flowId}" is not listed in bundle "${manifest.bundle_id}"`,
+        'flow_not_in_manifest',
+        keyId,
+        flowId
+      );
+    }
+
+    const flow = bundle.flows[flowId];
+    if (!flow || typeof flow !== 'object') {
+      throw new BundleVerificationError(
+        `Flow "${flowId}" is listed in bundle "${manifest.bundle_id}" but not included`,
+        'flow_missing',
+        keyId,
+        flowId
+      );
+    }
+    if (flow.flowId !== entry.flow_id || flow.flowVersion !== entry.flow_version) {
+      throw new BundleVerificationError(
+        `Flow "${flowId}" is ${flow.flowId} v${flow.flowVersion} but the manifest lists ` +
+        `${entry.flow_id} v${entry.flow_version}`,
+        'version_mismatch',
+        keyId,
+        flowId
+      );
+    }
+
+    const computedHash = await FlowChecksumValidator.computeFlowHash(flow);
+    if (computedHash !== entry.content_hash.toLowerCase().trim()) {
+      throw new BundleVerificationError(
+        `Flow "${flowId}" does not match the signed content hash: expected ` +
+        `${entry.content_hash}, computed ${computedHash}`,
+        'content_hash_mismatch',
+        keyId,
+        flowId
+      );
+    }
+
+    return flow;
+  }
+
+  private static validateShape(raw: unknown): SignedFlowBundle {
+    const fail = (detail: string): never => {
+      throw new BundleVerificationError(`Malformed flow bundle: ${detail}`, 'malformed_bundle');
+    };
+
+    if (!raw || typeof raw !== 'object') fail('bundle must be an object');
+    const bundle = raw as Partial<SignedFlowBundle>;
+    const manifest = bundle.manifest as Partial<FlowBundleManifest> | undefined;
+
+    if (!manifest || typeof manifest !== 'object') fail('missing "manifest"');
+    if (typeof manifest!.bundle_id !== 'string') fail('manifest "bundle_id" must be a string');
+    if (typeof manifest!.publisher_key_id !== 'string') fail('manifest "publisher_key_id" must be a string');
+    if (!Array.isArray(manifest!.flows)) fail('manifest "flows" must be an array');
+    manifest!.flows!.forEach((entry, i) => {
+      if (
+        !entry ||
+        typeof entry.flow_id !== 'string' ||
+        typeof entry.flow_version !== 'string' ||
+        typeof entry.content_hash !== 'string'
+      ) {
+        fail(`manifest flows[${i}] needs string "flow_id", "flow_version" and "content_hash"`);
+      }
+    });
+    if (typeof bundle.signature !== 'string') fail('"signature" must be a base64 string');
+    if (!bundle.flows || typeof bundle.flows !== 'object') fail('"flows" must be an object keyed by flow_id');
+
+    return bundle as SignedFlowBundle;
+  }
+}
+
+function decodeBase64(text: string): Uint8Array | null {
+  try {
+    const binary = atob(text);
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
@@ -1,5 +1,23 @@
 import { FlowChecksumValidator, ChecksumVerificationError } from './Flowchecksumvalidator';
-import { EnumValidator } from './EnumValidators';
+import { EnumValidator, EnumScope } from './EnumValidators';
+import {
+  Interval,
+  closedInterval,
+  intersectIntervals,
+  subtractIntervals,
+  formatIntervals,
+} from '../utils/ConditionIntervals';
+import { ConditionExpression } from '../utils/ConditionExpression';
+import { JsonCanonicalizer } from '../utils/JsonCanonicalizer';
+import {
+  ANSWER_SEMANTICS,
+  AnswerSemantic,
+  FieldMapping,
+  REQUIRED_BASE_FIELDS,
+  REQUIRED_SUFFIX_FIELDS,
+  STOP_REASON_CODES,
+  StopReasonCode,
+} from '../types';
 
 
 export interface RawFlow {
@@ -8,6 +26,8 @@ export interface RawFlow {
   startNode: string;
   title?: string;
   nodes: Record<string, RawFlowNode>;
+  fieldMappings?: FieldMapping[];
+  artifactEnumsVersion?: string; // artifact_enums schema; latest when omitted
 }
 
 export interface RawFlowNode {
@@ -15,16 +35,29 @@ export interface RawFlowNode {
   [key: string]: unknown;
 }
 
+/**
+ * Marks a node as the head of an intentional loop, e.g. "retry measurement".
+ * The engine enters the node at most maxIterations times per session; the
+ * next attempt to enter it goes to onExhausted instead.
+ */
+export interface LoopPolicy {
+  maxIterations: number;
+  onExhausted: string;
+}
+
 export interface QuestionNode extends RawFlowNode {
   type: 'QUESTION';
   text: string;
   answers: Record<string, string>;
+  answerSemantics?: Record<string, AnswerSemantic>;
+  loop?: LoopPolicy;
 }
 
 export interface SafetyNode extends RawFlowNode {
   type: 'SAFETY';
   text: string;
   next: string;
+  loop?: LoopPolicy;
 }
 
 export interface MeasureBranch {
@@ -38,6 +71,7 @@ export interface MeasureNode extends RawFlowNode {
   unit?: string;
   validRange: { min: number; max: number };
   branches: MeasureBranch[];
+  loop?: LoopPolicy;
 }
 
 export interface FlowArtifact {
@@ -62,6 +96,8 @@ export interface TerminalNode extends RawFlowNode {
   type: 'TERMINAL';
   result: string;
   artifact: FlowArtifact;
+  severity?: 'stop';
+  stopCode?: StopReasonCode;
 }
 
 // ─── Errors ───────────────────────────────────────────────────────────────────
@@ -87,6 +123,32 @@ export class EnumValidationError extends FlowValidationError {
   }
 }
 
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface FlowDiagnostic {
+  severity: DiagnosticSeverity;
+  path: string;    // JSON pointer into the flow, e.g. /nodes/q1/answers/no
+  code: string;
+  message: string;
+}
+
+/**
+ * Thrown by validate/validateSync with every error-severity diagnostic,
+ * so one run reports all problems in the flow.
+ */
+export class FlowLintError extends FlowValidationError {
+  constructor(
+    public readonly flowId: string,
+    public readonly diagnostics: FlowDiagnostic[]
+  ) {
+    super(
+      `Flow "${flowId}" failed validation with ${diagnostics.length} error(s):\n` +
+      diagnostics.map(d => `  ${d.path || '/'} [${d.code}] ${d.message}`).join('\n')
+    );
+    this.name = 'FlowLintError';
+  }
+}
+
 // ─── Exports ──────────────────────────────────────────────────────────────────
 
 export { ChecksumVerificationError };
@@ -94,21 +156,7 @@ export { ChecksumVerificationError };
 // ─── Condition evaluator ──────────────────────────────────────────────────────
 
 export function evaluateCondition(condition: string, value: number): boolean {
-  const match = condition.trim().match(/^([<>!=]=?)\s*([\d.]+)$/);
-  if (!match) {
-    throw new Error(`Invalid condition syntax: "${condition}"`);
-  }
-  const op = match[1];
-  const threshold = parseFloat(match[2]);
-  switch (op) {
-    case '<':  return value < threshold;
-    case '<=': return value <= threshold;
-    case '>':  return value > threshold;
-    case '>=': return value >= threshold;
-    case '==': return value === threshold;
-    case '!=': return value !== threshold;
-    default:   throw new Error(`Unsupported operator: "${op}"`);
-  }
+  return ConditionExpression.evaluate(condition, value);
 }
 
 export function resolveMeasureBranch(
@@ -124,32 +172,22 @@ export function resolveMeasureBranch(
 }
 
 export class FlowValidator {
-  // Track registered flow IDs for uniqueness validation
-  private static registeredFlowIds = new Set<string>();
+  // Canonical content of each registered flow version, for uniqueness validation.
+  // Reloading the same content is allowed; other versions of a flowId are too.
+  private static registeredFlows = new Map<string, string>();
   static async validate(raw: RawFlow, expectedChecksum?: string): Promise<void> {
     // Step 1: Checksum verification (if provided)
     if (expectedChecksum) {
-      const flowJsonString = JSON.stringify(raw);
       await FlowChecksumValidator.verifyChecksumOrThrow(
-        flowJsonString,
+        raw,
         expectedChecksum,
         raw.flowId,
         raw.flowVersion
       );
     }
 
-    // Step 2: Schema validation
-    this.validateTopLevel(raw);
-    this.validateFlowIdUniqueness(raw.flowId);
-    this.validateNodes(raw.nodes);
-    this.validateReachability(raw.startNode, raw.nodes);
-    this.validateHasTerminal(raw.nodes);
-
-    // Step 3: Enum validation for terminal nodes
-    this.validateTerminalEnums(raw.nodes);
-
-    // Register flow ID as validated
-    this.registeredFlowIds.add(raw.flowId);
+    // Step 2: Schema, graph and enum validation
+    this.validateSync(raw);
   }
 
   /**
@@ -158,152 +196,278 @@ export class FlowValidator {
    * @param raw - Flow definition object
    */
   static validateSync(raw: RawFlow): void {
-    this.validateTopLevel(raw);
-    this.validateFlowIdUniqueness(raw.flowId);
-    this.validateNodes(raw.nodes);
-    this.validateReachability(raw.startNode, raw.nodes);
-    this.validateHasTerminal(raw.nodes);
-    this.validateTerminalEnums(raw.nodes);
-    this.registeredFlowIds.add(raw.flowId);
+    const diagnostics: FlowDiagnostic[] = [];
+    const key = `${raw.flowId}@${raw.flowVersion}`;
+    const content = JsonCanonicalizer.canonicalize(raw);
+    const registered = this.registeredFlows.get(key);
+    if (registered !== undefined && registered !== content) {
+      diagnostics.push({
+        severity: 'error',
+        path: '/flowId',
+        code: 'duplicate_flow_id',
+        message:
+          `Duplicate flow ID detected: "${raw.flowId}" v${raw.flowVersion} is already registered ` +
+          `with different content. Each flow version must have a unique flowId and flowVersion.`,
+      });
+    }
+    diagnostics.push(...this.lint(raw));
+
+    const errors = diagnostics.filter(d => d.severity === 'error');
+    if (errors.length > 0) {
+      throw new FlowLintError(String(raw.flowId), errors);
+    }
+    this.registeredFlows.set(key, content);
   }
 
   /**
-   * Clear registered flow IDs (for testing)
+   * Run every check and return all findings instead of stopping at the
+   * first. Does not consult or update the flow version registry.
    */
-  static clearRegistry(): void {
-    this.registeredFlowIds.clear();
+  static lint(raw: RawFlow): FlowDiagnostic[] {
+    const out = new DiagnosticCollector();
+    if (!this.lintTopLevel(raw, out)) {
+      return out.diagnostics;
+    }
+    this.lintNodes(raw, out);
+    this.lintReachability(raw.startNode, raw.nodes, out);
+    this.lintTermination(raw.nodes, out);
+    this.lintHasTerminal(raw.nodes, out);
+    this.lintTerminalEnums(raw, out);
+    this.lintFieldMappings(raw, out);
+    return out.diagnostics;
   }
 
-  // ── Flow ID uniqueness ─────────────────────────────────────────────────────
-
-  private static validateFlowIdUniqueness(flowId: string): void {
-    if (this.registeredFlowIds.has(flowId)) {
-      throw new FlowValidationError(
-        `Duplicate flow ID detected: "${flowId}". ` +
-        `Each flow must have a unique flowId.`
-      );
-    }
+  /**
+   * Clear registered flow versions (for testing)
+   */
+  static clearRegistry(): void {
+    this.registeredFlows.clear();
   }
 
   // ── Top-level ──────────────────────────────────────────────────────────────
 
-  private static validateTopLevel(raw: RawFlow): void {
+  /**
+   * Returns false when the nodes map is unusable, since every later check
+   * depends on it.
+   */
+  private static lintTopLevel(raw: RawFlow, out: DiagnosticCollector): boolean {
     if (!raw.flowId || typeof raw.flowId !== 'string') {
-      throw new FlowValidationError('Flow must have a string "flowId"');
+      out.error('/flowId', 'missing_field', 'Flow must have a string "flowId"');
     }
     if (!raw.flowVersion || typeof raw.flowVersion !== 'string') {
-      throw new FlowValidationError('Flow must have a string "flowVersion"');
+      out.error('/flowVersion', 'missing_field', 'Flow must have a string "flowVersion"');
     }
     if (!raw.startNode || typeof raw.startNode !== 'string') {
-      throw new FlowValidationError('Flow must have a string "startNode"');
+      out.error('/startNode', 'missing_field', 'Flow must have a string "startNode"');
     }
     if (!raw.nodes) {
-      throw new FlowValidationError('Flow must have a "nodes" field');
+      out.error('/nodes', 'missing_field', 'Flow must have a "nodes" field');
+      return false;
     }
     
     // CRITICAL: Enforce dict format only, reject arrays
     if (Array.isArray(raw.nodes)) {
-      throw new FlowValidationError(
+      out.error(
+        '/nodes',
+        'invalid_nodes',
         'Flow "nodes" must be an object (dictionary) keyed by node ID. ' +
         'Array format is not allowed. Convert to: { "node_id": { "type": "...", ... }, ... }'
       );
+      return false;
     }
     
     if (typeof raw.nodes !== 'object') {
-      throw new FlowValidationError('Flow "nodes" must be an object');
+      out.error('/nodes', 'invalid_nodes', 'Flow "nodes" must be an object');
+      return false;
     }
     
     if (Object.keys(raw.nodes).length === 0) {
-      throw new FlowValidationError('"nodes" must not be empty');
+      out.error('/nodes', 'empty_nodes', '"nodes" must not be empty');
+      return false;
     }
-    if (!raw.nodes[raw.startNode]) {
-      throw new FlowValidationError(
+    if (raw.startNode && !raw.nodes[raw.startNode]) {
+      out.error(
+        '/startNode',
+        'unknown_node',
         `"startNode" value "${raw.startNode}" does not exist in nodes`
       );
     }
+    return true;
   }
 
   // ── Per-node dispatch ──────────────────────────────────────────────────────
 
-  private static validateNodes(nodes: Record<string, RawFlowNode>): void {
-    const allNodeIds = Object.keys(nodes);
-    for (const [nodeId, node] of Object.entries(nodes)) {
-      this.validateNode(nodeId, node, allNodeIds);
+  private static lintNodes(raw: RawFlow, out: DiagnosticCollector): void {
+    const allNodeIds = Object.keys(raw.nodes);
+    for (const [nodeId, node] of Object.entries(raw.nodes)) {
+      this.lintNode(raw, nodeId, node, allNodeIds, out);
     }
   }
 
-  private static validateNode(
+  private static lintNode(
+    raw: RawFlow,
     nodeId: string,
     node: RawFlowNode,
-    allNodeIds: string[]
+    allNodeIds: string[],
+    out: DiagnosticCollector
   ): void {
+    const path = pointer('nodes', nodeId);
+    if (!node || typeof node !== 'object') {
+      out.error(path, 'invalid_node', `Node "${nodeId}" must be an object`);
+      return;
+    }
     if (!node.type) {
-      throw new FlowValidationError(`Node "${nodeId}" is missing "type"`);
+      out.error(`${path}/type`, 'missing_field', `Node "${nodeId}" is missing "type"`);
+      return;
     }
-    const allowed = ['QUESTION', 'SAFETY', 'MEASURE', 'TERMINAL'];
+    const allowed = Object.keys(KNOWN_NODE_PROPERTIES);
     if (!allowed.includes(node.type)) {
-      throw new FlowValidationError(
+      out.error(
+        `${path}/type`,
+        'unknown_type',
         `Node "${nodeId}" has unknown type "${node.type}". Allowed: ${allowed.join(', ')}`
       );
+      return;
     }
+
+    for (const key of Object.keys(node)) {
+      if (!KNOWN_NODE_PROPERTIES[node.type].includes(key)) {
+        out.warning(
+          `${path}/${escapePointer(key)}`,
+          'unknown_property',
+          `${node.type} node "${nodeId}" has unrecognized property "${key}"`
+        );
+      }
+    }
+
+    if ('loop' in node && node.type !== 'TERMINAL') {
+      this.lintLoopPolicy(nodeId, node.loop, allNodeIds, out);
+    }
+
     switch (node.type) {
-      case 'QUESTION': return this.validateQuestionNode(nodeId, node as QuestionNode, allNodeIds);
-      case 'SAFETY':   return this.validateSafetyNode(nodeId, node as SafetyNode, allNodeIds);
-      case 'MEASURE':  return this.validateMeasureNode(nodeId, node as MeasureNode, allNodeIds);
-      case 'TERMINAL': return this.validateTerminalNode(nodeId, node as TerminalNode);
+      case 'QUESTION': return this.lintQuestionNode(nodeId, node as QuestionNode, allNodeIds, out);
+      case 'SAFETY':   return this.lintSafetyNode(nodeId, node as SafetyNode, allNodeIds, out);
+      case 'MEASURE':  return this.lintMeasureNode(nodeId, node as MeasureNode, allNodeIds, out);
+      case 'TERMINAL': return this.lintTerminalNode(raw, nodeId, node as TerminalNode, out);
     }
   }
 
   // ── QUESTION ───────────────────────────────────────────────────────────────
 
-  private static validateQuestionNode(
+  private static lintQuestionNode(
     nodeId: string,
     node: QuestionNode,
-    allNodeIds: string[]
+    allNodeIds: string[],
+    out: DiagnosticCollector
   ): void {
+    const path = pointer('nodes', nodeId);
     if (!node.text || typeof node.text !== 'string') {
-      throw new FlowValidationError(`QUESTION node "${nodeId}" must have a string "text"`);
+      out.error(`${path}/text`, 'missing_field', `QUESTION node "${nodeId}" must have a string "text"`);
     }
     if (!node.answers || typeof node.answers !== 'object' || Array.isArray(node.answers)) {
-      throw new FlowValidationError(
+      out.error(
+        `${path}/answers`,
+        'missing_field',
         `QUESTION node "${nodeId}" must have an "answers" object mapping answer keys to node IDs`
       );
+      return;
+    }
+    const answerCount = Object.keys(node.answers).length;
+    if (answerCount === 0) {
+      out.error(`${path}/answers`, 'empty_answers', `QUESTION node "${nodeId}" "answers" must not be empty`);
+      return;
     }
-    if (Object.keys(node.answers).length === 0) {
-      throw new FlowValidationError(`QUESTION node "${nodeId}" "answers" must not be empty`);
+    if (answerCount === 1) {
+      out.warning(
+        `${path}/answers`,
+        'single_answer',
+        `QUESTION node "${nodeId}" has only one answer; consider a SAFETY node instead`
+      );
     }
     for (const [answerKey, nextNodeId] of Object.entries(node.answers)) {
+      const answerPath = `${path}/answers/${escapePointer(answerKey)}`;
       if (!nextNodeId || typeof nextNodeId !== 'string') {
-        throw new FlowValidationError(
+        out.error(
+          answerPath,
+          'missing_field',
           `QUESTION node "${nodeId}" answer "${answerKey}" must map to a non-empty string node ID`
         );
-      }
-      if (!allNodeIds.includes(nextNodeId)) {
-        throw new FlowValidationError(
+      } else if (!allNodeIds.includes(nextNodeId)) {
+        out.error(
+          answerPath,
+          'unknown_node',
           `QUESTION node "${nodeId}" answer "${answerKey}" references non-existent node "${nextNodeId}"`
         );
       }
     }
+    if ('answerSemantics' in node) {
+      this.lintAnswerSemantics(nodeId, node, out);
+    }
+  }
+
+  /** When declared, every answer needs exactly one known semantic. */
+  private static lintAnswerSemantics(nodeId: string, node: QuestionNode, out: DiagnosticCollector): void {
+    const path = `${pointer('nodes', nodeId)}/answerSemantics`;
+    const semantics: unknown = node.answerSemantics;
+    if (!semantics || typeof semantics !== 'object' || Array.isArray(semantics)) {
+      out.error(
+        path,
+        'invalid_answer_semantics',
+        `QUESTION node "${nodeId}" "answerSemantics" must be an object mapping answer keys to semantics`
+      );
+      return;
+    }
+    for (const [answerKey, semantic] of Object.entries(semantics)) {
+      const answerPath = `${path}/${escapePointer(answerKey)}`;
+      if (!(answerKey in node.answers)) {
+        out.error(
+          answerPath,
+          'unknown_answer',
+          `QUESTION node "${nodeId}" declares a semantic for unknown answer "${answerKey}"`
+        );
+      } else if (!ANSWER_SEMANTICS.includes(semantic)) {
+        out.error(
+          answerPath,
+          'invalid_answer_semantics',
+          `QUESTION node "${nodeId}" answer "${answerKey}" has semantic "${semantic}". ` +
+          `Allowed: ${ANSWER_SEMANTICS.join(', ')}`
+        );
+      }
+    }
+    for (const answerKey of Object.keys(node.answers)) {
+      if (!(answerKey in semantics)) {
+        out.error(
+          `${path}/${escapePointer(answerKey)}`,
+          'missing_answer_semantics',
+          `QUESTION node "${nodeId}" declares "answerSemantics" but not for answer "${answerKey}"`
+        );
+      }
+    }
   }
 
   // ── SAFETY ─────────────────────────────────────────────────────────────────
 
-  private static validateSafetyNode(
+  private static lintSafetyNode(
     nodeId: string,
     node: SafetyNode,
-    allNodeIds: string[]
+    allNodeIds: string[],
+    out: DiagnosticCollector
   ): void {
+    const path = pointer('nodes', nodeId);
     if (!node.text || typeof node.text !== 'string') {
-      throw new FlowValidationError(`SAFETY node "${nodeId}" must have a string "text"`);
+      out.error(`${path}/text`, 'missing_field', `SAFETY node "${nodeId}" must have a string "text"`);
     }
     if (!node.next || typeof node.next !== 'string') {
-      throw new FlowValidationError(
+      out.error(
+        `${path}/next`,
+        'missing_field',
         `SAFETY node "${nodeId}" must have a string "next" field. ` +
         `Note: use "next", not "nextNode"`
       );
-    }
-    if (!allNodeIds.includes(node.next)) {
-      throw new FlowValidationError(
+    } else if (!allNodeIds.includes(node.next)) {
+      out.error(
+        `${path}/next`,
+        'unknown_node',
         `SAFETY node "${nodeId}" "next" references non-existent node "${node.next}"`
       );
     }
@@ -311,62 +475,240 @@ export class FlowValidator {
 
   // ── MEASURE ────────────────────────────────────────────────────────────────
 
-  private static validateMeasureNode(
+  private static lintMeasureNode(
     nodeId: string,
     node: MeasureNode,
-    allNodeIds: string[]
+    allNodeIds: string[],
+    out: DiagnosticCollector
   ): void {
+    const path = pointer('nodes', nodeId);
     if (!node.text || typeof node.text !== 'string') {
-      throw new FlowValidationError(`MEASURE node "${nodeId}" must have a string "text"`);
-    }
-    if (!node.validRange || typeof node.validRange !== 'object') {
-      throw new FlowValidationError(`MEASURE node "${nodeId}" must have a "validRange" object`);
+      out.error(`${path}/text`, 'missing_field', `MEASURE node "${nodeId}" must have a string "text"`);
     }
-    if (typeof node.validRange.min !== 'number') {
-      throw new FlowValidationError(`MEASURE node "${nodeId}" "validRange.min" must be a number`);
+    if (!node.unit) {
+      out.warning(`${path}/unit`, 'missing_unit', `MEASURE node "${nodeId}" has no "unit"`);
     }
-    if (typeof node.validRange.max !== 'number') {
-      throw new FlowValidationError(`MEASURE node "${nodeId}" "validRange.max" must be a number`);
-    }
-    if (node.validRange.min >= node.validRange.max) {
-      throw new FlowValidationError(
+
+    let rangeValid = false;
+    if (!node.validRange || typeof node.validRange !== 'object') {
+      out.error(`${path}/validRange`, 'missing_field', `MEASURE node "${nodeId}" must have a "validRange" object`);
+    } else if (typeof node.validRange.min !== 'number') {
+      out.error(`${path}/validRange/min`, 'invalid_field', `MEASURE node "${nodeId}" "validRange.min" must be a number`);
+    } else if (typeof node.validRange.max !== 'number') {
+      out.error(`${path}/validRange/max`, 'invalid_field', `MEASURE node "${nodeId}" "validRange.max" must be a number`);
+    } else if (node.validRange.min >= node.validRange.max) {
+      out.error(
+        `${path}/validRange`,
+        'invalid_range',
         `MEASURE node "${nodeId}" "validRange.min" (${node.validRange.min}) ` +
         `must be less than "validRange.max" (${node.validRange.max})`
       );
+    } else {
+      rangeValid = true;
     }
+
     if (!Array.isArray(node.branches) || node.branches.length === 0) {
-      throw new FlowValidationError(
+      out.error(
+        `${path}/branches`,
+        'empty_branches',
         `MEASURE node "${nodeId}" "branches" must be a non-empty array`
       );
+      return;
     }
+    let branchesValid = true;
     for (let i = 0; i < node.branches.length; i++) {
       const branch = node.branches[i];
+      const branchPath = `${path}/branches/${i}`;
       if (!branch.condition || typeof branch.condition !== 'string') {
-        throw new FlowValidationError(
+        branchesValid = false;
+        out.error(
+          `${branchPath}/condition`,
+          'missing_field',
           `MEASURE node "${nodeId}" branch[${i}] must have a string "condition"`
         );
       }
       if (!branch.next || typeof branch.next !== 'string') {
-        throw new FlowValidationError(
+        out.error(
+          `${branchPath}/next`,
+          'missing_field',
           `MEASURE node "${nodeId}" branch[${i}] must have a string "next"`
         );
-      }
-      if (!allNodeIds.includes(branch.next)) {
-        throw new FlowValidationError(
+      } else if (!allNodeIds.includes(branch.next)) {
+        out.error(
+          `${branchPath}/next`,
+          'unknown_node',
           `MEASURE node "${nodeId}" branch[${i}] "next" references non-existent node "${branch.next}"`
         );
       }
     }
+    if (rangeValid && branchesValid) {
+      this.lintMeasureCoverage(nodeId, node, out);
+    }
+  }
+
+  /**
+   * Interval analysis of the branch conditions over validRange. Every value
+   * in range must match some branch, and because the engine takes the first
+   * match, a later branch must not share values with an earlier branch that
+   * routes elsewhere.
+   */
+  private static lintMeasureCoverage(
+    nodeId: string,
+    node: MeasureNode,
+    out: DiagnosticCollector
+  ): void {
+    const path = pointer('nodes', nodeId);
+    const range = [closedInterval(node.validRange.min, node.validRange.max)];
+    const claimed: { index: number; next: string; intervals: Interval[] }[] = [];
+    let parsedAll = true;
+
+    node.branches.forEach((branch, i) => {
+      const conditionPath = `${path}/branches/${i}/condition`;
+      let accepted: Interval[];
+      try {
+        accepted = intersectIntervals(ConditionExpression.toIntervals(branch.condition), range);
+      } catch (error) {
+        parsedAll = false;
+        out.error(
+          conditionPath,
+          'invalid_condition',
+          `MEASURE node "${nodeId}" branch[${i}] has invalid condition "${branch.condition}": ` +
+          `${(error as Error).message}`
+        );
+        return;
+      }
+
+      if (node.unit) {
+        const expected = ConditionExpression.normalizeUnit(node.unit);
+        const mismatched = ConditionExpression.units(branch.condition)
+          .find(unit => ConditionExpression.normalizeUnit(unit) !== expected);
+        if (mismatched) {
+          out.error(
+            conditionPath,
+            'unit_mismatch',
+            `MEASURE node "${nodeId}" branch[${i}] condition "${branch.condition}" uses unit ` +
+            `"${mismatched}" but the node measures "${node.unit}"`
+          );
+        }
+      }
+
+      for (const earlier of claimed) {
+        if (earlier.next === branch.next) continue;
+        const shadowed = intersectIntervals(accepted, earlier.intervals);
+        if (shadowed.length > 0) {
+          out.error(
+            conditionPath,
+            'branch_overlap',
+            `MEASURE node "${nodeId}" branch[${i}] "${branch.condition}" overlaps ` +
+            `branch[${earlier.index}] "${node.branches[earlier.index].condition}" on ` +
+            `${formatIntervals(shadowed)}. The first match wins, so these values go to ` +
+            `"${earlier.next}" and never reach "${branch.next}"`
+          );
+        }
+      }
+      claimed.push({ index: i, next: branch.next, intervals: accepted });
+    });
+
+    // A gap is only meaningful once every condition is understood
+    if (!parsedAll) return;
+
+    const uncovered = subtractIntervals(range, claimed.flatMap(c => c.intervals));
+    if (uncovered.length > 0) {
+      out.error(
+        `${path}/branches`,
+        'coverage_gap',
+        `MEASURE node "${nodeId}" branches do not cover validRange ` +
+        `[${node.validRange.min}, ${node.validRange.max}]: no branch matches ${formatIntervals(uncovered)}`
+      );
+    }
+  }
+
+  // ── Loop policy ────────────────────────────────────────────────────────────
+
+  private static lintLoopPolicy(
+    nodeId: string,
+    loop: unknown,
+    allNodeIds: string[],
+    out: DiagnosticCollector
+  ): void {
+    const path = `${pointer('nodes', nodeId)}/loop`;
+    if (!loop || typeof loop !== 'object') {
+      out.error(path, 'invalid_loop', `Node "${nodeId}" "loop" must be an object`);
+      return;
+    }
+    const { maxIterations, onExhausted } = loop as Partial<LoopPolicy>;
+    if (typeof maxIterations !== 'number' || !Number.isInteger(maxIterations) || maxIterations < 1) {
+      out.error(
+        `${path}/maxIterations`,
+        'invalid_loop',
+        `Node "${nodeId}" "loop.maxIterations" must be a positive integer`
+      );
+    }
+    if (!onExhausted || typeof onExhausted !== 'string') {
+      out.error(
+        `${path}/onExhausted`,
+        'missing_field',
+        `Node "${nodeId}" "loop.onExhausted" must be a string node ID`
+      );
+    } else if (!allNodeIds.includes(onExhausted)) {
+      out.error(
+        `${path}/onExhausted`,
+        'unknown_node',
+        `Node "${nodeId}" "loop.onExhausted" references non-existent node "${onExhausted}"`
+      );
+    } else if (onExhausted === nodeId) {
+      out.error(
+        `${path}/onExhausted`,
+        'invalid_loop',
+        `Node "${nodeId}" "loop.onExhausted" must lead out of the loop, not back to the node itself`
+      );
+    }
   }
 
   // ── TERMINAL ───────────────────────────────────────────────────────────────
 
-  private static validateTerminalNode(nodeId: string, node: TerminalNode): void {
+  /** A stop terminal must say why it stops; only stop terminals carry a stopCode. */
+  private static lintStopSeverity(nodeId: string, node: TerminalNode, out: DiagnosticCollector): void {
+    const path = pointer('nodes', nodeId);
+    if (node.severity === undefined) {
+      if (node.stopCode !== undefined) {
+        out.error(
+          `${path}/stopCode`,
+          'invalid_field',
+          `TERMINAL node "${nodeId}" has a "stopCode" but is not marked "severity": "stop"`
+        );
+      }
+      return;
+    }
+    if (node.severity !== 'stop') {
+      out.error(`${path}/severity`, 'invalid_field', `TERMINAL node "${nodeId}" "severity" must be "stop"`);
+      return;
+    }
+    if (node.stopCode === undefined) {
+      out.error(`${path}/stopCode`, 'missing_field', `Stop TERMINAL node "${nodeId}" must have a "stopCode"`);
+    } else if (!STOP_REASON_CODES.includes(node.stopCode)) {
+      out.error(
+        `${path}/stopCode`,
+        'invalid_field',
+        `TERMINAL node "${nodeId}" has unknown stopCode "${node.stopCode}". Allowed: ${STOP_REASON_CODES.join(', ')}`
+      );
+    }
+  }
+
+  private static lintTerminalNode(
+    raw: RawFlow,
+    nodeId: string,
+    node: TerminalNode,
+    out: DiagnosticCollector
+  ): void {
+    const path = pointer('nodes', nodeId);
     if (!node.result || typeof node.result !== 'string') {
-      throw new FlowValidationError(`TERMINAL node "${nodeId}" must have a string "result"`);
+      out.error(`${path}/result`, 'missing_field', `TERMINAL node "${nodeId}" must have a string "result"`);
     }
+    this.lintStopSeverity(nodeId, node, out);
     if (!node.artifact || typeof node.artifact !== 'object') {
-      throw new FlowValidationError(`TERMINAL node "${nodeId}" must have an "artifact" object`);
+      out.error(`${path}/artifact`, 'missing_field', `TERMINAL node "${nodeId}" must have an "artifact" object`);
+      return;
     }
 
     const artifact = node.artifact;
@@ -383,7 +725,9 @@ export class FlowValidator {
 
     for (const field of requiredStringFields) {
       if (!(field in artifact)) {
-        throw new FlowValidationError(
+        out.error(
+          `${path}/artifact/${field}`,
+          'missing_field',
           `TERMINAL node "${nodeId}" artifact missing required field "${field}"`
         );
       }
@@ -391,46 +735,223 @@ export class FlowValidator {
 
     // Validate safety_notes array
     if (!Array.isArray(artifact.safety_notes)) {
-      throw new FlowValidationError(
+      out.error(
+        `${path}/artifact/safety_notes`,
+        'invalid_field',
         `TERMINAL node "${nodeId}" artifact "safety_notes" must be an array`
       );
     }
+
+    if ('flow_id' in artifact && artifact.flow_id !== raw.flowId) {
+      out.warning(
+        `${path}/artifact/flow_id`,
+        'artifact_mismatch',
+        `TERMINAL node "${nodeId}" artifact flow_id "${artifact.flow_id}" differs from flowId "${raw.flowId}"`
+      );
+    }
+    if ('flow_version' in artifact && artifact.flow_version !== raw.flowVersion) {
+      out.warning(
+        `${path}/artifact/flow_version`,
+        'artifact_mismatch',
+        `TERMINAL node "${nodeId}" artifact flow_version "${artifact.flow_version}" ` +
+        `differs from flowVersion "${raw.flowVersion}"`
+      );
+    }
   }
 
   // ── MS 5.7: Enum validation ────────────────────────────────────────────────
 
   /**
-   * Validate enum fields in terminal artifacts using EnumValidator
+   * Check the declared artifact_enums version covers this flow, then every
+   * string field of every terminal artifact against the shared and
+   * per-flow enums of that version.
    */
-  private static validateTerminalEnums(nodes: Record<string, RawFlowNode>): void {
-    for (const [nodeId, node] of Object.entries(nodes)) {
-      if (node.type === 'TERMINAL') {
-        const terminalNode = node as TerminalNode;
-        const artifact = terminalNode.artifact;
-
-        // Validate vertical_id if present
-        if ('vertical_id' in artifact && artifact.vertical_id) {
-          const result = EnumValidator.validate('vertical_id', artifact.vertical_id);
-          if (!result.is_valid) {
-            const allowedValues = EnumValidator.getAllowedValues('vertical_id') || [];
-            throw new EnumValidationError(
-              'vertical_id',
-              artifact.vertical_id,
-              allowedValues
-            );
-          }
+  private static lintTerminalEnums(raw: RawFlow, out: DiagnosticCollector): void {
+    if (raw.artifactEnumsVersion !== undefined) {
+      if (typeof raw.artifactEnumsVersion !== 'string') {
+        out.error('/artifactEnumsVersion', 'invalid_field', '"artifactEnumsVersion" must be a string');
+        return;
+      }
+      const problem = EnumValidator.checkCompatibility(raw.flowId, raw.flowVersion, raw.artifactEnumsVersion);
+      if (problem) {
+        out.error('/artifactEnumsVersion', 'incompatible_enum_version', `Flow "${raw.flowId}": ${problem}`);
+        return;
+      }
+    }
+
+    const scope = enumScope(raw);
+    for (const [nodeId, node] of Object.entries(raw.nodes)) {
+      if (node?.type !== 'TERMINAL') continue;
+      const artifact = (node as TerminalNode).artifact;
+      if (!artifact || typeof artifact !== 'object') continue;
+
+      for (const [field, value] of Object.entries(artifact)) {
+        if (typeof value !== 'string' || !EnumValidator.isEnumField(field, scope)) continue;
+        if (!EnumValidator.validate(field, value, scope).is_valid) {
+          out.error(
+            pointer('nodes', nodeId, 'artifact', field),
+            'invalid_enum',
+            new EnumValidationError(field, value, EnumValidator.getAllowedValues(field, scope)!).message
+          );
         }
-        // Additional enum fields can be validated here as needed
       }
     }
   }
 
+  // ── Field mappings ─────────────────────────────────────────────────────────
+
+  /**
+   * QUESTION answers can fill string or enum fields (enums need a `values`
+   * table from answer keys to artifact values); MEASURE readings fill
+   * number fields.
+   */
+  private static lintFieldMappings(raw: RawFlow, out: DiagnosticCollector): void {
+    if (raw.fieldMappings === undefined) return;
+    if (!Array.isArray(raw.fieldMappings)) {
+      out.error('/fieldMappings', 'invalid_field', '"fieldMappings" must be an array');
+      return;
+    }
+
+    const terminalFields = new Set<string>();
+    for (const node of Object.values(raw.nodes)) {
+      const artifact = (node as TerminalNode | undefined)?.artifact;
+      if (node?.type === 'TERMINAL' && artifact && typeof artifact === 'object') {
+        Object.keys(artifact).forEach(field => terminalFields.add(field));
+      }
+    }
+
+    const mappedFields = new Set<string>();
+    raw.fieldMappings.forEach((mapping, i) => {
+      const path = pointer('fieldMappings', String(i));
+      if (!mapping || typeof mapping !== 'object') {
+        out.error(path, 'invalid_field', `Field mapping ${i} must be an object`);
+        return;
+      }
+
+      const field = mapping.artifact_field;
+      if (!field || typeof field !== 'string') {
+        out.error(`${path}/artifact_field`, 'missing_field', `Field mapping ${i} must have a string "artifact_field"`);
+      } else if (RESERVED_ARTIFACT_FIELDS.includes(field)) {
+        out.error(
+          `${path}/artifact_field`,
+          'reserved_field',
+          `Field mapping ${i} cannot fill "${field}"; it is set by the engine or the terminal template`
+        );
+      } else if (mappedFields.has(field)) {
+        out.error(`${path}/artifact_field`, 'duplicate_mapping', `Artifact field "${field}" is mapped more than once`);
+      } else {
+        mappedFields.add(field);
+        if (!terminalFields.has(field)) {
+          out.warning(
+            `${path}/artifact_field`,
+            'unused_mapping',
+            `Artifact field "${field}" does not appear in any TERMINAL artifact, so the mapping is never applied`
+          );
+        }
+      }
+
+      if (!FIELD_TYPES.includes(mapping.field_type)) {
+        out.error(
+          `${path}/field_type`,
+          'invalid_field',
+          `Field mapping ${i} "field_type" must be one of ${FIELD_TYPES.join(', ')}`
+        );
+        return;
+      }
+
+      const sourceId = mapping.source_node_id;
+      const source = typeof sourceId === 'string' ? raw.nodes[sourceId] : undefined;
+      if (!source) {
+        out.error(
+          `${path}/source_node_id`,
+          'unknown_node',
+          `Field mapping ${i} "source_node_id" "${sourceId}" does not exist in nodes`
+        );
+        return;
+      }
+
+      const compatible = source.type === 'QUESTION'
+        ? mapping.field_type === 'string' || mapping.field_type === 'enum'
+        : source.type === 'MEASURE' && mapping.field_type === 'number';
+      if (!compatible) {
+        out.error(
+          `${path}/field_type`,
+          'incompatible_field_type',
+          `Field mapping ${i} cannot fill a ${mapping.field_type} field from ${source.type} node "${sourceId}"`
+        );
+        return;
+      }
+
+      if (source.type === 'QUESTION') {
+        this.lintMappingValues(path, mapping, source as QuestionNode, enumScope(raw), out);
+      } else if (mapping.values !== undefined) {
+        out.error(`${path}/values`, 'invalid_field', `Field mapping ${i} "values" only applies to QUESTION sources`);
+      }
+    });
+  }
+
+  private static lintMappingValues(
+    path: string,
+    mapping: FieldMapping,
+    source: QuestionNode,
+    scope: EnumScope,
+    out: DiagnosticCollector
+  ): void {
+    const { values, source_node_id: sourceId } = mapping;
+    if (values === undefined) {
+      if (mapping.field_type === 'enum') {
+        out.error(
+          `${path}/values`,
+          'missing_field',
+          `Enum mapping from "${sourceId}" needs a "values" table from answer keys to artifact values`
+        );
+      }
+      return;
+    }
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      out.error(`${path}/values`, 'invalid_field', '"values" must be an object mapping answer keys to strings');
+      return;
+    }
+
+    const answerKeys = Object.keys(source.answers ?? {});
+    for (const [answerKey, value] of Object.entries(values)) {
+      const valuePath = `${path}/values/${escapePointer(answerKey)}`;
+      if (!answerKeys.includes(answerKey)) {
+        out.error(valuePath, 'unknown_answer', `QUESTION node "${sourceId}" has no answer "${answerKey}"`);
+      } else if (typeof value !== 'string' || value.trim() === '') {
+        out.error(valuePath, 'invalid_field', `Value for answer "${answerKey}" must be a non-empty string`);
+      } else if (!EnumValidator.validate(mapping.artifact_field, value, scope).is_valid) {
+        out.error(
+          valuePath,
+          'invalid_enum',
+          new EnumValidationError(
+            mapping.artifact_field,
+            value,
+            EnumValidator.getAllowedValues(mapping.artifact_field, scope)!
+          ).message
+        );
+      }
+    }
+    const untranslated = answerKeys.filter(key => !(key in values));
+    if (untranslated.length > 0) {
+      out.warning(
+        `${path}/values`,
+        'incomplete_mapping',
+        `Answers ${untranslated.map(key => `"${key}"`).join(', ')} of "${sourceId}" ` +
+        `have no value and will be recorded as Unknown`
+      );
+    }
+  }
+
   // ── Reachability ───────────────────────────────────────────────────────────
 
-  private static validateReachability(
+  private static lintReachability(
     startNode: string,
-    nodes: Record<string, RawFlowNode>
+    nodes: Record<string, RawFlowNode>,
+    out: DiagnosticCollector
   ): void {
+    if (!nodes[startNode]) return;
+
     const visited = new Set<string>();
     const queue: string[] = [startNode];
 
@@ -440,38 +961,38 @@ export class FlowValidator {
       visited.add(current);
 
       const node = nodes[current];
-      const nextNodes = this.getNextNodes(node);
+      const exhausted = this.getLoopPolicy(node)?.onExhausted;
+      const nextNodes = [...this.getNextNodes(node), ...(exhausted ? [exhausted] : [])];
       for (const next of nextNodes) {
-        if (!visited.has(next)) {
+        if (!visited.has(next) && nodes[next]) {
           queue.push(next);
         }
       }
     }
 
     const allNodeIds = Object.keys(nodes);
-    const unreachable = allNodeIds.filter(id => !visited.has(id));
-    
-    if (unreachable.length > 0) {
-      throw new FlowValidationError(
-        `Unreachable nodes detected: ${unreachable.join(', ')}. ` +
-        `All nodes must be reachable from startNode "${startNode}"`
+    for (const id of allNodeIds.filter(id => !visited.has(id))) {
+      out.error(
+        pointer('nodes', id),
+        'unreachable_node',
+        `Unreachable node "${id}": all nodes must be reachable from startNode "${startNode}"`
       );
     }
   }
 
-  private static getNextNodes(node: RawFlowNode): string[] {
-    switch (node.type) {
+  private static getNextNodes(node: RawFlowNode | undefined): string[] {
+    switch (node?.type) {
       case 'QUESTION': {
         const q = node as QuestionNode;
-        return Object.values(q.answers);
+        return q.answers && typeof q.answers === 'object' ? Object.values(q.answers) : [];
       }
       case 'SAFETY': {
         const s = node as SafetyNode;
-        return [s.next];
+        return s.next ? [s.next] : [];
       }
       case 'MEASURE': {
         const m = node as MeasureNode;
-        return m.branches.map(b => b.next);
+        return Array.isArray(m.branches) ? m.branches.map(b => b.next) : [];
       }
       case 'TERMINAL': {
         return [];
@@ -482,12 +1003,176 @@ export class FlowValidator {
     }
   }
 
+  // ── Termination ────────────────────────────────────────────────────────────
+
+  /**
+   * Every node must be able to reach a TERMINAL, and every cycle must pass
+   * through a node with a loop policy so the engine can bound it. A loop
+   * policy's onExhausted counts as an exit from the cycle.
+   */
+  private static lintTermination(
+    nodes: Record<string, RawFlowNode>,
+    out: DiagnosticCollector
+  ): void {
+    const graph: Record<string, string[]> = {};
+    for (const [nodeId, node] of Object.entries(nodes)) {
+      const exhausted = this.getLoopPolicy(node)?.onExhausted;
+      graph[nodeId] = [...this.getNextNodes(node), ...(exhausted ? [exhausted] : [])]
+        .filter(next => nodes[next] !== undefined);
+    }
+
+    // Reverse reachability from every terminal
+    const reverse: Record<string, string[]> = {};
+    for (const [from, targets] of Object.entries(graph)) {
+      for (const to of targets) (reverse[to] ??= []).push(from);
+    }
+    const canFinish = new Set<string>();
+    const queue = Object.keys(nodes).filter(id => nodes[id]?.type === 'TERMINAL');
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (canFinish.has(current)) continue;
+      canFinish.add(current);
+      queue.push(...(reverse[current] ?? []));
+    }
+    for (const id of Object.keys(nodes).filter(id => !canFinish.has(id))) {
+      out.error(
+        pointer('nodes', id),
+        'no_terminal_path',
+        `Node "${id}" has no path to any TERMINAL node; a session reaching it can never finish`
+      );
+    }
+
+    for (const component of stronglyConnectedComponents(graph)) {
+      const members = new Set(component);
+      const hasExit = component.some(id => graph[id].some(next => !members.has(next)));
+      if (!hasExit) {
+        out.error(
+          pointer('nodes', component[0]),
+          'closed_loop',
+          `Nodes ${component.map(id => `"${id}"`).join(', ')} form a loop with no exit`
+        );
+      }
+    }
+
+    // Cycles that survive removing every loop-policy node are unbounded
+    const unmarked: Record<string, string[]> = {};
+    for (const [nodeId, targets] of Object.entries(graph)) {
+      if (this.getLoopPolicy(nodes[nodeId])) continue;
+      unmarked[nodeId] = targets.filter(next => !this.getLoopPolicy(nodes[next]));
+    }
+    for (const component of stronglyConnectedComponents(unmarked)) {
+      out.error(
+        pointer('nodes', component[0]),
+        'unmarked_loop',
+        `Nodes ${component.map(id => `"${id}"`).join(', ')} form a loop without an iteration limit. ` +
+        `If the loop is intentional, add "loop": { "maxIterations": n, "onExhausted": "<node>" } ` +
+        `to one of them`
+      );
+    }
+  }
+
+  private static getLoopPolicy(node: RawFlowNode | undefined): LoopPolicy | undefined {
+    const loop = node?.loop as LoopPolicy | undefined;
+    return loop && typeof loop === 'object' && typeof loop.onExhausted === 'string' ? loop : undefined;
+  }
+
   // ── Has terminal ───────────────────────────────────────────────────────────
 
-  private static validateHasTerminal(nodes: Record<string, RawFlowNode>): void {
-    const hasTerminal = Object.values(nodes).some(node => node.type === 'TERMINAL');
+  private static lintHasTerminal(
+    nodes: Record<string, RawFlowNode>,
+    out: DiagnosticCollector
+  ): void {
+    const hasTerminal = Object.values(nodes).some(node => node?.type === 'TERMINAL');
     if (!hasTerminal) {
-      throw new FlowValidationError('Flow must have at least one TERMINAL node');
+      out.error('/nodes', 'no_terminal', 'Flow must have at least one TERMINAL node');
+    }
+  }
+}
+
+// ─── Lint helpers ─────────────────────────────────────────────────────────────
+
+const KNOWN_NODE_PROPERTIES: Record<string, string[]> = {
+  QUESTION: ['type', 'text', 'answers', 'answerSemantics', 'info', 'loop'],
+  SAFETY:   ['type', 'text', 'next', 'loop'],
+  MEASURE:  ['type', 'text', 'unit', 'validRange', 'branches', 'loop'],
+  TERMINAL: ['type', 'result', 'summary', 'artifact', 'severity', 'stopCode'],
+};
+
+const FIELD_TYPES: FieldMapping['field_type'][] = ['string', 'number', 'enum', 'array'];
+
+// Set by the engine or the terminal template, never by a field mapping
+const RESERVED_ARTIFACT_FIELDS: readonly string[] = [...REQUIRED_BASE_FIELDS, ...REQUIRED_SUFFIX_FIELDS];
+
+class DiagnosticCollector {
+  readonly diagnostics: FlowDiagnostic[] = [];
+
+  error(path: string, code: string, message: string): void {
+    this.diagnostics.push({ severity: 'error', path, code, message });
+  }
+
+  warning(path: string, code: string, message: string): void {
+    this.diagnostics.push({ severity: 'warning', path, code, message });
+  }
+}
+
+/**
+ * Tarjan's algorithm, returning only components that contain a cycle
+ * (more than one node, or a single node with a self-edge).
+ */
+function stronglyConnectedComponents(graph: Record<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (nodeId: string): void => {
+    index.set(nodeId, counter);
+    lowLink.set(nodeId, counter);
+    counter++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const next of graph[nodeId] ?? []) {
+      if (!(next in graph)) continue;
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, index.get(next)!));
+      }
     }
+
+    if (lowLink.get(nodeId) === index.get(nodeId)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== nodeId);
+      if (component.length > 1 || graph[nodeId].includes(nodeId)) {
+        components.push(component.reverse());
+      }
+    }
+  };
+
+  for (const nodeId of Object.keys(graph)) {
+    if (!index.has(nodeId)) visit(nodeId);
   }
+  return components;
+}
+
+/** RFC 6901 escaping for a single pointer segment. */
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function enumScope(raw: RawFlow): EnumScope {
+  return { flowId: raw.flowId, flowVersion: raw.flowVersion, enumsVersion: raw.artifactEnumsVersion };
+}
+
+function pointer(...segments: string[]): string {
+  return segments.map(segment => `/${escapePointer(segment)}`).join('');
 }
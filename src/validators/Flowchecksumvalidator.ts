@@ -1,4 +1,5 @@
-import * as Crypto from 'expo-crypto';
+import { CryptoService } from '../utils/CryptoProvider';
+import { JsonCanonicalizer } from '../utils/JsonCanonicalizer';
 
 export class ChecksumVerificationError extends Error {
   public readonly flow_id: string;
@@ -31,22 +32,28 @@ export interface ChecksumVerificationResult {
   error_message?: string;
 }
 
+/**
+ * Flow checksums are SHA-256 over the RFC 8785 canonical form of the flow,
+ * so formatting, key order and number spelling (10.0 vs 10) in the source
+ * file do not change the hash. Accepts either JSON text or a parsed flow.
+ */
+export type FlowSource = string | object;
+
 export class FlowChecksumValidator {
-  static async computeFlowHash(flowJsonString: string): Promise<string> {
-    const hash = await Crypto.digestStringAsync(
-      Crypto.CryptoDigestAlgorithm.SHA256,
-      flowJsonString
-    );
-    return hash;
+  static async computeFlowHash(flow: FlowSource): Promise<string> {
+    const canonical = typeof flow === 'string'
+      ? JsonCanonicalizer.canonicalizeText(flow)
+      : JsonCanonicalizer.canonicalize(flow);
+    return await CryptoService.sha256(canonical);
   }
 
   static async verifyChecksum(
-    flowJsonString: string,
+    flow: FlowSource,
     expectedHash: string,
     flowId: string,
     flowVersion: string
   ): Promise<ChecksumVerificationResult> {
-    const computedHash = await this.computeFlowHash(flowJsonString);
+    const computedHash = await this.computeFlowHash(flow);
     
     const normalizedExpected = expectedHash.toLowerCase().trim();
     const normalizedComputed = computedHash.toLowerCase().trim();
@@ -73,13 +80,13 @@ export class FlowChecksumValidator {
   }
 
   static async verifyChecksumOrThrow(
-    flowJsonString: string,
+    flow: FlowSource,
     expectedHash: string,
     flowId: string,
     flowVersion: string
   ): Promise<void> {
     const result = await this.verifyChecksum(
-      flowJsonString,
+      flow,
       expectedHash,
       flowId,
       flowVersion
@@ -0,0 +1,207 @@
+import { ConditionExpression } from '../utils/ConditionExpression';
+import { FlowDiagnostic, FlowValidationError, QuestionNode, RawFlow } from './FlowValidator';
+
+// ─── Classification format ────────────────────────────────────────────────────
+
+export interface TierClassificationEntry {
+  tier: number; // 1 direct failure … 4 unknown (ignored)
+  condition: {
+    value: string; // QUESTION answer key, or a MEASURE expression such as "< 11.8"
+  };
+  description: string;
+  finding_key: string;
+  subsystem: string; // findings from different subsystems conflict, e.g. "water_pump"
+  recommendation: string;
+}
+
+/**
+ * A labeled range of readings. `explanation` may use {value} for the reading
+ * with its unit label; `finding` is the tier effect of landing in the band.
+ */
+export interface MeasurementBand {
+  label: string;
+  condition: string; // ConditionExpression, e.g. "12.6 - 12.8"
+  explanation: string;
+  normal?: boolean; // a normal reading conflicts with symptom-only findings
+  finding?: Omit<TierClassificationEntry, 'condition'>;
+}
+
+export interface MeasurementInterpretation {
+  unit_label?: string; // appended to {value}, e.g. "V"
+  decimals?: number; // default 1
+  bands: MeasurementBand[]; // first match wins
+}
+
+/**
+ * Findings for one version of one flow. A node can list several conditions,
+ * e.g. one tier for "no" and another for "not_sure"; the first that holds wins.
+ * MEASURE nodes listed under `measurements` are also interpreted by band.
+ */
+export interface TierClassificationDocument {
+  flow_id: string;
+  flow_version: string;
+  notes?: string;
+  nodes: Record<string, TierClassificationEntry[]>;
+  measurements?: Record<string, MeasurementInterpretation>;
+}
+
+export class TierClassificationError extends FlowValidationError {
+  constructor(public readonly diagnostics: FlowDiagnostic[]) {
+    super(
+      `Tier classification failed validation with ${diagnostics.length} error(s):\n` +
+      diagnostics.map(d => `  ${d.path || '/'} [${d.code}] ${d.message}`).join('\n')
+    );
+    this.name = 'TierClassificationError';
+  }
+}
+
+// ─── Validator ────────────────────────────────────────────────────────────────
+
+const TIERS = [1, 2, 3, 4];
+
+const pointer = (id: string) => id.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/** Checks a classification document against the flow version it names. */
+export class TierClassificationValidator {
+  static lint(doc: TierClassificationDocument, flow: RawFlow): FlowDiagnostic[] {
+    const out: FlowDiagnostic[] = [];
+    const error = (path: string, code: string, message: string) =>
+      out.push({ severity: 'error', path, code, message });
+
+    if (doc.flow_id !== flow.flowId || doc.flow_version !== flow.flowVersion) {
+      error(
+        '/flow_id',
+        'flow_mismatch',
+        `Classification for ${doc.flow_id} v${doc.flow_version} checked against ` +
+        `${flow.flowId} v${flow.flowVersion}`
+      );
+    }
+    if (!doc.nodes || typeof doc.nodes !== 'object') {
+      error('/nodes', 'missing_field', 'Classification must have a "nodes" object');
+      return out;
+    }
+
+    for (const [nodeId, entries] of Object.entries(doc.nodes)) {
+      const nodePath = `/nodes/${pointer(nodeId)}`;
+      const node = flow.nodes[nodeId];
+      if (!node) {
+        error(nodePath, 'unknown_node', `Flow "${flow.flowId}" has no node "${nodeId}"`);
+        continue;
+      }
+      if (node.type !== 'QUESTION' && node.type !== 'MEASURE') {
+        error(
+          nodePath,
+          'invalid_node_type',
+          `Only QUESTION and MEASURE nodes can be classified, "${nodeId}" is ${node.type}`
+        );
+        continue;
+      }
+      if (!Array.isArray(entries) || entries.length === 0) {
+        error(nodePath, 'missing_field', `Node "${nodeId}" must list at least one classification`);
+        continue;
+      }
+
+      const answerKeys = node.type === 'QUESTION' ? Object.keys((node as QuestionNode).answers ?? {}) : [];
+      const seen = new Set<string>();
+      entries.forEach((entry, i) => {
+        const path = `${nodePath}/${i}`;
+        this.lintFinding(entry, path, error);
+
+        const value = entry.condition?.value;
+        if (typeof value !== 'string') {
+          error(`${path}/condition`, 'missing_field', 'Classification must have a string "condition.value"');
+          return;
+        }
+        if (seen.has(value)) {
+          error(`${path}/condition`, 'duplicate_condition', `Node "${nodeId}" classifies "${value}" more than once`);
+        }
+        seen.add(value);
+
+        if (node.type === 'QUESTION' && !answerKeys.includes(value)) {
+          error(`${path}/condition`, 'unknown_answer', `QUESTION node "${nodeId}" has no answer "${value}"`);
+        } else if (node.type === 'MEASURE' && !ConditionExpression.isExpression(value)) {
+          error(`${path}/condition`, 'invalid_condition', `"${value}" is not a valid condition expression`);
+        }
+      });
+    }
+
+    for (const [nodeId, interpretation] of Object.entries(doc.measurements ?? {})) {
+      this.lintMeasurement(nodeId, interpretation, flow, error);
+    }
+
+    return out;
+  }
+
+  private static lintMeasurement(
+    nodeId: string,
+    interpretation: MeasurementInterpretation,
+    flow: RawFlow,
+    error: (path: string, code: string, message: string) => void
+  ): void {
+    const nodePath = `/measurements/${pointer(nodeId)}`;
+    const node = flow.nodes[nodeId];
+    if (!node) {
+      error(nodePath, 'unknown_node', `Flow "${flow.flowId}" has no node "${nodeId}"`);
+      return;
+    }
+    if (node.type !== 'MEASURE') {
+      error(
+        nodePath,
+        'invalid_node_type',
+        `Only MEASURE nodes can be interpreted, "${nodeId}" is ${node.type}`
+      );
+      return;
+    }
+    if (!Array.isArray(interpretation.bands) || interpretation.bands.length === 0) {
+      error(`${nodePath}/bands`, 'missing_field', `Measurement "${nodeId}" must list at least one band`);
+      return;
+    }
+
+    const labels = new Set<string>();
+    interpretation.bands.forEach((band, i) => {
+      const path = `${nodePath}/bands/${i}`;
+      if (!band.label || typeof band.label !== 'string') {
+        error(`${path}/label`, 'missing_field', 'Band must have a string "label"');
+      } else if (labels.has(band.label)) {
+        error(
+          `${path}/label`,
+          'duplicate_band',
+          `Measurement "${nodeId}" has more than one "${band.label}" band`
+        );
+      } else {
+        labels.add(band.label);
+      }
+      if (!band.explanation || typeof band.explanation !== 'string') {
+        error(`${path}/explanation`, 'missing_field', 'Band must have a string "explanation"');
+      }
+      if (typeof band.condition !== 'string' || !ConditionExpression.isExpression(band.condition)) {
+        error(`${path}/condition`, 'invalid_condition', `"${band.condition}" is not a valid condition expression`);
+      }
+      if (band.finding !== undefined) {
+        this.lintFinding(band.finding, `${path}/finding`, error);
+      }
+    });
+  }
+
+  private static lintFinding(
+    finding: Omit<TierClassificationEntry, 'condition'>,
+    path: string,
+    error: (path: string, code: string, message: string) => void
+  ): void {
+    if (!TIERS.includes(finding.tier)) {
+      error(`${path}/tier`, 'invalid_tier', `Tier must be one of ${TIERS.join(', ')}`);
+    }
+    for (const field of ['description', 'finding_key', 'subsystem', 'recommendation'] as const) {
+      if (!finding[field] || typeof finding[field] !== 'string') {
+        error(`${path}/${field}`, 'missing_field', `Classification must have a string "${field}"`);
+      }
+    }
+  }
+
+  static validate(doc: TierClassificationDocument, flow: RawFlow): void {
+    const diagnostics = this.lint(doc, flow);
+    if (diagnostics.length > 0) {
+      throw new TierClassificationError(diagnostics);
+    }
+  }
+}